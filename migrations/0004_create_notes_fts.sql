@@ -0,0 +1,17 @@
+-- Migration number: 0004 	 2026-10-19T00:00:00.000Z
+-- Full-text index over note chunks for hybrid (keyword + vector) retrieval
+--
+-- notes_fts mirrors the notes table. It is kept in sync by DocumentStore
+-- (createNote / deleteDocument) rather than triggers, so writes that bypass
+-- DocumentStore must update it explicitly.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+  text,
+  note_id UNINDEXED,
+  document_id UNINDEXED,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing notes
+INSERT INTO notes_fts (text, note_id, document_id)
+SELECT text, id, document_id FROM notes;
@@ -0,0 +1,6 @@
+-- Migration number: 0005 	 2026-10-19T00:00:00.000Z
+-- Track a SHA-256 hash of each chunk so document updates only re-embed changed chunks
+--
+-- Existing notes keep a NULL hash; UpdateDocumentWorkflow hashes their text on demand.
+
+ALTER TABLE notes ADD COLUMN content_hash TEXT;
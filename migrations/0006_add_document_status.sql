@@ -0,0 +1,13 @@
+-- Migration number: 0006 	 2026-10-19T00:00:00.000Z
+-- Track ingestion status per document
+--
+-- status moves pending -> chunking -> embedding -> ready (or failed) as
+-- RAGWorkflow runs. workflow_id links a document to the workflow instance
+-- that ingested it, for GET /ingestions/:workflowId. Documents that existed
+-- before this migration were fully ingested and are marked ready.
+
+ALTER TABLE documents ADD COLUMN status TEXT NOT NULL DEFAULT 'ready';
+ALTER TABLE documents ADD COLUMN workflow_id TEXT;
+ALTER TABLE documents ADD COLUMN error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_workflow_id ON documents(workflow_id);
@@ -0,0 +1,20 @@
+-- Migration number: 0007 	 2026-10-19T00:00:00.000Z
+-- Structured citations for assistant messages
+--
+-- One row per validated citation, linking the message to the cited note and
+-- its document. start_offset/end_offset locate the [ID: ...] marker in
+-- messages.content. note_id and document_id are not foreign keys so that
+-- citations survive documents being updated or deleted.
+
+CREATE TABLE IF NOT EXISTS message_citations (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  note_id TEXT NOT NULL,
+  document_id TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_citations_message_id ON message_citations(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_citations_document_id ON message_citations(document_id);
@@ -0,0 +1,8 @@
+-- Migration number: 0008 	 2026-10-19T00:00:00.000Z
+-- Conversation titles for the conversation management API
+--
+-- title is generated from the first exchange of a conversation and can be
+-- changed with PATCH /chat/conversations/:id. Existing conversations keep a
+-- NULL title.
+
+ALTER TABLE conversations ADD COLUMN title TEXT;
@@ -0,0 +1,8 @@
+-- Migration number: 0009 	 2026-10-19T00:00:00.000Z
+-- Rolling conversation summaries
+--
+-- summary covers the oldest summarized_count messages of a conversation
+-- (ordered by created_at, then rowid); later messages are sent verbatim.
+
+ALTER TABLE conversations ADD COLUMN summary TEXT;
+ALTER TABLE conversations ADD COLUMN summarized_count INTEGER NOT NULL DEFAULT 0;
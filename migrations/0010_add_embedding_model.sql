@@ -0,0 +1,28 @@
+-- Migration number: 0010 	 2026-10-19T00:00:00.000Z
+-- Record the embedding model behind each document's vectors and track re-embedding jobs
+--
+-- Every vector created before this migration came from @cf/baai/bge-base-en-v1.5
+-- (768 dimensions), so existing documents are backfilled with it. Retrieval
+-- ignores vectors from any model other than the configured one, and
+-- ReembedWorkflow moves documents to a new model, recording its progress in
+-- embedding_jobs so a failed job can resume from its cursor.
+
+ALTER TABLE documents ADD COLUMN embedding_model TEXT NOT NULL DEFAULT '@cf/baai/bge-base-en-v1.5';
+ALTER TABLE documents ADD COLUMN embedding_dimensions INTEGER NOT NULL DEFAULT 768;
+
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  workflow_id TEXT,
+  documents_total INTEGER NOT NULL DEFAULT 0,
+  documents_done INTEGER NOT NULL DEFAULT 0,
+  notes_done INTEGER NOT NULL DEFAULT 0,
+  cursor TEXT,
+  error TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_documents_embedding_model ON documents(embedding_model);
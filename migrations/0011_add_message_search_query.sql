@@ -0,0 +1,8 @@
+-- Migration number: 0011 	 2026-10-19T00:00:00.000Z
+-- Store the search query used for retrieval with each user message
+--
+-- When question condensation is enabled, follow-up messages are rewritten into
+-- a standalone query before retrieval. search_query keeps what was actually
+-- searched; it is NULL for assistant messages and when the message was used as is.
+
+ALTER TABLE messages ADD COLUMN search_query TEXT;
@@ -0,0 +1,15 @@
+-- Migration number: 0012 	 2026-10-19T00:00:00.000Z
+-- Scope documents, notes and conversations to a tenant
+--
+-- Everything created before this migration belongs to the "default" tenant,
+-- which is also used by requests without an X-Tenant-ID header. Every query
+-- filters on tenant_id, so one tenant can never read, retrieve or cite
+-- another tenant's data.
+
+ALTER TABLE documents ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE notes ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE conversations ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_documents_tenant_uploaded ON documents(tenant_id, uploaded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notes_tenant ON notes(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_tenant_created ON conversations(tenant_id, created_at DESC);
@@ -0,0 +1,22 @@
+-- Migration number: 0013 	 2026-10-19T00:00:00.000Z
+-- API keys for authenticating requests
+--
+-- Keys are shown once when created; only their SHA-256 hash is stored. Each key
+-- belongs to a tenant and has a role (reader, writer or admin). allowed_origins
+-- is a JSON array of browser origins the key may be used from, or NULL for any.
+-- Revoked keys are kept with revoked_at set so they stay listed.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL DEFAULT 'default',
+  name TEXT NOT NULL,
+  role TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT NOT NULL,
+  allowed_origins TEXT,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER,
+  revoked_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys(tenant_id, created_at DESC);
@@ -0,0 +1,14 @@
+-- Migration number: 0014 	 2026-10-19T00:00:00.000Z
+-- Shared counters for rate limits and daily token quotas
+--
+-- Each row counts requests in one rate limit window, or tokens used on one UTC
+-- day, for an API key or IP. Keys embed the window or day, so a row is never
+-- reset; it is deleted once expires_at has passed.
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at);
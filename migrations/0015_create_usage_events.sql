@@ -0,0 +1,28 @@
+-- Migration number: 0015 	 2026-10-19T00:00:00.000Z
+-- Record model usage and estimated cost
+--
+-- One row per chat answer (linked to its conversation and message), per GET /
+-- answer, and per ingested or re-embedded document for its embedding calls.
+-- estimated is 1 when the model reported no token counts and they were
+-- estimated from the text. cost_usd is NULL for models without a known price.
+
+CREATE TABLE IF NOT EXISTS usage_events (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL DEFAULT 'default',
+  kind TEXT NOT NULL,
+  provider TEXT,
+  model TEXT NOT NULL,
+  conversation_id TEXT,
+  message_id TEXT,
+  document_id TEXT,
+  request_count INTEGER NOT NULL DEFAULT 1,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  cost_usd REAL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_tenant_created ON usage_events(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_message ON usage_events(message_id);
@@ -0,0 +1,15 @@
+-- Migration number: 0016 	 2026-10-19T00:00:00.000Z
+-- Detect duplicate documents and keep versions of a document
+--
+-- content_hash is the SHA-256 of the document text, checked on ingest so the
+-- same text is not ingested twice. Documents created before this migration
+-- have no hash and are not detected as duplicates until their content is
+-- replaced. A new version of a document links to the version it replaces with
+-- previous_version_id; the replaced version is marked superseded once the new
+-- one is ready, which removes it from retrieval.
+
+ALTER TABLE documents ADD COLUMN content_hash TEXT;
+ALTER TABLE documents ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN previous_version_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_tenant_content_hash ON documents(tenant_id, content_hash);
@@ -0,0 +1,29 @@
+-- Migration number: 0017 	 2026-10-19T00:00:00.000Z
+-- Record batch ingestions and the outcome of each item
+--
+-- POST /documents/batch validates every item, starts workflows for the
+-- accepted ones and records the results here, so GET /documents/batch/:batchId
+-- can report them later together with the status of each ingested document.
+
+CREATE TABLE IF NOT EXISTS ingestion_batches (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL DEFAULT 'default',
+  total INTEGER NOT NULL,
+  accepted INTEGER NOT NULL,
+  rejected INTEGER NOT NULL,
+  duplicates INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ingestion_batch_items (
+  batch_id TEXT NOT NULL,
+  item_index INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  title TEXT,
+  workflow_id TEXT,
+  document_id TEXT,
+  previous_version_id TEXT,
+  error TEXT,
+  PRIMARY KEY (batch_id, item_index),
+  FOREIGN KEY (batch_id) REFERENCES ingestion_batches(id) ON DELETE CASCADE
+);
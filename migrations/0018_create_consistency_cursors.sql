@@ -0,0 +1,12 @@
+-- Migration number: 0018 	 2026-10-19T00:00:00.000Z
+-- Where the scheduled consistency check of each tenant left off
+--
+-- Each run checks one bounded page of a tenant's documents and records the
+-- cursor of the next page here, so large tenants are checked across several
+-- runs. checked_at orders tenants so the least recently checked go first.
+
+CREATE TABLE IF NOT EXISTS consistency_cursors (
+  tenant_id TEXT PRIMARY KEY,
+  cursor TEXT,
+  checked_at INTEGER NOT NULL
+);
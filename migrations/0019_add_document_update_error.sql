@@ -0,0 +1,9 @@
+-- Migration number: 0019 	 2026-10-19T00:00:00.000Z
+-- Report why the last update of a document failed
+--
+-- A failed PUT /documents/:id removes the notes it wrote and puts the document
+-- back to the status it had, keeping its previous content retrievable. The
+-- failure is recorded here rather than in error, which belongs to a failed
+-- ingestion, and cleared once an update of the document succeeds.
+
+ALTER TABLE documents ADD COLUMN update_error TEXT;
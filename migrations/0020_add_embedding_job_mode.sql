@@ -0,0 +1,8 @@
+-- Migration number: 0020 	 2026-10-19T00:00:00.000Z
+-- Let an embedding job rewrite vector metadata instead of re-embedding
+--
+-- A tenant-metadata job re-upserts the default tenant's vectors with their
+-- existing values and current metadata, so the tenant_id metadata index covers
+-- vectors written before it existed. Existing jobs re-embedded documents.
+
+ALTER TABLE embedding_jobs ADD COLUMN mode TEXT NOT NULL DEFAULT 'reembed';
@@ -1,10 +1,9 @@
-import type { TextBlock } from '@anthropic-ai/sdk/resources';
-import Anthropic from '@anthropic-ai/sdk';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import { WorkflowEntrypoint, WorkflowEvent, WorkflowStep } from 'cloudflare:workers'
-import { Hono } from 'hono'
+import { NonRetryableError } from 'cloudflare:workflows'
+import { Context, Hono, MiddlewareHandler } from 'hono'
 import { cors } from 'hono/cors'
 import { methodOverride } from 'hono/method-override'
+import { streamSSE } from 'hono/streaming'
 
 // @ts-expect-error
 import notes from './notes.html'
@@ -15,40 +14,123 @@ import write from './write.html'
 // @ts-expect-error
 import chat from './chat.html'
 
-import { Env, NoteRecord, VectorMetadata, CreateDocumentInput } from './types';
-import { createLogger } from './utils/logger';
-import { DocumentStore } from './utils/document-store';
+import { Env, ApiKeyRole, ConsistencyReport, ConsistencyRepairResult, UsageKind, UsageEvent, DuplicatePolicy, IngestionBatchItemRecord, NoteRecord, VectorMetadata, CreateDocumentInput, DeleteDocumentResult, DocumentSource, DocumentFilter, ChunkingConfig, DocumentStatus, IngestionProgress, Citation, RetrievedNote, RetrievalOptions, DocumentRecord, DocumentMetadata, EmbeddingJob, EmbeddingJobMode, EmbeddingJobProgress } from './types';
+import { createLogger, Logger } from './utils/logger';
+import { DocumentStore, chunkNoteId, documentNoteIds, workflowDocumentId } from './utils/document-store';
+import { parseDocumentFilter, isEmptyFilter, toVectorMetadataFields, ParsedFilter, FilterableVectorFields } from './utils/document-filter';
+import { CompletionObserver, CompletionRequest, CompletionResult, createLLMProvider } from './utils/llm-provider';
+import { retrieveNotes } from './utils/retrieval';
+import { parseKeywordWeight } from './utils/hybrid-search';
+import { parseRerankOption } from './utils/reranker';
+import { parseThreshold } from './utils/similarity-cutoff';
+import { detectContentType, extractText, SUPPORTED_UPLOAD_TYPES } from './utils/text-extraction';
+import { sha256Hex } from './utils/hash';
+import { planChunkUpdate } from './utils/chunk-diff';
+import { validateCitations, CitationCheck } from './utils/citations';
+import { generateConversationTitle, truncateTitle, MAX_CONVERSATION_TITLE_LENGTH } from './utils/conversation-title';
+import { resolveHistoryConfig, selectRecentMessages, countMessagesToSummarize, summarizeMessages, estimateTokens, HistoryConfig } from './utils/conversation-summary';
+import { condenseQuestion, resolveCondenseQuestions } from './utils/question-condensing';
+import { parseChunkingConfig, resolveChunkingConfig, splitText, ParsedChunkingConfig } from './utils/chunking';
+import { resolveEmbeddingModel, EmbeddingModel, MAX_EMBEDDING_BATCH, resolveEmbeddingBatchSize } from './utils/embeddings';
+import { embedTextsCached } from './utils/embedding-cache';
+import {
+	createEmbeddingJob, getEmbeddingJob, findRunningEmbeddingJob, assignEmbeddingJobWorkflow,
+	setEmbeddingJobTotal, recordEmbeddingJobBatch, finishEmbeddingJob
+} from './utils/embedding-jobs';
+import { parseTenantId, vectorNamespace, DEFAULT_TENANT_ID, TENANT_HEADER } from './utils/tenant';
+import {
+	readApiKey, findApiKey, touchApiKey, toApiKey, isOriginAllowed, roleAllows,
+	createApiKey, listApiKeys, revokeApiKey, parseApiKeyRole, parseAllowedOrigins, MAX_API_KEY_NAME_LENGTH
+} from './utils/api-keys';
+import {
+	resolveRateLimitConfig, createRateLimitStore, rateLimitIdentity, checkRateLimit, checkTokenQuota,
+	recordTokenUsage, completionTokenCount, rateLimitHeaders, RateLimitResult, TokenQuotaResult
+} from './utils/rate-limit';
+import { recordUsage, completionUsage, embeddingTokens, parseUsageRange, getUsageReport } from './utils/usage';
+import { parseDuplicatePolicy, resolveDuplicatePolicy } from './utils/duplicates';
+import {
+	checkConsistency, decodeConsistencyCursor, getConsistencyCursor, hasInconsistencies, listConsistencyTenants,
+	saveConsistencyCursor, summarizeConsistencyReport
+} from './utils/consistency';
+import {
+	parseBatchBody, groupForWorkflows, createIngestionBatch, getIngestionBatch, toBatchItem, toBatchProgress
+} from './utils/ingestion-batches';
 
-type Note = {
-	id: string;
+type Params = {
 	text: string;
-}
+	title?: string;
+	contentType?: string;
+	metadata?: Record<string, unknown>;
+	chunking?: ChunkingConfig;
+	tenantId?: string; // Absent on instances created before tenants, which belong to the default tenant
+	previousVersionId?: string; // Document this one is a new version of; superseded once this one is ready
+};
 
-type Params = {
+type UpdateParams = {
+	documentId: string;
 	text: string;
 	title?: string;
 	contentType?: string;
 	metadata?: Record<string, unknown>;
+	chunking?: ChunkingConfig;
+	tenantId?: string;
+};
+
+// Answer given when no document passes retrieval; the model is not called
+const NO_RELEVANT_DOCUMENTS_ANSWER = "I don't have enough information in the knowledge base to answer that question.";
+
+type ReembedParams = {
+	jobId: string;
 };
 
 type Conversation = {
 	id: string;
+	title: string | null; // Generated from the first exchange, or set with PATCH
 	created_at: number;
 }
 
+// Rolling summary state of a conversation (see utils/conversation-summary)
+type ConversationSummary = {
+	summary: string | null; // Covers the oldest summarized_count messages
+	summarized_count: number;
+}
+
 type Message = {
 	id: string;
 	conversation_id: string;
 	role: 'user' | 'assistant';
 	content: string;
 	sources: string | null;
+	search_query: string | null; // Standalone query used for retrieval, when a user message was condensed
 	created_at: number;
 }
 
+type MessageCitation = {
+	id: string;
+	message_id: string;
+	note_id: string;
+	document_id: string;
+	start_offset: number;
+	end_offset: number;
+}
+
 type ChatMessage = {
 	role: 'user' | 'assistant';
 	content: string;
 	sources?: Array<{ id: string; text: string }>;
+	citations?: Citation[];
+	invalidCitations?: string[]; // Cited IDs removed from the answer because they were not retrieved
+	searchQuery?: string; // Standalone query a follow-up was rewritten to for retrieval (on the user message and its answer)
+	usage?: MessageUsage; // Model usage of an assistant message, when the model was called
+}
+
+type MessageUsage = {
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	estimated: boolean; // Tokens were estimated because the model reported none
+	latencyMs: number | null;
+	costUsd: number | null; // Null for models without a known price
 }
 
 // Helper function to safely parse JSON sources
@@ -64,39 +146,451 @@ function parseSourcesSafely(sources: string | null, logger?: ReturnType<typeof c
 	}
 }
 
-const app = new Hono<{ Bindings: Env }>()
-app.use(cors())
+/**
+ * Validate the citations in a generated answer, then save it with its sources and citation records.
+ * Citations to notes that were not retrieved are removed from the saved content.
+ */
+async function saveAssistantMessage(
+	env: Env,
+	logger: Logger,
+	conversationId: string,
+	answer: string,
+	sources: string | null,
+	notes: RetrievedNote[]
+): Promise<{ message: Message | null } & CitationCheck> {
+	const check = validateCitations(answer, notes);
+	if (check.invalidCitations.length > 0) {
+		logger.warn('Removed citations to notes that were not retrieved', { invalidCitations: check.invalidCitations });
+	}
+
+	const message = await env.DATABASE.prepare(
+		`INSERT INTO messages (id, conversation_id, role, content, sources) VALUES (?, ?, ?, ?, ?) RETURNING *`
+	).bind(crypto.randomUUID(), conversationId, 'assistant', check.content, sources).first<Message>();
+
+	if (message && check.citations.length > 0) {
+		await env.DATABASE.batch(check.citations.map(citation => env.DATABASE.prepare(
+			`INSERT INTO message_citations (id, message_id, note_id, document_id, start_offset, end_offset) VALUES (?, ?, ?, ?, ?, ?)`
+		).bind(crypto.randomUUID(), message.id, citation.noteId, citation.documentId, citation.start, citation.end)));
+	}
+
+	return { message, ...check };
+}
+
+/**
+ * Title a conversation from its first exchange, unless it was titled in the meantime.
+ * Runs after the response is sent; falls back to the opening question if generation fails.
+ */
+async function titleConversation(
+	env: Env,
+	logger: Logger,
+	conversationId: string,
+	question: string,
+	answer: string,
+	onCompletion?: CompletionObserver
+): Promise<void> {
+	let title: string;
+	try {
+		title = await generateConversationTitle(env, question, answer, onCompletion);
+	} catch (error) {
+		logger.warn('Failed to generate conversation title, using the question', {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		title = truncateTitle(question);
+	}
+
+	try {
+		await env.DATABASE.prepare('UPDATE conversations SET title = ? WHERE id = ? AND title IS NULL')
+			.bind(title, conversationId)
+			.run();
+		logger.info('Conversation titled', { title });
+	} catch (error) {
+		logger.error('Failed to save conversation title', error instanceof Error ? error : new Error(String(error)));
+	}
+}
+
+/**
+ * Load the messages of a conversation not yet covered by its rolling summary, oldest first
+ */
+async function loadUnsummarizedMessages(env: Env, conversationId: string, summarizedCount: number): Promise<Message[]> {
+	const { results } = await env.DATABASE.prepare(
+		`SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at ASC, rowid ASC LIMIT -1 OFFSET ?`
+	).bind(conversationId, summarizedCount).all<Message>();
+	return results || [];
+}
+
+/**
+ * Fold the oldest unsummarized messages into the conversation's rolling summary once they
+ * exceed the history window or token budget. Runs after the response is sent.
+ */
+async function updateConversationSummary(
+	env: Env,
+	logger: Logger,
+	conversationId: string,
+	config: HistoryConfig,
+	onCompletion?: CompletionObserver
+): Promise<void> {
+	try {
+		const conv = await env.DATABASE.prepare('SELECT summary, summarized_count FROM conversations WHERE id = ?')
+			.bind(conversationId)
+			.first<ConversationSummary>();
+		if (!conv) return;
+
+		const messages = await loadUnsummarizedMessages(env, conversationId, conv.summarized_count);
+		const foldCount = countMessagesToSummarize(messages, config);
+		if (foldCount === 0) return;
+
+		const summary = await summarizeMessages(env, conv.summary, messages.slice(0, foldCount), onCompletion);
+
+		// Skip the write if a concurrent request already moved the summary on
+		const result = await env.DATABASE.prepare(
+			'UPDATE conversations SET summary = ?, summarized_count = ? WHERE id = ? AND summarized_count = ?'
+		).bind(summary, conv.summarized_count + foldCount, conversationId, conv.summarized_count).run();
+
+		logger.info('Conversation summary updated', { summarizedMessages: foldCount, applied: result.meta.changes > 0 });
+	} catch (error) {
+		logger.error('Failed to update conversation summary', error instanceof Error ? error : new Error(String(error)));
+	}
+}
+
+// Ingestion limits shared by all document creation routes
+const MAX_CONTENT_SIZE = 25 * 1024 * 1024; // 25 MiB (KV limit)
+const MAX_TITLE_LENGTH = 1000;
+
+/**
+ * Validate a JSON document body ({ text, title?, contentType?, metadata?, chunking? }) against the ingestion limits.
+ * Defaults are left to the caller so updates can tell omitted fields apart.
+ */
+function validateDocumentBody(
+	body: { text?: unknown; title?: unknown; contentType?: unknown; metadata?: unknown; chunking?: unknown },
+	logger: Logger
+): { input?: Params; estimatedSize?: number; error?: string } {
+	const { text, title, contentType, metadata } = body;
+
+	// Validate text presence
+	if (!text || typeof text !== 'string') {
+		logger.warn('Missing text in request');
+		return { error: "Missing text" };
+	}
+
+	// Validate content size (account for JSON serialization overhead with 20% safety margin)
+	const estimatedSize = Math.ceil(new TextEncoder().encode(text).length * 1.2);
+	if (estimatedSize > MAX_CONTENT_SIZE) {
+		logger.warn('Content exceeds size limit', {
+			size: estimatedSize,
+			limit: MAX_CONTENT_SIZE
+		});
+		return {
+			error: `Content too large. Maximum size: ${MAX_CONTENT_SIZE} bytes (${Math.round(MAX_CONTENT_SIZE / 1024 / 1024)} MiB)`
+		};
+	}
+
+	// Validate title
+	if (title !== undefined && title !== null && typeof title !== 'string') {
+		return { error: "Title must be a string" };
+	}
+	if (title && title.length > MAX_TITLE_LENGTH) {
+		logger.warn('Title exceeds length limit', {
+			length: title.length,
+			limit: MAX_TITLE_LENGTH
+		});
+		return { error: `Title too long. Maximum length: ${MAX_TITLE_LENGTH} characters` };
+	}
+
+	if (contentType !== undefined && contentType !== null && typeof contentType !== 'string') {
+		return { error: "Content type must be a string" };
+	}
+
+	// Validate metadata is a proper object (not null, not array)
+	if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+		logger.warn('Invalid metadata type', { type: typeof metadata, isArray: Array.isArray(metadata) });
+		return { error: "Metadata must be an object" };
+	}
+
+	const chunking = body.chunking !== undefined ? parseChunkingConfig(body.chunking) : undefined;
+	if (chunking?.error) {
+		return { error: chunking.error };
+	}
+
+	return {
+		input: {
+			text,
+			title: title || undefined,
+			contentType: contentType || undefined,
+			metadata: metadata as Record<string, unknown> | undefined,
+			chunking: chunking?.config,
+		},
+		estimatedSize,
+	};
+}
+
+// Caller authenticated by an API key; keyId is null for ADMIN_API_KEY
+type RequestAuth = {
+	keyId: string | null;
+	role: ApiKeyRole;
+	allowedOrigins: string[] | null;
+};
+
+type AppEnv = { Bindings: Env; Variables: { tenantId: string; auth?: RequestAuth; rateLimitIdentity?: string } };
 
-// Simple rate limiting middleware for chat endpoints
-const chatRateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 30; // 30 requests per minute per IP
+const app = new Hono<AppEnv>()
 
-app.use('/chat/conversations/:id/messages', async (c, next) => {
-	const clientIp = c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for') || 'unknown';
-	const now = Date.now();
+// Authenticate the API key, if any, and resolve the tenant: a stored key acts for its
+// own tenant, otherwise the tenant in the X-Tenant-ID header or the default tenant
+app.use(async (c, next) => {
+	// CORS preflight requests carry no credentials
+	if (c.req.method === 'OPTIONS') return next();
 
-	let record = chatRateLimitMap.get(clientIp);
-	if (!record || now > record.resetTime) {
-		record = { count: 0, resetTime: now + RATE_LIMIT_WINDOW };
-		chatRateLimitMap.set(clientIp, record);
+	const tenantHeader = c.req.header(TENANT_HEADER);
+	const tenant = parseTenantId(tenantHeader);
+	if (!tenant.value) {
+		return c.json({ error: tenant.error }, 400);
 	}
+	let tenantId = tenant.value;
+
+	const key = readApiKey(c.req.header('Authorization'), c.req.header('X-API-Key'));
+	if (key) {
+		// Compare hashes rather than the raw secret
+		if (c.env.ADMIN_API_KEY && await sha256Hex(key) === await sha256Hex(c.env.ADMIN_API_KEY)) {
+			c.set('auth', { keyId: null, role: 'admin', allowedOrigins: null });
+		} else {
+			const record = await findApiKey(c.env, key);
+			if (!record) {
+				return c.json({ error: 'Invalid API key' }, 401);
+			}
+			if (tenantHeader && tenantId !== record.tenant_id) {
+				return c.json({ error: 'API key does not belong to this tenant' }, 403);
+			}
 
-	if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-		return c.text('Rate limit exceeded. Too many requests.', 429);
+			const auth: RequestAuth = { keyId: record.id, role: record.role, allowedOrigins: toApiKey(record).allowedOrigins };
+			if (!isOriginAllowed(auth.allowedOrigins, c.req.header('Origin'))) {
+				return c.json({ error: 'Origin not allowed for this API key' }, 403);
+			}
+
+			tenantId = record.tenant_id;
+			c.set('auth', auth);
+			c.executionCtx.waitUntil(touchApiKey(c.env, record.id).catch(() => {}));
+		}
 	}
 
-	record.count++;
+	c.set('tenantId', tenantId);
 	await next();
 })
 
+// Browsers may read responses only from the origins allowed for the key
+app.use(cors({
+	origin: (origin, c) => isOriginAllowed(c.get('auth')?.allowedOrigins ?? null, origin) ? origin : null,
+}))
+
+/**
+ * Require an API key with at least a role, unless DISABLE_API_AUTH is "true"
+ */
+function requireRole(role: ApiKeyRole): MiddlewareHandler<AppEnv> {
+	return async (c, next) => {
+		if (c.env.DISABLE_API_AUTH === 'true') return next();
+
+		const auth = c.get('auth');
+		if (!auth) {
+			return c.json({ error: 'API key required' }, 401);
+		}
+		if (!roleAllows(auth.role, role)) {
+			return c.json({ error: `This route requires the ${role} role` }, 403);
+		}
+		await next();
+	};
+}
+
+/**
+ * Require ADMIN_API_KEY, unless DISABLE_API_AUTH is "true". For routes that act on every
+ * tenant's data, which a tenant's own admin keys must not reach.
+ */
+function requireDeploymentAdmin(): MiddlewareHandler<AppEnv> {
+	return async (c, next) => {
+		if (c.env.DISABLE_API_AUTH === 'true') return next();
+
+		const auth = c.get('auth');
+		if (!auth) {
+			return c.json({ error: 'API key required' }, 401);
+		}
+		if (auth.keyId !== null) {
+			return c.json({ error: 'This route requires ADMIN_API_KEY' }, 403);
+		}
+		await next();
+	};
+}
+
+/**
+ * Limit a group of AI-consuming routes per API key or IP, and enforce the daily token quota.
+ * Sets RateLimit-* headers, and Retry-After when the request is refused.
+ */
+function rateLimit(group: string): MiddlewareHandler<AppEnv> {
+	return async (c, next) => {
+		const logger = createLogger({ middleware: 'rateLimit', group });
+		const config = resolveRateLimitConfig(c.env);
+		const store = createRateLimitStore(c.env);
+		const identity = rateLimitIdentity(
+			c.get('auth')?.keyId,
+			c.req.header('cf-connecting-ip') || c.req.header('x-forwarded-for')
+		);
+		const now = Date.now();
+
+		let result: RateLimitResult;
+		let quota: TokenQuotaResult | undefined;
+		try {
+			[result, quota] = await Promise.all([
+				checkRateLimit(store, `${group}:${identity}`, config, now),
+				config.dailyTokenQuota ? checkTokenQuota(store, identity, config.dailyTokenQuota, now) : undefined,
+			]);
+		} catch (error) {
+			// Limits protect capacity; an unavailable counter store should not take the API down
+			logger.error('Rate limit check failed, allowing request', error instanceof Error ? error : new Error(String(error)));
+			return next();
+		}
+
+		for (const [name, value] of Object.entries(rateLimitHeaders(result, config))) {
+			c.header(name, value);
+		}
+		if (!result.allowed) {
+			logger.warn('Rate limit exceeded', { identity, retryAfter: result.retryAfterSeconds });
+			return c.json({ error: 'Rate limit exceeded. Too many requests.' }, 429);
+		}
+		if (quota && !quota.allowed) {
+			logger.warn('Daily token quota exceeded', { identity, used: quota.used, quota: quota.quota });
+			c.header('Retry-After', String(quota.resetSeconds));
+			return c.json({ error: 'Daily token quota exceeded', quota: quota.quota, used: quota.used }, 429);
+		}
+
+		c.set('rateLimitIdentity', identity);
+		// Expired counters are cleaned up by an occasional request rather than on every one
+		if (Math.random() < 0.01) {
+			c.executionCtx.waitUntil(store.purgeExpired(now).catch(() => 0));
+		}
+		await next();
+	};
+}
+
+/**
+ * Count tokens against the caller's daily quota after the response is sent (only when DAILY_TOKEN_QUOTA is set)
+ */
+function recordQuotaTokens(c: Context<AppEnv>, logger: Logger, tokens: number): void {
+	const identity = c.get('rateLimitIdentity');
+	if (!identity || !resolveRateLimitConfig(c.env).dailyTokenQuota) return;
+
+	c.executionCtx.waitUntil(
+		recordTokenUsage(createRateLimitStore(c.env), identity, tokens).catch(error => {
+			logger.error('Failed to record token usage', error instanceof Error ? error : new Error(String(error)));
+		})
+	);
+}
+
+/**
+ * Record a completion's tokens, latency and estimated cost after the response is sent
+ */
+function recordCompletionUsage(
+	c: Context<AppEnv>,
+	logger: Logger,
+	kind: UsageKind,
+	completion: { provider: string; model: string; usage: CompletionResult['usage'] },
+	request: CompletionRequest,
+	answer: string,
+	latencyMs: number,
+	message?: { conversationId: string; messageId?: string }
+): void {
+	const { usage, estimated } = completionUsage(request, answer, completion.usage);
+	c.executionCtx.waitUntil(
+		recordUsage(c.env, {
+			tenantId: c.get('tenantId'),
+			kind,
+			provider: completion.provider,
+			model: completion.model,
+			conversationId: message?.conversationId,
+			messageId: message?.messageId,
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			estimated,
+			latencyMs,
+		}).catch(error => {
+			logger.error('Failed to record usage', error instanceof Error ? error : new Error(String(error)));
+		})
+	);
+}
+
+/**
+ * Count a completion made around a chat answer (its title, a summary update or a condensed question) toward the caller's quota and usage
+ */
+function meterCompletion(c: Context<AppEnv>, logger: Logger, kind: UsageKind, conversationId: string): CompletionObserver {
+	return (request, completion, latencyMs) => {
+		recordQuotaTokens(c, logger, completionTokenCount(request, completion.text, completion.usage));
+		recordCompletionUsage(c, logger, kind, completion, request, completion.text, latencyMs, { conversationId });
+	};
+}
+
+/**
+ * Count a query's embedding toward the caller's quota and usage. Workers AI reports no usage for embeddings, so tokens are estimated.
+ */
+function meterQueryEmbedding(
+	c: Context<AppEnv>,
+	logger: Logger,
+	conversationId?: string
+): NonNullable<RetrievalOptions['onQueryEmbedded']> {
+	return (model, texts) => {
+		const tokens = embeddingTokens(texts);
+		recordQuotaTokens(c, logger, tokens);
+		c.executionCtx.waitUntil(
+			recordUsage(c.env, {
+				tenantId: c.get('tenantId'),
+				kind: 'embedding',
+				provider: 'workers-ai',
+				model,
+				conversationId,
+				inputTokens: tokens,
+				outputTokens: 0,
+				estimated: true,
+			}).catch(error => {
+				logger.error('Failed to record usage', error instanceof Error ? error : new Error(String(error)));
+			})
+		);
+	};
+}
+
+/**
+ * Check a new document's text against the tenant's documents and apply the duplicate policy.
+ * Returns a response when nothing should be ingested, otherwise the document a new version replaces, if any.
+ */
+async function checkDuplicateDocument(
+	c: Context<AppEnv>,
+	logger: Logger,
+	text: string,
+	policy: DuplicatePolicy
+): Promise<{ response?: Response; previousVersionId?: string }> {
+	const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
+	const existing = await docStore.findDuplicate(await sha256Hex(text));
+	if (!existing) return {};
+
+	logger.info('Duplicate document submitted', { documentId: existing.id, policy });
+	const duplicate = {
+		documentId: existing.id,
+		workflowId: existing.workflow_id,
+		status: existing.status,
+		statusUrl: existing.workflow_id ? `/ingestions/${existing.workflow_id}` : null,
+	};
+
+	switch (policy) {
+		case 'reject':
+			return { response: c.json({ error: 'A document with the same content already exists', ...duplicate }, 409) };
+		case 'return':
+			return { response: c.json({ message: 'Document already exists', duplicate: true, ...duplicate }, 200) };
+		case 'version':
+			return { previousVersionId: existing.id };
+	}
+}
+
 // Documents endpoints
-app.get('/documents', async (c) => {
+app.get('/documents', requireRole('reader'), async (c) => {
 	const logger = createLogger({ endpoint: 'GET /documents' });
 	logger.info('Listing documents');
 
 	try {
-		const docStore = new DocumentStore(c.env, logger);
+		const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
 		const documents = await docStore.listDocuments();
 
 		logger.info('Documents retrieved', { count: documents.length });
@@ -107,14 +601,14 @@ app.get('/documents', async (c) => {
 	}
 });
 
-app.get('/documents/:id', async (c) => {
+app.get('/documents/:id', requireRole('reader'), async (c) => {
 	const logger = createLogger({ endpoint: 'GET /documents/:id' });
 	const { id } = c.req.param();
 
 	logger.info('Retrieving document', { documentId: id });
 
 	try {
-		const docStore = new DocumentStore(c.env, logger);
+		const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
 		const document = await docStore.getDocument(id);
 
 		if (!document) {
@@ -130,9 +624,123 @@ app.get('/documents/:id', async (c) => {
 	}
 });
 
-app.get('/notes.json', async (c) => {
-	const query = `SELECT * FROM notes`
-	const { results } = await c.env.DATABASE.prepare(query).all()
+app.delete('/documents/:id', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'DELETE /documents/:id' });
+	const { id } = c.req.param();
+
+	logger.info('Deleting document', { documentId: id });
+
+	const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
+	const result = await docStore.deleteDocument(id);
+
+	if (result.status === 'not_found') {
+		return c.json({ error: 'Document not found' }, 404);
+	}
+	if (result.status === 'failed') {
+		logger.warn('Document deletion incomplete', { documentId: id, cleaned: result.cleaned });
+		return c.json({ error: 'Failed to delete document', result }, 500);
+	}
+
+	logger.info('Document deleted', { documentId: id, vectorCount: result.vectorCount });
+	return c.json(result);
+});
+
+// Replace a document's content in place; unchanged chunks keep their embeddings
+app.put('/documents/:id', requireRole('writer'), rateLimit('ingest'), async (c) => {
+	const logger = createLogger({ endpoint: 'PUT /documents/:id' });
+	const { id } = c.req.param();
+
+	let body: Record<string, unknown>;
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.json({ error: 'Request body must be JSON' }, 400);
+	}
+
+	const validation = validateDocumentBody(body, logger);
+	if (!validation.input) {
+		return c.json({ error: validation.error }, 400);
+	}
+
+	const tenantId = c.get('tenantId');
+	const existing = await c.env.DATABASE.prepare('SELECT id FROM documents WHERE id = ? AND tenant_id = ?').bind(id, tenantId).first();
+	if (!existing) {
+		logger.warn('Document not found', { documentId: id });
+		return c.json({ error: 'Document not found' }, 404);
+	}
+
+	const params: UpdateParams = { documentId: id, ...validation.input, tenantId };
+	const instance = await c.env.UPDATE_WORKFLOW.create({ params });
+	recordQuotaTokens(c, logger, estimateTokens(params.text));
+
+	logger.info('Update workflow created', { documentId: id, instanceId: instance.id, contentSize: validation.estimatedSize });
+	return c.json({ message: "Updating document", documentId: id, workflowId: instance.id }, 202);
+});
+
+// Bulk delete by explicit IDs or by metadata filter
+app.post('/documents/delete', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /documents/delete' });
+	const MAX_BULK_DELETE = 100;
+
+	let body: { ids?: unknown; filter?: unknown };
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.json({ error: 'Request body must be JSON' }, 400);
+	}
+
+	if ((body.ids === undefined) === (body.filter === undefined)) {
+		return c.json({ error: 'Provide exactly one of "ids" or "filter"' }, 400);
+	}
+
+	const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
+	let documentIds: string[];
+
+	if (body.ids !== undefined) {
+		if (!Array.isArray(body.ids) || body.ids.length === 0 || body.ids.some(id => typeof id !== 'string' || !id)) {
+			return c.json({ error: '"ids" must be a non-empty array of document IDs' }, 400);
+		}
+		if (body.ids.length > MAX_BULK_DELETE) {
+			return c.json({ error: `Too many IDs. Maximum per request: ${MAX_BULK_DELETE}` }, 400);
+		}
+		documentIds = [...new Set(body.ids as string[])];
+	} else {
+		const { filter, error } = parseDocumentFilter(body.filter);
+		if (!filter) {
+			return c.json({ error }, 400);
+		}
+		if (isEmptyFilter(filter)) {
+			return c.json({ error: 'Filter must contain at least one condition' }, 400);
+		}
+		try {
+			documentIds = await docStore.findDocumentIds(filter, MAX_BULK_DELETE);
+		} catch (error) {
+			logger.error('Failed to resolve filter', error instanceof Error ? error : new Error(String(error)));
+			return c.json({ error: 'Failed to resolve filter' }, 500);
+		}
+	}
+
+	logger.info('Bulk deleting documents', { count: documentIds.length });
+
+	const results: DeleteDocumentResult[] = [];
+	for (const documentId of documentIds) {
+		results.push(await docStore.deleteDocument(documentId));
+	}
+
+	const summary = {
+		requested: documentIds.length,
+		deleted: results.filter(r => r.status === 'deleted').length,
+		notFound: results.filter(r => r.status === 'not_found').length,
+		failed: results.filter(r => r.status === 'failed').length,
+	};
+
+	logger.info('Bulk delete complete', summary);
+	return c.json({ ...summary, results });
+});
+
+app.get('/notes.json', requireRole('reader'), async (c) => {
+	const query = `SELECT * FROM notes WHERE tenant_id = ?`
+	const { results } = await c.env.DATABASE.prepare(query).bind(c.get('tenantId')).all()
 	return c.json(results);
 })
 
@@ -141,77 +749,691 @@ app.get('/notes', async (c) => {
 })
 
 app.use('/notes/:id', methodOverride({ app }))
-app.delete('/notes/:id', async (c) => {
+app.delete('/notes/:id', requireRole('admin'), async (c) => {
 	const { id } = c.req.param();
-	const query = `DELETE FROM notes WHERE id = ?`
-	await c.env.DATABASE.prepare(query).bind(id).run()
-	await c.env.VECTOR_INDEX.deleteByIds([id])
+	const logger = createLogger({ endpoint: 'DELETE /notes/:id' });
+	// Notes of another tenant are left untouched
+	await new DocumentStore(c.env, logger, c.get('tenantId')).deleteNotes([id])
 	return c.redirect('/notes')
 })
 
-app.post('/notes', async (c) => {
+app.post('/notes', requireRole('writer'), rateLimit('ingest'), async (c) => {
 	const logger = createLogger({ endpoint: 'POST /notes' });
 	logger.info('Received note creation request');
 
-	// Validation constants
-	const MAX_CONTENT_SIZE = 25 * 1024 * 1024; // 25 MiB (KV limit)
-	const MAX_TITLE_LENGTH = 1000;
+	const body = await c.req.json();
+	const validation = validateDocumentBody(body, logger);
+	if (!validation.input) {
+		return c.json({ error: validation.error }, 400);
+	}
+	const onDuplicate = parseDuplicatePolicy(body.onDuplicate);
+	if (onDuplicate.error) {
+		return c.json({ error: onDuplicate.error }, 400);
+	}
 
-	const { text, title, contentType, metadata } = await c.req.json();
+	const { text, title, contentType, metadata, chunking } = validation.input;
+	const duplicate = await checkDuplicateDocument(c, logger, text, resolveDuplicatePolicy(c.env, onDuplicate.value));
+	if (duplicate.response) {
+		return duplicate.response;
+	}
+
+	const estimatedSize = validation.estimatedSize;
+	const params: Params = {
+		text,
+		title: title || 'Untitled Document',
+		contentType: contentType || 'text/plain',
+		metadata: metadata || {},
+		chunking,
+		tenantId: c.get('tenantId'),
+		previousVersionId: duplicate.previousVersionId,
+	};
+
+	logger.info('Creating workflow instance', {
+		title: params.title,
+		contentSize: estimatedSize,
+		hasMetadata: !!Object.keys(params.metadata || {}).length
+	});
+
+	const instance = await c.env.RAG_WORKFLOW.create({ params });
+	// Embedding every chunk costs about as many tokens as the text
+	recordQuotaTokens(c, logger, estimateTokens(params.text));
+
+	logger.info('Workflow created successfully', { instanceId: instance.id, previousVersionId: params.previousVersionId });
+	return c.json({
+		message: "Created document",
+		workflowId: instance.id,
+		statusUrl: `/ingestions/${instance.id}`,
+		previousVersionId: params.previousVersionId,
+	}, 201);
+})
+
+// Multipart file upload: extracts text from Markdown, HTML, plain text or PDF and ingests it
+app.post('/documents/upload', requireRole('writer'), rateLimit('ingest'), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /documents/upload' });
+	logger.info('Received file upload request');
+
+	let form: FormData;
+	try {
+		form = await c.req.formData();
+	} catch {
+		return c.json({ error: 'Request must be multipart/form-data' }, 400);
+	}
+
+	const file = form.get('file');
+	if (!file || typeof file === 'string') {
+		logger.warn('Missing file in upload');
+		return c.json({ error: 'Missing file' }, 400);
+	}
+
+	if (file.size > MAX_CONTENT_SIZE) {
+		logger.warn('Upload exceeds size limit', { size: file.size, limit: MAX_CONTENT_SIZE });
+		return c.json({
+			error: `File too large. Maximum size: ${MAX_CONTENT_SIZE} bytes (${Math.round(MAX_CONTENT_SIZE / 1024 / 1024)} MiB)`
+		}, 413);
+	}
+
+	const bytes = new Uint8Array(await file.arrayBuffer());
+	const contentType = detectContentType(bytes, file.name, file.type);
+	if (!contentType) {
+		logger.warn('Unsupported file type', { filename: file.name, declaredType: file.type });
+		return c.json({ error: `Unsupported file type. Supported types: ${SUPPORTED_UPLOAD_TYPES.join(', ')}` }, 415);
+	}
+
+	const title = form.get('title');
+	if (title !== null && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+		return c.json({ error: `Title too long. Maximum length: ${MAX_TITLE_LENGTH} characters` }, 400);
+	}
+
+	let metadata: Record<string, unknown> = {};
+	const rawMetadata = form.get('metadata');
+	if (rawMetadata !== null) {
+		try {
+			metadata = JSON.parse(typeof rawMetadata === 'string' ? rawMetadata : await rawMetadata.text());
+		} catch {
+			return c.json({ error: 'Metadata must be a JSON object' }, 400);
+		}
+		if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+			return c.json({ error: 'Metadata must be a JSON object' }, 400);
+		}
+	}
+
+	const onDuplicate = parseDuplicatePolicy(form.get('onDuplicate'));
+	if (onDuplicate.error) {
+		return c.json({ error: onDuplicate.error }, 400);
+	}
+
+	let chunking: ChunkingConfig | undefined;
+	const rawChunking = form.get('chunking');
+	if (rawChunking !== null) {
+		let parsedChunking: ParsedChunkingConfig;
+		try {
+			const value = typeof rawChunking === 'string' ? rawChunking : await rawChunking.text();
+			// Accept a bare strategy name as well as a JSON config
+			parsedChunking = parseChunkingConfig(value.trim().startsWith('{') ? JSON.parse(value) : value.trim());
+		} catch {
+			return c.json({ error: 'Chunking must be a strategy name or a JSON object' }, 400);
+		}
+		if (parsedChunking.error) {
+			return c.json({ error: parsedChunking.error }, 400);
+		}
+		chunking = parsedChunking.config;
+	}
+
+	let text: string;
+	try {
+		logger.startTimer('extract-text');
+		text = await extractText(bytes, contentType);
+		logger.endTimer('extract-text', { contentType, textLength: text.length });
+	} catch (error) {
+		logger.error('Text extraction failed', error instanceof Error ? error : new Error(String(error)), { filename: file.name, contentType });
+		return c.json({ error: 'Failed to extract text from file' }, 422);
+	}
 
-	// Validate text presence
 	if (!text) {
-		logger.warn('Missing text in request');
-		return c.json({ error: "Missing text" }, 400);
+		logger.warn('No text extracted from file', { filename: file.name, contentType });
+		return c.json({ error: 'No text could be extracted from file' }, 422);
 	}
 
-	// Validate content size (account for JSON serialization overhead with 20% safety margin)
-	const estimatedSize = Math.ceil(new TextEncoder().encode(text).length * 1.2);
-	if (estimatedSize > MAX_CONTENT_SIZE) {
-		logger.warn('Content exceeds size limit', {
-			size: estimatedSize,
-			limit: MAX_CONTENT_SIZE
+	const duplicate = await checkDuplicateDocument(c, logger, text, resolveDuplicatePolicy(c.env, onDuplicate.value));
+	if (duplicate.response) {
+		return duplicate.response;
+	}
+
+	const params: Params = {
+		text,
+		title: title || file.name.replace(/\.[^.]+$/, '') || 'Untitled Document',
+		contentType,
+		metadata: {
+			...metadata,
+			filename: file.name,
+			fileType: contentType,
+		},
+		chunking,
+		tenantId: c.get('tenantId'),
+		previousVersionId: duplicate.previousVersionId,
+	};
+
+	const instance = await c.env.RAG_WORKFLOW.create({ params });
+	// Embedding every chunk costs about as many tokens as the text
+	recordQuotaTokens(c, logger, estimateTokens(params.text));
+
+	logger.info('Workflow created successfully', { instanceId: instance.id, filename: file.name, contentType });
+	return c.json({
+		message: "Created document",
+		workflowId: instance.id,
+		statusUrl: `/ingestions/${instance.id}`,
+		filename: file.name,
+		contentType,
+		extractedLength: text.length,
+		previousVersionId: params.previousVersionId,
+	}, 201);
+})
+
+// Batch ingestion: NDJSON or a JSON array of documents, each validated like POST /notes
+app.post('/documents/batch', requireRole('writer'), rateLimit('ingest'), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /documents/batch' });
+
+	const onDuplicate = parseDuplicatePolicy(c.req.query('onDuplicate'));
+	if (onDuplicate.error) {
+		return c.json({ error: onDuplicate.error }, 400);
+	}
+
+	const body = await c.req.text();
+	if (body.length > MAX_CONTENT_SIZE) {
+		return c.json({
+			error: `Batch too large. Maximum size: ${MAX_CONTENT_SIZE} bytes (${Math.round(MAX_CONTENT_SIZE / 1024 / 1024)} MiB)`
+		}, 413);
+	}
+
+	const parsed = parseBatchBody(body, c.req.header('Content-Type'));
+	if (!parsed.items) {
+		return c.json({ error: parsed.error }, 400);
+	}
+
+	const batchId = crypto.randomUUID();
+	const tenantId = c.get('tenantId');
+	const docStore = new DocumentStore(c.env, logger, tenantId);
+	logger.info('Received batch ingestion', { batchId, items: parsed.items.length });
+
+	const records: IngestionBatchItemRecord[] = [];
+	const valid: Array<{ record: IngestionBatchItemRecord; input: Params; policy: DuplicatePolicy; contentHash: string }> = [];
+
+	for (const line of parsed.items) {
+		const record: IngestionBatchItemRecord = {
+			batch_id: batchId,
+			item_index: line.index,
+			status: 'rejected',
+			title: null,
+			workflow_id: null,
+			document_id: null,
+			previous_version_id: null,
+			error: null,
+		};
+		records.push(record);
+
+		const item = line.value as Record<string, unknown> | undefined;
+		if (line.error || typeof item !== 'object' || item === null || Array.isArray(item)) {
+			record.error = line.error ?? 'Item must be a JSON object';
+			continue;
+		}
+		record.title = typeof item.title === 'string' && item.title ? item.title : null;
+
+		const validation = validateDocumentBody(item, logger);
+		if (!validation.input) {
+			record.error = validation.error!;
+			continue;
+		}
+		const itemOnDuplicate = parseDuplicatePolicy(item.onDuplicate);
+		if (itemOnDuplicate.error) {
+			record.error = itemOnDuplicate.error;
+			continue;
+		}
+		const policy = resolveDuplicatePolicy(c.env, itemOnDuplicate.value ?? onDuplicate.value);
+		valid.push({ record, input: validation.input, policy, contentHash: await sha256Hex(validation.input.text) });
+	}
+
+	// One lookup for every item's hash rather than a query per item
+	const existingByHash = await docStore.findDuplicates(valid.map(entry => entry.contentHash));
+
+	const toStart: Array<{ record: IngestionBatchItemRecord; params: Params }> = [];
+	// Content hashes of items accepted so far, for duplicates within the batch
+	const batchHashes = new Map<string, IngestionBatchItemRecord>();
+
+	for (const { record, input, policy, contentHash } of valid) {
+		const { text, title, contentType, metadata, chunking } = input;
+
+		// An earlier item of the batch has no document yet, so it cannot be versioned
+		const earlier = batchHashes.get(contentHash);
+		if (earlier) {
+			if (policy === 'reject') {
+				record.error = `Duplicate of item ${earlier.item_index}`;
+			} else {
+				record.status = 'duplicate';
+				record.workflow_id = earlier.workflow_id;
+			}
+			continue;
+		}
+
+		const existing = existingByHash.get(contentHash);
+		if (existing && policy !== 'version') {
+			record.document_id = existing.id;
+			record.workflow_id = existing.workflow_id;
+			if (policy === 'reject') {
+				record.error = 'A document with the same content already exists';
+			} else {
+				record.status = 'duplicate';
+			}
+			continue;
+		}
+
+		record.status = 'accepted';
+		record.workflow_id = crypto.randomUUID();
+		record.previous_version_id = existing?.id ?? null;
+		batchHashes.set(contentHash, record);
+		toStart.push({
+			record,
+			params: {
+				text,
+				title: title || 'Untitled Document',
+				contentType: contentType || 'text/plain',
+				metadata: metadata || {},
+				chunking,
+				tenantId,
+				previousVersionId: existing?.id,
+			},
+		});
+	}
+
+	// Start accepted items in groups; a group that fails to start is rejected as a whole
+	const encoder = new TextEncoder();
+	for (const group of groupForWorkflows(toStart, entry => encoder.encode(entry.params.text).length)) {
+		try {
+			await c.env.RAG_WORKFLOW.createBatch(group.map(entry => ({ id: entry.record.workflow_id!, params: entry.params })));
+			// Embedding every chunk costs about as many tokens as the text
+			recordQuotaTokens(c, logger, group.reduce((total, entry) => total + estimateTokens(entry.params.text), 0));
+		} catch (error) {
+			logger.error('Failed to start batch workflows', error instanceof Error ? error : new Error(String(error)), {
+				batchId, items: group.length,
+			});
+			for (const { record } of group) {
+				Object.assign(record, { status: 'rejected', workflow_id: null, previous_version_id: null, error: 'Failed to start ingestion' });
+			}
+		}
+	}
+
+	try {
+		const batch = await createIngestionBatch(c.env, batchId, tenantId, records);
+		logger.info('Batch ingestion started', {
+			batchId, accepted: batch.accepted, rejected: batch.rejected, duplicates: batch.duplicates,
 		});
 		return c.json({
-			error: `Content too large. Maximum size: ${MAX_CONTENT_SIZE} bytes (${Math.round(MAX_CONTENT_SIZE / 1024 / 1024)} MiB)`
-		}, 400);
+			...toBatchProgress(batch, records.map(record => toBatchItem(record))),
+			statusUrl: `/documents/batch/${batchId}`,
+		}, 202);
+	} catch (error) {
+		// The workflows already started, so report their IDs even though the batch cannot be polled
+		logger.error('Failed to record batch', error instanceof Error ? error : new Error(String(error)), { batchId });
+		return c.json({ error: 'Failed to record batch', items: records.map(record => toBatchItem(record)) }, 500);
+	}
+});
+
+// Results of a batch ingestion with the current status of each accepted document
+app.get('/documents/batch/:batchId', requireRole('reader'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /documents/batch/:batchId' });
+	const { batchId } = c.req.param();
+
+	try {
+		const batch = await getIngestionBatch(c.env, c.get('tenantId'), batchId);
+		if (!batch) {
+			return c.json({ error: 'Batch not found' }, 404);
+		}
+		return c.json(batch);
+	} catch (error) {
+		logger.error('Failed to get batch', error instanceof Error ? error : new Error(String(error)), { batchId });
+		return c.json({ error: 'Failed to get batch' }, 500);
+	}
+});
+
+// Ingestion progress: RAG_WORKFLOW instance status combined with the document's chunk progress
+app.get('/ingestions/:workflowId', requireRole('reader'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /ingestions/:workflowId' });
+	const { workflowId } = c.req.param();
+
+	let instanceStatus: InstanceStatus;
+	try {
+		const instance = await c.env.RAG_WORKFLOW.get(workflowId);
+		instanceStatus = await instance.status();
+	} catch (error) {
+		logger.warn('Workflow instance not found', {
+			workflowId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return c.json({ error: 'Ingestion not found' }, 404);
+	}
+
+	try {
+		const docStore = new DocumentStore(c.env, logger, c.get('tenantId'));
+		const ingestion = await docStore.getIngestion(workflowId);
+
+		// Workflow instances are not tenant-scoped; hide ingestions whose document belongs to another tenant
+		if (!ingestion) {
+			const owner = await c.env.DATABASE.prepare('SELECT tenant_id FROM documents WHERE workflow_id = ?')
+				.bind(workflowId)
+				.first<{ tenant_id: string }>();
+			if (owner) {
+				logger.warn('Ingestion belongs to another tenant', { workflowId });
+				return c.json({ error: 'Ingestion not found' }, 404);
+			}
+		}
+
+		// The workflow can fail before the document exists or is marked failed
+		const workflowFailed = instanceStatus.status === 'errored' || instanceStatus.status === 'terminated';
+		const status: DocumentStatus = ingestion && (ingestion.status === 'ready' || !workflowFailed)
+			? ingestion.status
+			: workflowFailed ? 'failed' : 'pending';
+
+		const progress: IngestionProgress = {
+			workflowId,
+			workflowStatus: instanceStatus.status,
+			documentId: ingestion?.id ?? null,
+			status,
+			chunks: {
+				total: ingestion?.chunk_count ?? 0,
+				stored: ingestion?.stored_chunks ?? 0,
+			},
+		};
+		const error = ingestion?.error || instanceStatus.error;
+		if (status === 'failed' && error) {
+			progress.error = error;
+		}
+
+		logger.info('Ingestion progress retrieved', { workflowId, status, workflowStatus: instanceStatus.status });
+		return c.json(progress);
+	} catch (error) {
+		logger.error('Failed to get ingestion progress', error instanceof Error ? error : new Error(String(error)), { workflowId });
+		return c.json({ error: 'Failed to get ingestion progress' }, 500);
+	}
+});
+
+/**
+ * Status of the workflow instance running an embedding job, or null if it is not known
+ */
+async function getEmbeddingJobWorkflowStatus(env: Env, job: EmbeddingJob): Promise<InstanceStatus | null> {
+	if (!job.workflow_id) return null;
+	try {
+		const instance = await env.REEMBED_WORKFLOW.get(job.workflow_id);
+		return await instance.status();
+	} catch {
+		return null;
+	}
+}
+
+const ACTIVE_WORKFLOW_STATUSES: InstanceStatus['status'][] = ['queued', 'running', 'paused', 'waiting', 'waitingForPause'];
+
+const EMBEDDING_JOB_MODES: EmbeddingJobMode[] = ['reembed', 'tenant-metadata'];
+
+// Start re-embedding every ready document of every tenant with a new embedding model (defaults to EMBEDDING_MODEL),
+// or with mode "tenant-metadata" rewrite the default tenant's vector metadata without re-embedding.
+// The embedding model is shared by all tenants, so only ADMIN_API_KEY may start, inspect or resume jobs.
+app.post('/embeddings/reembed', requireDeploymentAdmin(), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /embeddings/reembed' });
+
+	let body: { model?: unknown; dimensions?: unknown; mode?: unknown } = {};
+	const rawBody = await c.req.text();
+	if (rawBody.trim()) {
+		try {
+			body = JSON.parse(rawBody);
+		} catch {
+			return c.json({ error: 'Invalid JSON in request body' }, 400);
+		}
+	}
+	if (body.model !== undefined && (typeof body.model !== 'string' || !body.model.trim())) {
+		return c.json({ error: 'model must be a non-empty string' }, 400);
+	}
+	if (body.dimensions !== undefined && !(Number.isInteger(body.dimensions) && (body.dimensions as number) > 0)) {
+		return c.json({ error: 'dimensions must be a positive integer' }, 400);
+	}
+	if (body.mode !== undefined && !EMBEDDING_JOB_MODES.includes(body.mode as EmbeddingJobMode)) {
+		return c.json({ error: `mode must be one of: ${EMBEDDING_JOB_MODES.join(', ')}` }, 400);
+	}
+	const mode = (body.mode as EmbeddingJobMode | undefined) ?? 'reembed';
+
+	let embeddingModel: EmbeddingModel;
+	try {
+		embeddingModel = resolveEmbeddingModel(c.env, (body.model as string | undefined)?.trim(), body.dimensions as number | undefined);
+	} catch (error) {
+		return c.json({ error: error instanceof Error ? error.message : String(error) }, 400);
+	}
+
+	try {
+		// Only one job at a time; a job whose workflow was terminated no longer counts
+		const running = await findRunningEmbeddingJob(c.env);
+		if (running) {
+			const workflowStatus = await getEmbeddingJobWorkflowStatus(c.env, running);
+			if (!workflowStatus || ACTIVE_WORKFLOW_STATUSES.includes(workflowStatus.status)) {
+				return c.json({ error: 'A re-embedding job is already running', jobId: running.id }, 409);
+			}
+			await finishEmbeddingJob(c.env, running.id, 'failed', `Workflow ${workflowStatus.status}`);
+		}
+
+		const job = await createEmbeddingJob(c.env, embeddingModel, mode);
+		const instance = await c.env.REEMBED_WORKFLOW.create({ params: { jobId: job.id } });
+		await assignEmbeddingJobWorkflow(c.env, job.id, instance.id);
+
+		logger.info('Re-embedding job started', { jobId: job.id, workflowId: instance.id, model: embeddingModel.name, mode });
+		return c.json({
+			message: 'Re-embedding started',
+			jobId: job.id,
+			workflowId: instance.id,
+			mode,
+			model: embeddingModel.name,
+			dimensions: embeddingModel.dimensions,
+			statusUrl: `/embeddings/reembed/${job.id}`,
+		}, 202);
+	} catch (error) {
+		logger.error('Failed to start re-embedding job', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to start re-embedding job' }, 500);
+	}
+});
+
+app.get('/embeddings/reembed/:jobId', requireDeploymentAdmin(), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /embeddings/reembed/:jobId' });
+	const { jobId } = c.req.param();
+
+	try {
+		const job = await getEmbeddingJob(c.env, jobId);
+		if (!job) {
+			return c.json({ error: 'Embedding job not found' }, 404);
+		}
+
+		// A terminated workflow never gets to mark its job failed
+		const workflowStatus = await getEmbeddingJobWorkflowStatus(c.env, job);
+		const workflowFailed = workflowStatus?.status === 'errored' || workflowStatus?.status === 'terminated';
+		const status = job.status === 'running' && workflowFailed ? 'failed' : job.status;
+
+		const progress: EmbeddingJobProgress = {
+			jobId: job.id,
+			workflowId: job.workflow_id,
+			workflowStatus: workflowStatus?.status ?? null,
+			status,
+			mode: job.mode ?? 'reembed',
+			model: job.model,
+			dimensions: job.dimensions,
+			documents: { total: job.documents_total, done: job.documents_done },
+			notes: { done: job.notes_done },
+		};
+		const error = job.error || workflowStatus?.error;
+		if (status === 'failed' && error) {
+			progress.error = error;
+		}
+
+		return c.json(progress);
+	} catch (error) {
+		logger.error('Failed to get re-embedding progress', error instanceof Error ? error : new Error(String(error)), { jobId });
+		return c.json({ error: 'Failed to get re-embedding progress' }, 500);
+	}
+});
+
+// Resume a failed job from its cursor with a new workflow instance
+app.post('/embeddings/reembed/:jobId/resume', requireDeploymentAdmin(), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /embeddings/reembed/:jobId/resume' });
+	const { jobId } = c.req.param();
+
+	try {
+		const job = await getEmbeddingJob(c.env, jobId);
+		if (!job) {
+			return c.json({ error: 'Embedding job not found' }, 404);
+		}
+		if (job.status === 'completed') {
+			return c.json({ error: 'Embedding job already completed' }, 409);
+		}
+
+		const workflowStatus = await getEmbeddingJobWorkflowStatus(c.env, job);
+		if (workflowStatus && ACTIVE_WORKFLOW_STATUSES.includes(workflowStatus.status)) {
+			return c.json({ error: 'Embedding job is still running' }, 409);
+		}
+
+		const instance = await c.env.REEMBED_WORKFLOW.create({ params: { jobId: job.id } });
+		await assignEmbeddingJobWorkflow(c.env, job.id, instance.id);
+
+		logger.info('Re-embedding job resumed', { jobId, workflowId: instance.id, cursor: job.cursor });
+		return c.json({
+			message: 'Re-embedding resumed',
+			jobId: job.id,
+			workflowId: instance.id,
+			statusUrl: `/embeddings/reembed/${job.id}`,
+		}, 202);
+	} catch (error) {
+		logger.error('Failed to resume re-embedding job', error instanceof Error ? error : new Error(String(error)), { jobId });
+		return c.json({ error: 'Failed to resume re-embedding job' }, 500);
+	}
+});
+
+// API key management: keys are created for, listed within and revoked from the caller's tenant
+app.post('/api-keys', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /api-keys' });
+
+	let body: { name?: unknown; role?: unknown; allowedOrigins?: unknown };
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.json({ error: 'Request body must be JSON' }, 400);
+	}
+
+	const name = typeof body.name === 'string' ? body.name.trim() : '';
+	if (!name || name.length > MAX_API_KEY_NAME_LENGTH) {
+		return c.json({ error: `name must be a non-empty string of at most ${MAX_API_KEY_NAME_LENGTH} characters` }, 400);
+	}
+
+	const role = parseApiKeyRole(body.role);
+	if (!role.value) {
+		return c.json({ error: role.error }, 400);
+	}
+
+	const allowedOrigins = parseAllowedOrigins(body.allowedOrigins);
+	if (allowedOrigins.value === undefined) {
+		return c.json({ error: allowedOrigins.error }, 400);
+	}
+
+	try {
+		const { apiKey, key } = await createApiKey(c.env, c.get('tenantId'), {
+			name,
+			role: role.value,
+			allowedOrigins: allowedOrigins.value,
+		});
+
+		logger.info('API key created', { keyId: apiKey.id, role: apiKey.role, tenantId: apiKey.tenantId });
+		// The key itself is only ever returned here
+		return c.json({ ...apiKey, key }, 201);
+	} catch (error) {
+		logger.error('Failed to create API key', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to create API key' }, 500);
+	}
+});
+
+app.get('/api-keys', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /api-keys' });
+
+	try {
+		const apiKeys = await listApiKeys(c.env, c.get('tenantId'));
+		return c.json({ apiKeys, count: apiKeys.length });
+	} catch (error) {
+		logger.error('Failed to list API keys', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to list API keys' }, 500);
+	}
+});
+
+app.delete('/api-keys/:id', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'DELETE /api-keys/:id' });
+	const { id } = c.req.param();
+
+	try {
+		const apiKey = await revokeApiKey(c.env, c.get('tenantId'), id);
+		if (!apiKey) {
+			return c.json({ error: 'API key not found' }, 404);
+		}
+
+		logger.info('API key revoked', { keyId: id });
+		return c.json(apiKey);
+	} catch (error) {
+		logger.error('Failed to revoke API key', error instanceof Error ? error : new Error(String(error)), { keyId: id });
+		return c.json({ error: 'Failed to revoke API key' }, 500);
+	}
+});
+
+app.get('/usage', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /usage' });
+
+	const range = parseUsageRange(c.req.query('from'), c.req.query('to'));
+	if (range.error) {
+		return c.json({ error: range.error }, 400);
+	}
+
+	try {
+		return c.json(await getUsageReport(c.env, c.get('tenantId'), range.value!));
+	} catch (error) {
+		logger.error('Failed to build usage report', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to build usage report' }, 500);
 	}
+});
 
-	// Validate title length
-	if (title && title.length > MAX_TITLE_LENGTH) {
-		logger.warn('Title exceeds length limit', {
-			length: title.length,
-			limit: MAX_TITLE_LENGTH
-		});
-		return c.json({
-			error: `Title too long. Maximum length: ${MAX_TITLE_LENGTH} characters`
-		}, 400);
-	}
+// Differences between a page of the tenant's KV documents, D1 rows and vectors
+app.get('/consistency', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /consistency' });
 
-	// Validate metadata is a proper object (not null, not array)
-	if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
-		logger.warn('Invalid metadata type', { type: typeof metadata, isArray: Array.isArray(metadata) });
-		return c.json({ error: "Metadata must be an object" }, 400);
+	const cursorParam = c.req.query('cursor');
+	const cursor = cursorParam ? decodeConsistencyCursor(cursorParam) : null;
+	if (cursorParam && !cursor) {
+		return c.json({ error: 'Invalid cursor' }, 400);
 	}
 
-	const params: Params = {
-		text,
-		title: title || 'Untitled Document',
-		contentType: contentType || 'text/plain',
-		metadata: metadata || {},
-	};
+	try {
+		return c.json(await checkConsistency(c.env, logger, c.get('tenantId'), cursor));
+	} catch (error) {
+		logger.error('Failed to check consistency', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to check consistency' }, 500);
+	}
+});
 
-	logger.info('Creating workflow instance', {
-		title: params.title,
-		contentSize: estimatedSize,
-		hasMetadata: !!Object.keys(params.metadata || {}).length
-	});
+// Check a page of the tenant's stores and repair the differences found
+app.post('/consistency/repair', requireRole('admin'), async (c) => {
+	const logger = createLogger({ endpoint: 'POST /consistency/repair' });
 
-	const instance = await c.env.RAG_WORKFLOW.create({ params });
+	const cursorParam = c.req.query('cursor');
+	const cursor = cursorParam ? decodeConsistencyCursor(cursorParam) : null;
+	if (cursorParam && !cursor) {
+		return c.json({ error: 'Invalid cursor' }, 400);
+	}
 
-	logger.info('Workflow created successfully', { instanceId: instance.id });
-	return c.json({ message: "Created document", workflowId: instance.id }, 201);
-})
+	try {
+		const report = await checkConsistency(c.env, logger, c.get('tenantId'), cursor);
+		report.repair = await repairConsistency(c.env, logger, report);
+		return c.json(report);
+	} catch (error) {
+		logger.error('Failed to repair consistency', error instanceof Error ? error : new Error(String(error)));
+		return c.json({ error: 'Failed to repair consistency' }, 500);
+	}
+});
 
 app.get('/ui', async (c) => {
 	return c.html(ui);
@@ -227,14 +1449,14 @@ app.get('/chat', async (c) => {
 })
 
 // Create new conversation
-app.post('/chat/conversations', async (c) => {
+app.post('/chat/conversations', requireRole('reader'), async (c) => {
 	const logger = createLogger({ endpoint: 'POST /chat/conversations' });
 	logger.info('Creating new conversation');
 
 	try {
 		const id = crypto.randomUUID();
-		const query = `INSERT INTO conversations (id) VALUES (?) RETURNING *`;
-		const conversation = await c.env.DATABASE.prepare(query).bind(id).first<Conversation>();
+		const query = `INSERT INTO conversations (id, tenant_id) VALUES (?, ?) RETURNING id, title, created_at`;
+		const conversation = await c.env.DATABASE.prepare(query).bind(id, c.get('tenantId')).first<Conversation>();
 
 		if (!conversation) {
 			logger.error('Failed to create conversation', new Error('Insert returned no result'));
@@ -250,26 +1472,152 @@ app.post('/chat/conversations', async (c) => {
 })
 
 // Get conversation history
-app.get('/chat/conversations/:id', async (c) => {
+app.get('/chat/conversations', requireRole('reader'), async (c) => {
+	const logger = createLogger({ endpoint: 'GET /chat/conversations' });
+
+	const limit = Number(c.req.query('limit') ?? 20);
+	const offset = Number(c.req.query('offset') ?? 0);
+	if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+		return c.text('limit must be an integer between 1 and 100', 400);
+	}
+	if (!Number.isInteger(offset) || offset < 0) {
+		return c.text('offset must be a non-negative integer', 400);
+	}
+
+	try {
+		const query = `SELECT conversations.id, conversations.title, conversations.created_at,
+				(SELECT COUNT(*) FROM messages WHERE messages.conversation_id = conversations.id) AS message_count,
+				(SELECT MAX(created_at) FROM messages WHERE messages.conversation_id = conversations.id) AS last_message_at
+			FROM conversations WHERE tenant_id = ? ORDER BY created_at DESC, id LIMIT ? OFFSET ?`;
+		const { results } = await c.env.DATABASE.prepare(query).bind(c.get('tenantId'), limit, offset).all<Conversation & { message_count: number; last_message_at: number | null }>();
+		const conversations = results || [];
+
+		logger.info('Conversations listed', { count: conversations.length, limit, offset });
+		return c.json({ conversations, count: conversations.length, limit, offset });
+	} catch (error) {
+		logger.error('Failed to list conversations', error instanceof Error ? error : new Error(String(error)));
+		return c.text('Failed to list conversations', 500);
+	}
+})
+
+app.patch('/chat/conversations/:id', requireRole('writer'), async (c) => {
+	const { id } = c.req.param();
+	const logger = createLogger({ endpoint: 'PATCH /chat/conversations/:id', conversationId: id });
+
+	let body: { title?: unknown };
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.text('Request body must be JSON', 400);
+	}
+
+	const title = typeof body.title === 'string' ? body.title.trim() : '';
+	if (!title) {
+		return c.text('Title must be a non-empty string', 400);
+	}
+	if (title.length > MAX_CONVERSATION_TITLE_LENGTH) {
+		return c.text(`Title exceeds maximum length of ${MAX_CONVERSATION_TITLE_LENGTH} characters`, 400);
+	}
+
+	try {
+		const conversation = await c.env.DATABASE.prepare('UPDATE conversations SET title = ? WHERE id = ? AND tenant_id = ? RETURNING id, title, created_at')
+			.bind(title, id, c.get('tenantId'))
+			.first<Conversation>();
+		if (!conversation) return c.text('Conversation not found', 404);
+
+		logger.info('Conversation renamed');
+		return c.json(conversation);
+	} catch (error) {
+		logger.error('Failed to rename conversation', error instanceof Error ? error : new Error(String(error)));
+		return c.text('Failed to rename conversation', 500);
+	}
+})
+
+app.delete('/chat/conversations/:id', requireRole('admin'), async (c) => {
+	const { id } = c.req.param();
+	const logger = createLogger({ endpoint: 'DELETE /chat/conversations/:id', conversationId: id });
+
+	try {
+		const conv = await c.env.DATABASE.prepare('SELECT id FROM conversations WHERE id = ? AND tenant_id = ?').bind(id, c.get('tenantId')).first();
+		if (!conv) return c.text('Conversation not found', 404);
+
+		// Delete children explicitly rather than relying on foreign key enforcement
+		const [citations, messages] = await c.env.DATABASE.batch([
+			c.env.DATABASE.prepare(
+				'DELETE FROM message_citations WHERE message_id IN (SELECT id FROM messages WHERE conversation_id = ?)'
+			).bind(id),
+			c.env.DATABASE.prepare('DELETE FROM messages WHERE conversation_id = ?').bind(id),
+			c.env.DATABASE.prepare('DELETE FROM conversations WHERE id = ?').bind(id),
+		]);
+
+		logger.info('Conversation deleted', { messages: messages.meta.changes, citations: citations.meta.changes });
+		return c.json({ message: 'Conversation deleted', conversationId: id, deletedMessages: messages.meta.changes });
+	} catch (error) {
+		logger.error('Failed to delete conversation', error instanceof Error ? error : new Error(String(error)));
+		return c.text('Failed to delete conversation', 500);
+	}
+})
+
+app.get('/chat/conversations/:id', requireRole('reader'), async (c) => {
 	const { id } = c.req.param();
 	const logger = createLogger({ endpoint: 'GET /chat/conversations/:id', conversationId: id });
 
+	const conv = await c.env.DATABASE.prepare('SELECT id FROM conversations WHERE id = ? AND tenant_id = ?').bind(id, c.get('tenantId')).first();
+	if (!conv) return c.text('Conversation not found', 404);
+
 	const query = `SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at ASC`;
 	const { results } = await c.env.DATABASE.prepare(query).bind(id).all<Message>();
 
+	const citationQuery = `SELECT message_citations.* FROM message_citations
+		JOIN messages ON messages.id = message_citations.message_id
+		WHERE messages.conversation_id = ? ORDER BY message_citations.start_offset ASC`;
+	const { results: citationRows } = await c.env.DATABASE.prepare(citationQuery).bind(id).all<MessageCitation>();
+
+	const { results: usageRows } = await c.env.DATABASE.prepare(
+		`SELECT * FROM usage_events WHERE conversation_id = ? AND message_id IS NOT NULL`
+	).bind(id).all<UsageEvent>();
+	const usageByMessage = new Map<string, MessageUsage>((usageRows || []).map(row => [row.message_id!, {
+		model: row.model,
+		inputTokens: row.input_tokens,
+		outputTokens: row.output_tokens,
+		estimated: row.estimated === 1,
+		latencyMs: row.latency_ms,
+		costUsd: row.cost_usd,
+	}]));
+	const citationsByMessage = new Map<string, Citation[]>();
+	for (const row of citationRows || []) {
+		const citations = citationsByMessage.get(row.message_id) ?? [];
+		citations.push({ noteId: row.note_id, documentId: row.document_id, start: row.start_offset, end: row.end_offset });
+		citationsByMessage.set(row.message_id, citations);
+	}
+
 	const messages: ChatMessage[] = results.map(msg => ({
 		role: msg.role,
 		content: msg.content,
-		sources: parseSourcesSafely(msg.sources, logger)
+		sources: parseSourcesSafely(msg.sources, logger),
+		citations: citationsByMessage.get(msg.id),
+		searchQuery: msg.search_query ?? undefined,
+		usage: usageByMessage.get(msg.id)
 	}));
 
 	return c.json(messages);
 })
 
 // Send message and get response
-app.post('/chat/conversations/:id/messages', async (c) => {
+app.post('/chat/conversations/:id/messages', requireRole('reader'), rateLimit('query'), async (c) => {
 	const { id: conversationId } = c.req.param();
-	const { message } = await c.req.json<{ message: string }>();
+	const body = await c.req.json<{
+		message: string;
+		stream?: boolean;
+		keywordWeight?: number;
+		filter?: unknown;
+		condenseQuestion?: boolean;
+		rerank?: boolean;
+		minSimilarity?: number;
+		maxScoreGap?: number;
+	}>();
+	const { message, stream } = body;
+	const logger = createLogger({ endpoint: 'POST /chat/conversations/:id/messages', conversationId });
 
 	// Input validation
 	const MAX_MESSAGE_LENGTH = 10000;
@@ -281,21 +1629,64 @@ app.post('/chat/conversations/:id/messages', async (c) => {
 		return c.text(`Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`, 400);
 	}
 
-	// Check if conversation exists
-	const conv = await c.env.DATABASE.prepare('SELECT id FROM conversations WHERE id = ?').bind(conversationId).first();
+	const keywordWeight = parseKeywordWeight(body.keywordWeight);
+	if (keywordWeight.error) {
+		return c.text(keywordWeight.error, 400);
+	}
+
+	const { filter, error: filterError } = body.filter === undefined ? {} : parseDocumentFilter(body.filter);
+	if (filterError) {
+		return c.text(filterError, 400);
+	}
+
+	if (body.condenseQuestion !== undefined && typeof body.condenseQuestion !== 'boolean') {
+		return c.text("condenseQuestion must be a boolean", 400);
+	}
+
+	const rerank = parseRerankOption(body.rerank);
+	if (rerank.error) {
+		return c.text(rerank.error, 400);
+	}
+
+	const minSimilarity = parseThreshold('minSimilarity', body.minSimilarity);
+	const maxScoreGap = parseThreshold('maxScoreGap', body.maxScoreGap);
+	if (minSimilarity.error || maxScoreGap.error) {
+		return c.text((minSimilarity.error || maxScoreGap.error)!, 400);
+	}
+
+	// Check if conversation exists for this tenant
+	const tenantId = c.get('tenantId');
+	const conv = await c.env.DATABASE.prepare('SELECT summary, summarized_count FROM conversations WHERE id = ? AND tenant_id = ?')
+		.bind(conversationId, tenantId)
+		.first<ConversationSummary>();
 	if (!conv) return c.text('Conversation not found', 404);
 
-	// Get conversation history for context (before inserting new message)
-	// Limit to last 10 messages to prevent unbounded token usage
-	const historyQuery = `SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at DESC LIMIT 10`;
-	const { results: recentHistory } = await c.env.DATABASE.prepare(historyQuery).bind(conversationId).all<Message>();
-	const history = (recentHistory || []).reverse();
+	// Get the messages not yet covered by the rolling summary (before inserting new message)
+	const historyConfig = resolveHistoryConfig(c.env);
+	const history = await loadUnsummarizedMessages(c.env, conversationId, conv.summarized_count);
+	const isFirstExchange = history.length === 0 && conv.summarized_count === 0;
+
+	// Rewrite a follow-up into a standalone query so retrieval does not depend on earlier messages
+	let searchQuery = message;
+	if (resolveCondenseQuestions(c.env, body.condenseQuestion)) {
+		try {
+			searchQuery = await condenseQuestion(
+				c.env, conv.summary, selectRecentMessages(history, historyConfig), message, meterCompletion(c, logger, 'condense', conversationId)
+			);
+			logger.info('Question condensed', { condensed: searchQuery !== message, searchQuery });
+		} catch (error) {
+			// Condensation only improves retrieval; search with the message as is
+			logger.warn('Question condensation failed, searching with the original message', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
 
-	// Save user message
+	// Save user message with the query actually searched
 	const userMessageId = crypto.randomUUID();
 	const insertResult = await c.env.DATABASE.prepare(
-		`INSERT INTO messages (id, conversation_id, role, content, sources) VALUES (?, ?, ?, ?, ?) RETURNING *`
-	).bind(userMessageId, conversationId, 'user', message, null).first<Message>();
+		`INSERT INTO messages (id, conversation_id, role, content, sources, search_query) VALUES (?, ?, ?, ?, ?, ?) RETURNING *`
+	).bind(userMessageId, conversationId, 'user', message, null, searchQuery !== message ? searchQuery : null).first<Message>();
 
 	if (!insertResult) {
 		return c.text('Failed to save user message', 500);
@@ -304,379 +1695,1078 @@ app.post('/chat/conversations/:id/messages', async (c) => {
 	// Use the actual inserted message with correct timestamp
 	history.push(insertResult);
 
-	// Generate embeddings for the user's message
-	const embeddings = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', { text: [message] }) as { data: number[][] };
-	const vectors = embeddings.data[0];
-
-	// Query vector index for relevant notes
-	const vectorQuery = await c.env.VECTOR_INDEX.query(vectors, { topK: 3 });
-	const matchingIds = vectorQuery.matches.map(m => m.id).filter(Boolean);
-
-	let retrievedNotes: Note[] = [];
-	if (matchingIds.length > 0) {
-		const placeholders = matchingIds.map(() => '?').join(',');
-		const query = `SELECT * FROM notes WHERE id IN (${placeholders})`;
-		const { results } = await c.env.DATABASE.prepare(query).bind(...matchingIds).all<Note>();
-		retrievedNotes = results || [];
-	}
+	// Retrieve relevant notes (hybrid keyword + vector search)
+	const retrievedNotes = await retrieveNotes(c.env, logger, searchQuery, {
+		tenantId,
+		onQueryEmbedded: meterQueryEmbedding(c, logger, conversationId),
+		keywordWeight: keywordWeight.value,
+		filter,
+		rerank: rerank.value,
+		minSimilarity: minSimilarity.value,
+		maxScoreGap: maxScoreGap.value,
+	});
 
 	// Build context from retrieved notes
-	const contextMessage = retrievedNotes.length
-		? `Retrieved Documents:\n${retrievedNotes.map((note, idx) => `[${idx + 1}] (ID: ${note.id})\n${note.text}`).join("\n\n")}`
-		: "No relevant documents found in the knowledge base.";
+	const contextMessage = `Retrieved Documents:\n${retrievedNotes.map((note, idx) => `[${idx + 1}] (ID: ${note.id})\n${note.text}`).join("\n\n")}`;
 
 	// System prompt for document-constrained responses
 	const systemPrompt = `You are a helpful AI assistant that answers questions based ONLY on the information provided in the retrieved documents.
 
 IMPORTANT RULES:
 1. You must ONLY use information from the "Retrieved Documents" section provided below
-2. If no relevant documents are found, or if the documents don't contain information to answer the question, you MUST say "I don't have enough information in the knowledge base to answer that question."
-3. When you use information from a document, you MUST cite it by including the document ID in your response like this: [ID: <document-id>]
+2. If the documents don't contain information to answer the question, you MUST say "${NO_RELEVANT_DOCUMENTS_ANSWER}"
+3. When you use information from a document, you MUST cite it by including its ID exactly as shown in the list in your response like this: [ID: <id>]
 4. Do NOT use any external knowledge or make assumptions beyond what's in the retrieved documents
 5. Be concise and factual in your responses
-
+${conv.summary ? `
+Summary of the earlier conversation (for context only, not a source to cite):
+${conv.summary}
+` : ''}
 ${contextMessage}`;
 
-	let modelUsed: string = "";
-	let assistantMessage: string = "";
-
-	// Build conversation messages for the AI
-	const conversationMessages = history.map(msg => ({
+	// Build conversation messages for the AI: the recent messages within the history window and token budget
+	const conversationMessages = selectRecentMessages(history, historyConfig).map(msg => ({
 		role: msg.role as 'user' | 'assistant',
 		content: msg.content
 	}));
 
-	if (c.env.ANTHROPIC_API_KEY) {
-		const anthropic = new Anthropic({
-			apiKey: c.env.ANTHROPIC_API_KEY
-		});
+	const sourceList = retrievedNotes.map(n => ({ id: n.id, text: n.text }));
+	const sources = sourceList.length > 0 ? JSON.stringify(sourceList) : null;
 
-		const model = "claude-3-5-sonnet-latest";
-		modelUsed = model;
+	const llm = createLLMProvider(c.env);
+	const request: CompletionRequest = { system: systemPrompt, messages: conversationMessages };
 
-		const response = await anthropic.messages.create({
-			max_tokens: 2048,
-			model,
-			messages: conversationMessages,
-			system: systemPrompt
-		});
+	// Without relevant documents the answer is known, so the model is not given noise to answer from
+	const answerWithoutModel = retrievedNotes.length === 0;
+	if (answerWithoutModel) {
+		logger.info('No relevant documents retrieved, answering without the model');
+	}
 
-		assistantMessage = (response.content as TextBlock[]).map(content => content.text).join("\n");
-	} else {
-		const model = "@cf/meta/llama-3.1-8b-instruct" as any;
-		modelUsed = model;
-
-		const response = await c.env.AI.run(
-			model,
-			{
-				messages: [
-					{ role: 'system', content: systemPrompt },
-					...conversationMessages
-				]
+	if (stream) {
+		const completion = answerWithoutModel ? null : llm.stream(request);
+
+		if (completion) {
+			c.header('x-model-used', completion.model);
+		}
+		return streamSSE(c, async (sse) => {
+			// Sources first so the client can render them while tokens arrive
+			await sse.writeSSE({ event: 'sources', data: JSON.stringify(sourceList) });
+
+			let assistantMessage = '';
+			let latencyMs = 0;
+			if (completion) {
+				const started = Date.now();
+				for await (const token of completion.tokens) {
+					assistantMessage += token;
+					await sse.writeSSE({ event: 'token', data: JSON.stringify({ text: token }) });
+				}
+				latencyMs = Date.now() - started;
+				logger.info('Generated response', { provider: completion.provider, model: completion.model, usage: completion.usage });
+				recordQuotaTokens(c, logger, completionTokenCount(request, assistantMessage, completion.usage));
+			} else {
+				assistantMessage = NO_RELEVANT_DOCUMENTS_ANSWER;
+				await sse.writeSSE({ event: 'token', data: JSON.stringify({ text: assistantMessage }) });
+			}
+
+			// Persist only once the full answer has been generated and its citations checked
+			const saved = await saveAssistantMessage(
+				c.env, logger, conversationId, assistantMessage || "Unable to generate response", sources, retrievedNotes
+			);
+
+			if (!saved.message) {
+				await sse.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to save assistant message' }) });
+				return;
+			}
+			if (completion) {
+				recordCompletionUsage(c, logger, 'chat', completion, request, assistantMessage, latencyMs, {
+					conversationId, messageId: saved.message.id,
+				});
+			}
+
+			if (isFirstExchange) {
+				c.executionCtx.waitUntil(
+					titleConversation(c.env, logger, conversationId, message, saved.content, meterCompletion(c, logger, 'title', conversationId))
+				);
 			}
-		) as AiTextGenerationOutput;
+			c.executionCtx.waitUntil(
+				updateConversationSummary(c.env, logger, conversationId, historyConfig, meterCompletion(c, logger, 'summary', conversationId))
+			);
+
+			// The validated content replaces the streamed text, which may contain invalid citations
+			await sse.writeSSE({
+				event: 'citations',
+				data: JSON.stringify({ content: saved.content, citations: saved.citations, invalidCitations: saved.invalidCitations }),
+			});
+			await sse.writeSSE({
+				event: 'done',
+				data: JSON.stringify({
+					messageId: saved.message.id,
+					modelUsed: completion?.model ?? null,
+					usage: completion?.usage ?? null,
+					searchQuery: insertResult.search_query ?? undefined,
+				}),
+			});
+		}, async (error, sse) => {
+			logger.error('Streaming chat response failed', error);
+			await sse.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to generate response' }) });
+		});
+	}
 
-		assistantMessage = response.response || "Unable to generate response";
+	const started = Date.now();
+	const completion = answerWithoutModel ? null : await llm.complete(request);
+	const latencyMs = Date.now() - started;
+	if (completion) {
+		logger.info('Generated response', { provider: completion.provider, model: completion.model, usage: completion.usage });
+		recordQuotaTokens(c, logger, completionTokenCount(request, completion.text, completion.usage));
 	}
 
-	// Save assistant message with sources
-	const assistantMessageId = crypto.randomUUID();
-	const sources = retrievedNotes.length > 0 ? JSON.stringify(retrievedNotes.map(n => ({ id: n.id, text: n.text }))) : null;
+	const assistantMessage = completion ? completion.text || "Unable to generate response" : NO_RELEVANT_DOCUMENTS_ANSWER;
 
-	const assistantInsertResult = await c.env.DATABASE.prepare(
-		`INSERT INTO messages (id, conversation_id, role, content, sources) VALUES (?, ?, ?, ?, ?) RETURNING *`
-	).bind(assistantMessageId, conversationId, 'assistant', assistantMessage, sources).first<Message>();
+	// Save assistant message with sources and validated citations
+	const saved = await saveAssistantMessage(c.env, logger, conversationId, assistantMessage, sources, retrievedNotes);
 
-	if (!assistantInsertResult) {
+	if (!saved.message) {
 		return c.text('Failed to save assistant message', 500);
 	}
+	if (completion) {
+		recordCompletionUsage(c, logger, 'chat', completion, request, completion.text, latencyMs, {
+			conversationId, messageId: saved.message.id,
+		});
+	}
+
+	if (isFirstExchange) {
+		c.executionCtx.waitUntil(
+			titleConversation(c.env, logger, conversationId, message, saved.content, meterCompletion(c, logger, 'title', conversationId))
+		);
+	}
+	c.executionCtx.waitUntil(
+		updateConversationSummary(c.env, logger, conversationId, historyConfig, meterCompletion(c, logger, 'summary', conversationId))
+	);
 
-	// Return the assistant's response with sources
+	// Return the assistant's response with sources and citations
 	const responseData: ChatMessage = {
 		role: 'assistant',
-		content: assistantMessage,
-		sources: retrievedNotes.length > 0 ? retrievedNotes.map(n => ({ id: n.id, text: n.text })) : undefined
+		content: saved.content,
+		sources: sourceList.length > 0 ? sourceList : undefined,
+		citations: saved.citations,
+		invalidCitations: saved.invalidCitations.length > 0 ? saved.invalidCitations : undefined,
+		searchQuery: insertResult.search_query ?? undefined
 	};
 
-	c.header('x-model-used', modelUsed);
+	if (completion) {
+		c.header('x-model-used', completion.model);
+	}
 	return c.json(responseData);
 })
 
-app.get('/', async (c) => {
+app.get('/', requireRole('reader'), rateLimit('query'), async (c) => {
 	const logger = createLogger({ endpoint: 'GET /' });
 	const question = c.req.query('text') || "What is the square root of 9?"
 
 	logger.info('Received query', { question });
 	logger.startTimer('query');
 
-	// Generate embeddings for the question
-	logger.debug('Generating embeddings for question');
-	const embeddings = await c.env.AI.run('@cf/baai/bge-base-en-v1.5', { text: [question] }) as { data: number[][] }
-	const vectors = embeddings.data[0]
-	logger.debug('Embeddings generated', { vectorDimensions: vectors.length });
-
-	// Query vector index for similar content
-	logger.debug('Querying vector index', { topK: 3 });
-	const vectorQuery = await c.env.VECTOR_INDEX.query(vectors, { topK: 3, returnMetadata: true });
-	logger.info('Vector query complete', { matchCount: vectorQuery.matches.length });
-
-	const docStore = new DocumentStore(c.env, logger);
-
-	// Retrieve notes and document metadata
-	let notes: string[] = []
-	let sources: Array<{ documentId: string; title: string; chunkText: string; similarity: number }> = []
+	const keywordWeight = parseKeywordWeight(c.req.query('keywordWeight'));
+	if (keywordWeight.error) {
+		return c.text(keywordWeight.error, 400);
+	}
 
-	if (vectorQuery.matches.length > 0) {
-		const noteIds = vectorQuery.matches.map(m => m.id);
-		logger.debug('Retrieving notes', { noteIds });
+	const rerank = parseRerankOption(c.req.query('rerank'));
+	if (rerank.error) {
+		return c.text(rerank.error, 400);
+	}
 
-		const noteRecords = await docStore.getNotesByIds(noteIds);
-		notes = noteRecords.map(note => note.text);
+	const minSimilarity = parseThreshold('minSimilarity', c.req.query('minSimilarity'));
+	const maxScoreGap = parseThreshold('maxScoreGap', c.req.query('maxScoreGap'));
+	if (minSimilarity.error || maxScoreGap.error) {
+		return c.text((minSimilarity.error || maxScoreGap.error)!, 400);
+	}
 
-		// Get document metadata for sources (batched query to avoid N+1 problem)
-		const documentIds = [...new Set(noteRecords.map(n => n.document_id))];
-		logger.debug('Retrieving document metadata', { documentIds, count: documentIds.length });
+	// Optional metadata filter, e.g. ?filter={"tags":["api"],"uploadedAfter":"2025-01-01"}
+	let filter: DocumentFilter | undefined;
+	const rawFilter = c.req.query('filter');
+	if (rawFilter) {
+		let parsedFilter: ParsedFilter;
+		try {
+			parsedFilter = parseDocumentFilter(JSON.parse(rawFilter));
+		} catch {
+			return c.text('filter must be a JSON object', 400);
+		}
+		if (parsedFilter.error) {
+			return c.text(parsedFilter.error, 400);
+		}
+		filter = parsedFilter.filter;
+	}
 
-		// Batch query for all unique document IDs
-		const placeholders = documentIds.map(() => '?').join(',');
-		const docResults = await c.env.DATABASE
-			.prepare(`SELECT id, title FROM documents WHERE id IN (${placeholders})`)
-			.bind(...documentIds)
-			.all<{ id: string; title: string }>();
+	// Retrieve relevant notes (hybrid keyword + vector search)
+	const retrievedNotes = await retrieveNotes(c.env, logger, question, {
+		tenantId: c.get('tenantId'),
+		onQueryEmbedded: meterQueryEmbedding(c, logger),
+		keywordWeight: keywordWeight.value,
+		filter,
+		rerank: rerank.value,
+		minSimilarity: minSimilarity.value,
+		maxScoreGap: maxScoreGap.value,
+	});
 
-		// Build document lookup map for O(1) access
-		const docMap = new Map(
-			(docResults.results || []).map(doc => [doc.id, doc])
-		);
-		logger.debug('Document metadata retrieved', { requested: documentIds.length, found: docMap.size });
-
-		// Build sources array using the lookup map (no database calls in loop)
-		for (const match of vectorQuery.matches) {
-			const note = noteRecords.find(n => n.id === match.id);
-			if (note) {
-				const docResult = docMap.get(note.document_id);
-				if (docResult) {
-					sources.push({
-						documentId: docResult.id,
-						title: docResult.title,
-						chunkText: note.text,
-						similarity: match.score,
-					});
-				}
-			}
+	// Nothing passed retrieval: answer directly instead of letting the model answer from noise
+	if (retrievedNotes.length === 0) {
+		logger.info('No matching context found, answering without the model');
+		logger.endTimer('query', { success: true, sourceCount: 0 });
+		c.header('x-source-count', '0')
+
+		if (c.req.query('stream') === 'true') {
+			return streamSSE(c, async (sse) => {
+				await sse.writeSSE({ event: 'sources', data: JSON.stringify([]) });
+				await sse.writeSSE({ event: 'token', data: JSON.stringify({ text: NO_RELEVANT_DOCUMENTS_ANSWER }) });
+				await sse.writeSSE({ event: 'done', data: JSON.stringify({ modelUsed: null, usage: null }) });
+			});
 		}
+		return c.text(NO_RELEVANT_DOCUMENTS_ANSWER)
+	}
 
-		logger.info('Retrieved context', { noteCount: notes.length, sourceCount: sources.length });
-	} else {
-		logger.info('No matching context found');
+	// Document metadata for the retrieved notes
+	const notes = retrievedNotes.map(note => note.text);
+	const sources: DocumentSource[] = []
+
+	// Get document metadata for sources (batched query to avoid N+1 problem)
+	const documentIds = [...new Set(retrievedNotes.map(n => n.document_id))];
+	logger.debug('Retrieving document metadata', { documentIds, count: documentIds.length });
+
+	// Batch query for all unique document IDs
+	const placeholders = documentIds.map(() => '?').join(',');
+	const docResults = await c.env.DATABASE
+		.prepare(`SELECT id, title FROM documents WHERE id IN (${placeholders}) AND tenant_id = ?`)
+		.bind(...documentIds, c.get('tenantId'))
+		.all<{ id: string; title: string }>();
+
+	// Build document lookup map for O(1) access
+	const docMap = new Map(
+		(docResults.results || []).map(doc => [doc.id, doc])
+	);
+	logger.debug('Document metadata retrieved', { requested: documentIds.length, found: docMap.size });
+
+	// Build sources array in retrieval order using the lookup map (no database calls in loop)
+	for (const note of retrievedNotes) {
+		const docResult = docMap.get(note.document_id);
+		if (docResult) {
+			sources.push({
+				documentId: docResult.id,
+				title: docResult.title,
+				chunkText: note.text,
+				similarity: note.similarity ?? 0,
+				score: note.score,
+				rerankScore: note.rerankScore,
+			});
+		}
 	}
 
-	const contextMessage = notes.length
-		? `Context:\n${notes.map(note => `- ${note}`).join("\n")}`
-		: ""
+	logger.info('Retrieved context', { noteCount: notes.length, sourceCount: sources.length });
+
+	const contextMessage = `Context:\n${notes.map(note => `- ${note}`).join("\n")}`
 
 	const systemPrompt = `When answering the question or responding, use the context provided, if it is provided and relevant.`
 
-	let modelUsed: string = ""
-	let response: AiTextGenerationOutput | Anthropic.Message
+	const llm = createLLMProvider(c.env);
+	const request: CompletionRequest = {
+		system: [systemPrompt, contextMessage].filter(Boolean).join("\n\n"),
+		messages: [{ role: 'user', content: question }],
+		maxTokens: 1024,
+	};
 
-	logger.debug('Generating AI response');
-	logger.startTimer('ai-generation');
+	if (c.req.query('stream') === 'true') {
+		const completion = llm.stream(request);
 
-	if (c.env.ANTHROPIC_API_KEY) {
-		const anthropic = new Anthropic({
-			apiKey: c.env.ANTHROPIC_API_KEY
-		})
+		c.header('x-model-used', completion.model)
+		c.header('x-source-count', sources.length.toString())
+		return streamSSE(c, async (sse) => {
+			await sse.writeSSE({ event: 'sources', data: JSON.stringify(sources) });
+
+			let answer = '';
+			const started = Date.now();
+			for await (const token of completion.tokens) {
+				answer += token;
+				await sse.writeSSE({ event: 'token', data: JSON.stringify({ text: token }) });
+			}
+			recordQuotaTokens(c, logger, completionTokenCount(request, answer, completion.usage));
+			recordCompletionUsage(c, logger, 'query', completion, request, answer, Date.now() - started);
+
+			logger.endTimer('query', {
+				success: true, provider: completion.provider, modelUsed: completion.model, usage: completion.usage, sourceCount: sources.length, stream: true
+			});
+			await sse.writeSSE({ event: 'done', data: JSON.stringify({ modelUsed: completion.model, usage: completion.usage }) });
+		}, async (error, sse) => {
+			logger.error('Streaming query response failed', error);
+			logger.endTimer('query', { success: false, stream: true });
+			await sse.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to generate response' }) });
+		});
+	}
 
-		const model = c.env.ANTHROPIC_MODEL || "claude-haiku-4-5-20251001"
-		modelUsed = model
-		logger.debug('Using Anthropic Claude', { model });
-
-		const message = await anthropic.messages.create({
-			max_tokens: 1024,
-			model,
-			messages: [
-				{ role: 'user', content: question }
-			],
-			system: [systemPrompt, notes ?? contextMessage].join(" ")
-		})
+	logger.debug('Generating AI response', { provider: llm.name });
+	logger.startTimer('ai-generation');
 
-		response = {
-			response: (message.content as TextBlock[]).map(content => content.text).join("\n")
-		}
-	} else {
-		const model = "@cf/meta/llama-3.1-8b-instruct" as any
-		modelUsed = model
-		logger.debug('Using Workers AI', { model });
-
-		response = await c.env.AI.run(
-			model,
-			{
-				messages: [
-					...(notes.length ? [{ role: 'system', content: contextMessage }] : []),
-					{ role: 'system', content: systemPrompt },
-					{ role: 'user', content: question }
-				]
-			}
-		) as AiTextGenerationOutput
+	let completion: CompletionResult
+	const started = Date.now();
+	try {
+		completion = await llm.complete(request)
+	} catch (error) {
+		logger.error('Failed to generate response', error instanceof Error ? error : new Error(String(error)));
+		logger.endTimer('query', { success: false });
+		return c.text("We were unable to generate output", 500)
 	}
 
 	logger.endTimer('ai-generation');
+	recordQuotaTokens(c, logger, completionTokenCount(request, completion.text, completion.usage));
+	recordCompletionUsage(c, logger, 'query', completion, request, completion.text, Date.now() - started);
 
-	if (response) {
-		c.header('x-model-used', modelUsed)
-		c.header('x-source-count', sources.length.toString())
-
-		logger.endTimer('query', { success: true, modelUsed, sourceCount: sources.length });
+	c.header('x-model-used', completion.model)
+	c.header('x-source-count', sources.length.toString())
 
-		// Extract response text with type safety
-		const responseText = typeof response === 'object' && response !== null && 'response' in response && typeof response.response === 'string'
-			? response.response
-			: '';
-		if (sources.length > 0) {
-			c.header('x-sources', JSON.stringify(sources));
-		}
+	logger.endTimer('query', {
+		success: true, provider: completion.provider, modelUsed: completion.model, usage: completion.usage, sourceCount: sources.length
+	});
 
-		return c.text(responseText)
-	} else {
-		logger.error('Failed to generate response', new Error('No response from AI'));
-		logger.endTimer('query', { success: false });
-		return c.text("We were unable to generate output", 500)
+	if (sources.length > 0) {
+		c.header('x-sources', JSON.stringify(sources));
 	}
+
+	return c.text(completion.text)
 })
 
+/**
+ * Split document text into chunks with the document's chunking strategy
+ */
+async function splitDocumentText(text: string, chunking: ChunkingConfig, logger: Logger): Promise<string[]> {
+	logger.info('Starting text splitting', { ...chunking });
+	const chunks = await splitText(text, chunking);
+	logger.info('Text splitting complete', { chunkCount: chunks.length });
+	return chunks;
+}
+
+/**
+ * Metadata stored with a note's vector
+ */
+function buildVectorMetadata(
+	tenantId: string,
+	documentId: string,
+	noteId: string,
+	chunkIndex: number,
+	embeddingModel: EmbeddingModel,
+	filterFields: FilterableVectorFields
+): VectorMetadata {
+	return {
+		document_id: documentId,
+		note_id: noteId,
+		chunk_index: chunkIndex,
+		embedding_model: embeddingModel.name,
+		embedding_dimensions: embeddingModel.dimensions,
+		tenant_id: tenantId,
+		...filterFields,
+	};
+}
+
+/**
+ * Create the note records, embeddings and vectors for a batch of chunks as one
+ * durable step. Shared by RAGWorkflow and UpdateDocumentWorkflow. Note IDs come
+ * from chunkNoteId and every write is an upsert, so a retried step rewrites the
+ * same rows. Returns the indexes of the chunks the embedding model was called
+ * for; the others came from the cache.
+ */
+async function ingestChunks(
+	step: WorkflowStep,
+	env: Env,
+	logger: Logger,
+	batch: {
+		tenantId: string;
+		documentId: string;
+		chunks: Array<{ text: string; chunkIndex: number }>;
+		batchNumber: number;
+		totalBatches: number;
+		filterFields: FilterableVectorFields;
+		embeddingModel: EmbeddingModel;
+		revision?: string;
+	}
+): Promise<number[]> {
+	const { tenantId, documentId, chunks, batchNumber, totalBatches, filterFields, embeddingModel, revision } = batch;
+
+	return step.do(`ingest chunk batch ${batchNumber}/${totalBatches}`, async () => {
+		logger.debug('Processing chunk batch', { batchNumber, chunkIndexes: chunks.map(chunk => chunk.chunkIndex) });
+
+		const notes: NoteRecord[] = await Promise.all(chunks.map(async chunk => ({
+			id: await chunkNoteId(documentId, chunk.chunkIndex, revision),
+			document_id: documentId,
+			text: chunk.text,
+			chunk_index: chunk.chunkIndex,
+			content_hash: await sha256Hex(chunk.text),
+		})));
+		await new DocumentStore(env, logger, tenantId).createNotes(notes);
+
+		const texts = notes.map(note => note.text);
+		const { vectors, embeddedTexts } = await embedTextsCached(env, logger, embeddingModel, texts);
+
+		await env.VECTOR_INDEX.upsert(notes.map((note, index) => ({
+			id: note.id,
+			values: vectors[index],
+			namespace: vectorNamespace(tenantId),
+			metadata: buildVectorMetadata(
+				tenantId, documentId, note.id, note.chunk_index, embeddingModel, filterFields
+			) as Record<string, any>,
+		})));
+
+		logger.debug('Chunk batch ingested', { batchNumber, chunks: notes.length, embedded: embeddedTexts.length });
+
+		// The cache embeds each missing text once, for its first occurrence
+		return embeddedTexts.map(text => notes[texts.indexOf(text)].chunk_index);
+	});
+}
+
+/**
+ * Split chunks into the batches ingested by ingestChunks, one workflow step each
+ */
+function chunkBatches(texts: string[], chunkIndexes: number[], batchSize: number): Array<Array<{ text: string; chunkIndex: number }>> {
+	const batches: Array<Array<{ text: string; chunkIndex: number }>> = [];
+	for (let i = 0; i < chunkIndexes.length; i += batchSize) {
+		batches.push(chunkIndexes.slice(i, i + batchSize).map(chunkIndex => ({ text: texts[chunkIndex], chunkIndex })));
+	}
+	return batches;
+}
+
+/**
+ * Record the embedding calls made for a document's chunks. Workers AI reports no
+ * usage for embeddings, so tokens are estimated from the texts. Failures are
+ * logged rather than failing the ingestion.
+ */
+async function recordEmbeddingUsage(
+	env: Env,
+	logger: Logger,
+	usage: { id?: string; tenantId: string; documentId: string; embeddingModel: EmbeddingModel; texts: string[]; requestCount: number }
+): Promise<void> {
+	try {
+		await recordUsage(env, {
+			id: usage.id,
+			tenantId: usage.tenantId,
+			kind: 'embedding',
+			provider: 'workers-ai',
+			model: usage.embeddingModel.name,
+			documentId: usage.documentId,
+			requestCount: usage.requestCount,
+			inputTokens: embeddingTokens(usage.texts),
+			outputTokens: 0,
+			estimated: true,
+		});
+	} catch (error) {
+		logger.error('Failed to record embedding usage', error instanceof Error ? error : new Error(String(error)), {
+			documentId: usage.documentId,
+		});
+	}
+}
+
 export class RAGWorkflow extends WorkflowEntrypoint<Env, Params> {
 	async run(event: WorkflowEvent<Params>, step: WorkflowStep) {
 		const env = this.env
-		const { text, title = 'Untitled Document', contentType = 'text/plain', metadata = {} } = event.payload;
+		const {
+			text, title = 'Untitled Document', contentType = 'text/plain', metadata = {}, tenantId = DEFAULT_TENANT_ID, previousVersionId
+		} = event.payload;
+		const chunking = resolveChunkingConfig(env, event.payload.chunking);
 
-		const logger = createLogger({ workflow: 'RAGWorkflow', title });
+		const logger = createLogger({ workflow: 'RAGWorkflow', title, tenantId });
 		logger.info('Starting RAG workflow', {
 			textLength: text.length,
 			title,
-			contentType
+			contentType,
+			chunkingStrategy: chunking.strategy
 		});
 
 		// Step 1: Generate document ID and store full document
-		const documentId = await step.do('create document', async () => {
-			const docId = crypto.randomUUID();
+		const createdDocument = await step.do('create document', async () => {
+			const docId = await workflowDocumentId(event.instanceId);
 			logger.info('Generated document ID', { documentId: docId });
 
-			const docStore = new DocumentStore(env, logger);
+			const docStore = new DocumentStore(env, logger, tenantId);
 			const input: CreateDocumentInput = {
 				content: text,
 				title,
 				contentType,
-				metadata,
+				// Keep the strategy with the document so re-ingestion chunks it the same way
+				metadata: { ...metadata, chunking },
+				previousVersionId,
 			};
 
-			await docStore.createDocument(input, docId);
-			logger.info('Document created successfully', { documentId: docId });
-
-			return docId;
+			// A retry after the row was written keeps it, along with its upload time
+			const existing = await docStore.getDocumentRecord(docId);
+			const uploadedAt = existing
+				? existing.uploaded_at
+				: (await docStore.createDocument(input, docId, event.instanceId)).uploadedAt;
+			logger.info('Document created successfully', { documentId: docId, retried: !!existing });
+
+			// Resolved once so every chunk is embedded with the same model, and replays see the same batches
+			return {
+				documentId: docId,
+				uploadedAt,
+				embeddingModel: resolveEmbeddingModel(env),
+				batchSize: resolveEmbeddingBatchSize(env),
+			};
 		});
+		const { documentId, uploadedAt, embeddingModel, batchSize } = createdDocument;
+
+		// Filterable document fields copied into every vector for scoped retrieval
+		const filterFields = toVectorMetadataFields(metadata, contentType, uploadedAt);
+
+		try {
+			// Step 2: Split text into chunks unless the strategy is none
+			let texts: string[] = [text]
+			if (chunking.strategy !== 'none') {
+				texts = await step.do('split text', async () => {
+					await new DocumentStore(env, logger, tenantId).updateStatus(documentId, 'chunking');
+					return splitDocumentText(text, chunking, logger);
+				})
+			}
 
-		// Step 2: Split text into chunks if enabled
-		let texts: string[] = [text]
-		if (env.ENABLE_TEXT_SPLITTING === 'true') {
-			texts = await step.do('split text', async () => {
-				logger.info('Starting text splitting');
-				const splitter = new RecursiveCharacterTextSplitter({
-					// These can be customized to change the chunking size
-					//chunkSize: 1000,
-					//chunkOverlap: 200,
+			// Step 3: Record the chunk count up front so ingestion progress can be reported
+			await step.do('update chunk count', async () => {
+				logger.info('Updating document chunk count', { documentId, chunkCount: texts.length });
+
+				const docStore = new DocumentStore(env, logger, tenantId);
+				await docStore.updateChunkCount(documentId, texts.length);
+				await docStore.updateStatus(documentId, 'embedding');
+
+				logger.info('Chunk count updated', { documentId, chunkCount: texts.length });
+			});
+
+			logger.info('Processing chunks', { totalChunks: texts.length });
+
+			// Step 4: Process chunks in batches, keeping the texts the embedding model was called for
+			const batches = chunkBatches(texts, texts.map((_, chunkIndex) => chunkIndex), batchSize);
+			const embeddedTexts: string[] = [];
+			let embeddingRequests = 0;
+			for (const [index, chunks] of batches.entries()) {
+				const embedded = await ingestChunks(step, env, logger, {
+					tenantId,
+					documentId,
+					chunks,
+					batchNumber: index + 1,
+					totalBatches: batches.length,
+					filterFields,
+					embeddingModel,
 				});
-				const output = await splitter.createDocuments([text]);
-				const chunks = output.map(doc => doc.pageContent);
-				logger.info('Text splitting complete', { chunkCount: chunks.length });
-				return chunks;
-			})
+				embeddedTexts.push(...embedded.map(chunkIndex => texts[chunkIndex]));
+				if (embedded.length > 0) embeddingRequests++;
+			}
+
+			// Step 5: Make the document available to retrieval
+			await step.do('mark ready', async () => {
+				const docStore = new DocumentStore(env, logger, tenantId);
+				await docStore.updateEmbeddingModel(documentId, embeddingModel.name, embeddingModel.dimensions);
+				await docStore.updateStatus(documentId, 'ready');
+				// The new version replaces the previous one in retrieval
+				if (previousVersionId) {
+					await docStore.updateStatus(previousVersionId, 'superseded');
+				}
+				// One embedding call per batch with chunks missing from the cache; the instance ID keeps a retried step from recording twice
+				if (embeddedTexts.length > 0) {
+					await recordEmbeddingUsage(env, logger, {
+						id: `${event.instanceId}:embeddings`,
+						tenantId,
+						documentId,
+						embeddingModel,
+						texts: embeddedTexts,
+						requestCount: embeddingRequests,
+					});
+				}
+			});
+
+			logger.info('RAG workflow completed successfully', {
+				documentId,
+				chunkCount: texts.length
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error('RAG workflow failed', error instanceof Error ? error : new Error(message), { documentId });
+
+			// Leave the document out of retrieval and report why in GET /ingestions/:workflowId
+			await step.do('mark failed', async () => {
+				const docStore = new DocumentStore(env, logger, tenantId);
+				await docStore.updateStatus(documentId, 'failed', message);
+			});
+			throw error;
 		}
+	}
+}
 
-		logger.info('Processing chunks', { totalChunks: texts.length });
+/**
+ * Re-ingests an existing document in place: replaces its content, re-chunks it,
+ * embeds only chunks whose content hash changed and removes vectors for dropped chunks.
+ */
+export class UpdateDocumentWorkflow extends WorkflowEntrypoint<Env, UpdateParams> {
+	private static readonly VECTOR_COPY_BATCH = 20; // Vectors are returned with their values
 
-		// Step 3: Process each chunk
-		for (const index in texts) {
-			const chunkText = texts[index]
-			const chunkIndex = parseInt(index);
-			logger.debug('Processing chunk', { chunkIndex, textLength: chunkText.length });
+	async run(event: WorkflowEvent<UpdateParams>, step: WorkflowStep) {
+		const env = this.env
+		const { documentId, text, title, contentType, metadata, chunking: requestedChunking, tenantId = DEFAULT_TENANT_ID } = event.payload;
+		const update = {
+			content: text,
+			title,
+			contentType,
+			metadata: requestedChunking ? { ...metadata, chunking: requestedChunking } : metadata,
+		};
+
+		const logger = createLogger({ workflow: 'UpdateDocumentWorkflow', documentId, tenantId });
+		logger.info('Starting document update workflow', { textLength: text.length });
+
+		// The new revision's notes, known once the text is split, so a failed update can remove them,
+		// and the status a failed update puts the document back to
+		let texts: string[] | undefined;
+		let previousStatus: DocumentStatus | undefined;
+		try {
+			// Step 1: Record the document's status, in its own step so a retried start does not read 'updating'
+			previousStatus = await step.do('read status', async () => {
+				const existing = await new DocumentStore(env, logger, tenantId).getDocumentRecord(documentId);
+				if (!existing) {
+					throw new NonRetryableError(`Document ${documentId} not found`);
+				}
+				return existing.status;
+			});
+
+			// Take the document out of retrieval while its notes change, and resolve
+			// the filterable fields to copy into every vector, the chunking strategy to
+			// re-chunk with and the embedding models of the existing vectors and of new ones.
+			// The content is only written once the new notes are in place.
+			const { uploadedAt, filterFields, chunking, embeddingModel, previousEmbeddingModel, batchSize } = await step.do('start update', async () => {
+				const docStore = new DocumentStore(env, logger, tenantId);
+				const storedDoc = await docStore.prepareUpdate(documentId, update);
+				if (!storedDoc) {
+					throw new NonRetryableError(`Document ${documentId} not found`);
+				}
+				await docStore.updateStatus(documentId, 'updating');
+				return {
+					uploadedAt: storedDoc.uploadedAt,
+					filterFields: toVectorMetadataFields(storedDoc.metadata, storedDoc.contentType, storedDoc.uploadedAt),
+					chunking: resolveChunkingConfig(env, requestedChunking, storedDoc.metadata.chunking),
+					embeddingModel: resolveEmbeddingModel(env),
+					previousEmbeddingModel: await docStore.getEmbeddingModel(documentId),
+					batchSize: resolveEmbeddingBatchSize(env),
+				};
+			});
+
+			// Step 2: Re-chunk the new content with the stored (or requested) strategy
+			const chunkTexts = chunking.strategy === 'none'
+				? [text]
+				: await step.do('split text', () => splitDocumentText(text, chunking, logger));
+			texts = chunkTexts;
+
+			// Step 3: Diff new chunks against existing notes by content hash
+			const plan = await step.do('plan chunk changes', async () => {
+				const docStore = new DocumentStore(env, logger, tenantId);
+				const existingNotes = await docStore.listNotes(documentId);
+				const existing = await Promise.all(existingNotes.map(async note => ({
+					noteId: note.id,
+					chunkIndex: note.chunk_index,
+					hash: note.content_hash || await sha256Hex(note.text),
+				})));
+				const newHashes = await Promise.all(chunkTexts.map(chunk => sha256Hex(chunk)));
+
+				// Vectors from another model cannot be reused, so every chunk is re-embedded
+				const sameModel = previousEmbeddingModel?.name === embeddingModel.name
+					&& previousEmbeddingModel.dimensions === embeddingModel.dimensions;
+				const chunkPlan = sameModel
+					? planChunkUpdate(existing, newHashes)
+					: { reuse: [], create: chunkTexts.map((_, chunkIndex) => chunkIndex), remove: existing.map(chunk => chunk.noteId) };
+				logger.info('Chunk update planned', {
+					reused: chunkPlan.reuse.length,
+					created: chunkPlan.create.length,
+					removed: chunkPlan.remove.length,
+				});
+				return chunkPlan;
+			});
+
+			// Step 4: Copy the vectors of unchanged chunks to the new revision's notes without
+			// re-embedding. Chunks whose old vector is missing are embedded with the changed ones.
+			let missingVectors: number[] = [];
+			if (plan.reuse.length > 0) {
+				missingVectors = await step.do('copy unchanged chunks', async () => {
+					const docStore = new DocumentStore(env, logger, tenantId);
+					const missing: number[] = [];
+					for (let i = 0; i < plan.reuse.length; i += UpdateDocumentWorkflow.VECTOR_COPY_BATCH) {
+						const batch = plan.reuse.slice(i, i + UpdateDocumentWorkflow.VECTOR_COPY_BATCH);
+						const vectors = new Map((await env.VECTOR_INDEX.getByIds(batch.map(c => c.noteId))).map(v => [v.id, v]));
+
+						const copies = await Promise.all(batch.filter(c => vectors.has(c.noteId)).map(async c => ({
+							vector: vectors.get(c.noteId)!,
+							note: {
+								id: await chunkNoteId(documentId, c.chunkIndex, event.instanceId),
+								document_id: documentId,
+								text: chunkTexts[c.chunkIndex],
+								chunk_index: c.chunkIndex,
+								content_hash: await sha256Hex(chunkTexts[c.chunkIndex]),
+							},
+						})));
+						missing.push(...batch.filter(c => !vectors.has(c.noteId)).map(c => c.chunkIndex));
+						if (copies.length === 0) continue;
+
+						await docStore.createNotes(copies.map(copy => copy.note));
+						await env.VECTOR_INDEX.upsert(copies.map(({ vector, note }) => ({
+							id: note.id,
+							values: vector.values,
+							namespace: vectorNamespace(tenantId),
+							metadata: buildVectorMetadata(
+								tenantId, documentId, note.id, note.chunk_index, embeddingModel, filterFields
+							) as Record<string, any>,
+						})));
+					}
 
-			const noteRecord = await step.do(`create note record ${chunkIndex}/${texts.length}`, async () => {
-				const noteId = crypto.randomUUID()
-				logger.debug('Creating note record', { noteId, chunkIndex, documentId });
+					logger.info('Unchanged chunks copied', { count: plan.reuse.length, missingVectors: missing.length });
+					return missing;
+				});
+			}
 
-				const note: NoteRecord = {
-					id: noteId,
-					document_id: documentId,
-					text: chunkText,
-					chunk_index: chunkIndex,
-				};
+			// Step 5: Embed and index new or changed chunks in batches, as notes of the new revision
+			const toEmbed = [...plan.create, ...missingVectors].sort((a, b) => a - b);
+			const batches = chunkBatches(chunkTexts, toEmbed, batchSize);
+			const embeddedTexts: string[] = [];
+			let embeddingRequests = 0;
+			for (const [index, chunks] of batches.entries()) {
+				const embedded = await ingestChunks(step, env, logger, {
+					tenantId,
+					documentId,
+					chunks,
+					batchNumber: index + 1,
+					totalBatches: batches.length,
+					filterFields,
+					embeddingModel,
+					revision: event.instanceId,
+				});
+				embeddedTexts.push(...embedded.map(chunkIndex => chunkTexts[chunkIndex]));
+				if (embedded.length > 0) embeddingRequests++;
+			}
 
-				const docStore = new DocumentStore(env, logger);
-				await docStore.createNote(note);
-				logger.debug('Note record created', { noteId, chunkIndex });
+			// Step 6: With the new notes in place, write the content, drop the previous
+			// revision's notes and make the document available to retrieval again
+			await step.do('commit update', async () => {
+				const docStore = new DocumentStore(env, logger, tenantId);
+				await docStore.updateDocument(documentId, update, uploadedAt, event.instanceId);
+
+				const revisionIds = new Set(await documentNoteIds(documentId, chunkTexts.length, event.instanceId));
+				const previousNotes = (await docStore.listNotes(documentId)).filter(note => !revisionIds.has(note.id));
+				await docStore.deleteNotes(previousNotes.map(note => note.id));
+
+				await docStore.updateChunkCount(documentId, chunkTexts.length);
+				await docStore.updateEmbeddingModel(documentId, embeddingModel.name, embeddingModel.dimensions);
+				await docStore.updateStatus(documentId, 'ready');
+				if (embeddedTexts.length > 0) {
+					await recordEmbeddingUsage(env, logger, {
+						id: `${event.instanceId}:embeddings`,
+						tenantId,
+						documentId,
+						embeddingModel,
+						texts: embeddedTexts,
+						requestCount: embeddingRequests,
+					});
+				}
+			});
+
+			logger.info('Document update workflow completed successfully', {
+				documentId,
+				chunkCount: chunkTexts.length,
+				embedded: toEmbed.length,
+				removed: plan.remove.length,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error('Document update workflow failed', error instanceof Error ? error : new Error(message), { documentId });
+
+			// Remove what the update wrote so far, leaving the previous content and notes retrievable
+			// again, and report why in GET /documents/:id
+			const chunkCount = texts?.length ?? 0;
+			const restoredStatus = previousStatus;
+			if (restoredStatus) {
+				await step.do('roll back update', async () => {
+					const docStore = new DocumentStore(env, logger, tenantId);
+					await docStore.deleteNotes(await documentNoteIds(documentId, chunkCount, event.instanceId));
+					await docStore.recordUpdateFailure(documentId, restoredStatus, message);
+				});
+			}
+			throw error;
+		}
+	}
+}
 
-				return note;
-			})
+/**
+ * Re-embed a ready document's notes, or only the given ones, with a model, replacing
+ * their vectors in the document tenant's namespace. Returns the number of notes re-embedded.
+ */
+async function reembedDocument(
+	env: Env,
+	logger: Logger,
+	document: DocumentRecord,
+	embeddingModel: EmbeddingModel,
+	noteIds?: string[]
+): Promise<number> {
+	const docStore = new DocumentStore(env, logger, document.tenant_id);
+	const notes = (await docStore.listNotes(document.id)).filter(note => !noteIds || noteIds.includes(note.id));
+	const metadata = document.metadata ? JSON.parse(document.metadata) as Partial<DocumentMetadata> : {};
+	const filterFields = toVectorMetadataFields(metadata, document.content_type || 'text/plain', document.uploaded_at);
+
+	const embeddedTexts: string[] = [];
+	let requestCount = 0;
+	for (let i = 0; i < notes.length; i += MAX_EMBEDDING_BATCH) {
+		const batch = notes.slice(i, i + MAX_EMBEDDING_BATCH);
+		const { vectors, embeddedTexts: batchEmbedded } = await embedTextsCached(env, logger, embeddingModel, batch.map(note => note.text));
+		embeddedTexts.push(...batchEmbedded);
+		if (batchEmbedded.length > 0) requestCount++;
+		await env.VECTOR_INDEX.upsert(batch.map((note, index) => ({
+			id: note.id,
+			values: vectors[index],
+			namespace: vectorNamespace(document.tenant_id),
+			metadata: buildVectorMetadata(
+				document.tenant_id, document.id, note.id, note.chunk_index, embeddingModel, filterFields
+			) as Record<string, any>,
+		})));
+	}
 
-			const embedding = await step.do(`generate embedding ${chunkIndex}/${texts.length}`, async () => {
-				logger.debug('Generating embedding', { noteId: noteRecord.id, chunkIndex });
+	await docStore.updateEmbeddingModel(document.id, embeddingModel.name, embeddingModel.dimensions);
+	if (embeddedTexts.length > 0) {
+		await recordEmbeddingUsage(env, logger, {
+			tenantId: document.tenant_id,
+			documentId: document.id,
+			embeddingModel,
+			texts: embeddedTexts,
+			requestCount,
+		});
+	}
+	return notes.length;
+}
 
-				const embeddings = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
-					text: [chunkText]
-				}) as { data: number[][] }
+/**
+ * Re-upsert a document's vectors with their existing values and current metadata, so metadata
+ * indexes created after they were written cover them. Returns the number of vectors rewritten;
+ * notes without a vector are left to the consistency check.
+ */
+async function refreshVectorMetadata(env: Env, logger: Logger, document: DocumentRecord): Promise<number> {
+	const docStore = new DocumentStore(env, logger, document.tenant_id);
+	const notes = await docStore.listNotes(document.id);
+	const metadata = document.metadata ? JSON.parse(document.metadata) as Partial<DocumentMetadata> : {};
+	const filterFields = toVectorMetadataFields(metadata, document.content_type || 'text/plain', document.uploaded_at);
+	const embeddingModel = { name: document.embedding_model, dimensions: document.embedding_dimensions };
+
+	let refreshed = 0;
+	// Vectors are returned with their values, so they are read a few at a time
+	for (let i = 0; i < notes.length; i += 20) {
+		const batch = notes.slice(i, i + 20);
+		const vectors = new Map((await env.VECTOR_INDEX.getByIds(batch.map(note => note.id))).map(vector => [vector.id, vector]));
+		const found = batch.filter(note => vectors.has(note.id));
+		if (found.length === 0) continue;
+
+		await env.VECTOR_INDEX.upsert(found.map(note => ({
+			id: note.id,
+			values: vectors.get(note.id)!.values,
+			namespace: vectorNamespace(document.tenant_id),
+			metadata: buildVectorMetadata(
+				document.tenant_id, document.id, note.id, note.chunk_index, embeddingModel, filterFields
+			) as Record<string, any>,
+		})));
+		refreshed += found.length;
+	}
+	return refreshed;
+}
 
-				const values = embeddings.data[0]
-				if (!values) {
-					logger.error('Failed to generate embedding', undefined, { noteId: noteRecord.id, chunkIndex });
-					throw new Error("Failed to generate vector embedding")
-				}
+/**
+ * Repair what a consistency check found: delete KV-only documents, orphan notes and
+ * orphan vectors, recount chunks, and re-embed notes missing their vector with the
+ * document's model. Documents missing their KV content are left as they are. A
+ * failed repair is recorded and the others still run.
+ */
+async function repairConsistency(env: Env, logger: Logger, report: ConsistencyReport): Promise<ConsistencyRepairResult> {
+	const { tenantId } = report;
+	const docStore = new DocumentStore(env, logger, tenantId);
+	const result: ConsistencyRepairResult = {
+		deletedDocuments: 0,
+		deletedNotes: 0,
+		deletedVectors: 0,
+		recountedDocuments: 0,
+		reembeddedNotes: 0,
+		errors: [],
+	};
+	const attempt = async (what: string, repair: () => Promise<void>) => {
+		try {
+			await repair();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error('Consistency repair failed', error instanceof Error ? error : new Error(message), { tenantId, what });
+			result.errors.push(`${what}: ${message}`);
+		}
+	};
 
-				logger.debug('Embedding generated', {
-					noteId: noteRecord.id,
-					chunkIndex,
-					vectorDimensions: values.length
-				});
+	for (const documentId of report.kvOnlyDocuments) {
+		await attempt(`delete document ${documentId}`, async () => {
+			const deleted = await docStore.deleteDocument(documentId);
+			if (deleted.status === 'failed') throw new Error(deleted.error);
+			if (deleted.status === 'deleted') result.deletedDocuments++;
+		});
+	}
 
-				return values
-			})
+	if (report.orphanVectors.length > 0) {
+		await attempt('delete orphan vectors', async () => {
+			// Vectorize deletes at most 1000 IDs per call
+			for (let i = 0; i < report.orphanVectors.length; i += 1000) {
+				const ids = report.orphanVectors.slice(i, i + 1000);
+				await env.VECTOR_INDEX.deleteByIds(ids);
+				result.deletedVectors += ids.length;
+			}
+		});
+	}
 
-			await step.do(`insert vector ${chunkIndex}/${texts.length}`, async () => {
-				logger.debug('Inserting vector', { noteId: noteRecord.id, chunkIndex });
+	if (report.orphanNotes.length > 0) {
+		await attempt('delete orphan notes', async () => {
+			await docStore.deleteNotes(report.orphanNotes);
+			result.deletedNotes = report.orphanNotes.length;
+		});
+	}
 
-				const vectorMetadata: VectorMetadata = {
-					document_id: documentId,
-					note_id: noteRecord.id,
-					chunk_index: chunkIndex,
-				};
+	for (const { documentId, notes } of report.chunkCountMismatches) {
+		await attempt(`recount document ${documentId}`, async () => {
+			await docStore.updateChunkCount(documentId, notes);
+			result.recountedDocuments++;
+		});
+	}
 
-				await env.VECTOR_INDEX.upsert([
-					{
-						id: noteRecord.id,
-						values: embedding,
-						metadata: vectorMetadata as Record<string, any>,
-					}
-				]);
+	for (const { documentId, noteIds } of report.missingVectors) {
+		await attempt(`re-embed document ${documentId}`, async () => {
+			const document = await docStore.getDocumentRecord(documentId);
+			if (!document) return;
+			const embeddingModel = resolveEmbeddingModel(env, document.embedding_model, document.embedding_dimensions);
+			result.reembeddedNotes += await reembedDocument(env, logger, document, embeddingModel, noteIds);
+		});
+	}
 
-				logger.debug('Vector inserted', { noteId: noteRecord.id, chunkIndex });
-			})
+	logger.info('Consistency repair complete', { tenantId, ...result, errors: result.errors.length });
+	return result;
+}
+
+// Tenants checked per scheduled run, least recently checked first
+const CONSISTENCY_TENANTS_PER_RUN = 5;
+
+/**
+ * Scheduled consistency check: the next page of each of the least recently checked
+ * tenants, continuing from the cursor their previous run left. Repairs only when
+ * CONSISTENCY_REPAIR is "true"; otherwise the differences found are logged.
+ */
+async function runConsistencyChecks(env: Env): Promise<void> {
+	const logger = createLogger({ job: 'ConsistencyCheck' });
+	const repair = env.CONSISTENCY_REPAIR === 'true';
+
+	try {
+		for (const tenantId of await listConsistencyTenants(env, CONSISTENCY_TENANTS_PER_RUN)) {
+			const report = await checkConsistency(env, logger, tenantId, await getConsistencyCursor(env, tenantId));
+			if (hasInconsistencies(report)) {
+				if (repair) {
+					report.repair = await repairConsistency(env, logger, report);
+				}
+				logger.warn('Store inconsistencies found', summarizeConsistencyReport(report));
+			}
+			await saveConsistencyCursor(env, report);
 		}
+	} catch (error) {
+		logger.error('Consistency check failed', error instanceof Error ? error : new Error(String(error)));
+	}
+}
+
+/**
+ * Moves every ready document to a new embedding model. Documents are re-embedded
+ * in ID order, one batch per step; progress and the cursor are recorded on the
+ * embedding job so a failed job can be resumed by a new instance. A tenant-metadata
+ * job walks the default tenant's documents the same way, rewriting vector metadata.
+ */
+export class ReembedWorkflow extends WorkflowEntrypoint<Env, ReembedParams> {
+	private static readonly BATCH_SIZE = 20;
 
-		// Step 4: Update document chunk count
-		await step.do('update chunk count', async () => {
-			logger.info('Updating document chunk count', { documentId, chunkCount: texts.length });
+	async run(event: WorkflowEvent<ReembedParams>, step: WorkflowStep) {
+		const env = this.env
+		const { jobId } = event.payload;
 
-			const docStore = new DocumentStore(env, logger);
-			await docStore.updateChunkCount(documentId, texts.length);
+		const logger = createLogger({ workflow: 'ReembedWorkflow', jobId });
 
-			logger.info('Chunk count updated', { documentId, chunkCount: texts.length });
-		});
+		try {
+			// Step 1: Check that the index holds vectors of the target size and count the documents left
+			const job = await step.do('start job', async () => {
+				const storedJob = await getEmbeddingJob(env, jobId);
+				if (!storedJob) {
+					throw new NonRetryableError(`Embedding job ${jobId} not found`);
+				}
 
-		logger.info('RAG workflow completed successfully', {
-			documentId,
-			chunkCount: texts.length
-		});
+				// A tenant-metadata job keeps every vector's values, so only re-embedding needs a matching index
+				const mode = storedJob.mode ?? 'reembed';
+				const index = await env.VECTOR_INDEX.describe();
+				if (mode === 'reembed' && 'dimensions' in index.config && index.config.dimensions !== storedJob.dimensions) {
+					throw new NonRetryableError(
+						`Vector index ${index.name} has ${index.config.dimensions} dimensions but ${storedJob.model} produces ${storedJob.dimensions}. ` +
+						'Create an index with matching dimensions and bind it as VECTOR_INDEX.'
+					);
+				}
+
+				const docStore = new DocumentStore(env, logger);
+				const remaining = mode === 'tenant-metadata'
+					? await docStore.countReadyDocuments(storedJob.cursor)
+					: await docStore.countDocumentsToReembed(storedJob.model, storedJob.dimensions, storedJob.cursor);
+				await setEmbeddingJobTotal(env, jobId, storedJob.documents_done + remaining);
+
+				logger.info('Re-embedding started', { model: storedJob.model, mode, remaining, cursor: storedJob.cursor });
+				return {
+					embeddingModel: { name: storedJob.model, dimensions: storedJob.dimensions },
+					mode,
+					cursor: storedJob.cursor,
+				};
+			});
+			const { embeddingModel, mode } = job;
+
+			// Step 2: Re-embed documents in batches until none are left after the cursor
+			let cursor = job.cursor;
+			for (let batch = 1; ; batch++) {
+				const result = await step.do(`re-embed batch ${batch}`, async () => {
+					const docStore = new DocumentStore(env, logger);
+					const documents = mode === 'tenant-metadata'
+						? await docStore.listReadyDocuments(cursor, ReembedWorkflow.BATCH_SIZE)
+						: await docStore.listDocumentsToReembed(embeddingModel.name, embeddingModel.dimensions, cursor, ReembedWorkflow.BATCH_SIZE);
+
+					let notes = 0;
+					for (const document of documents) {
+						notes += mode === 'tenant-metadata'
+							? await refreshVectorMetadata(env, logger, document)
+							: await reembedDocument(env, logger, document, embeddingModel);
+					}
+
+					const nextCursor = documents.length > 0 ? documents[documents.length - 1].id : cursor;
+					await recordEmbeddingJobBatch(env, jobId, nextCursor, documents.length, notes);
+
+					logger.info('Batch re-embedded', { batch, documents: documents.length, notes });
+					return { cursor: nextCursor, documents: documents.length };
+				});
+
+				cursor = result.cursor;
+				if (result.documents < ReembedWorkflow.BATCH_SIZE) break;
+			}
+
+			// Step 3: Mark the job completed
+			await step.do('complete job', async () => {
+				await finishEmbeddingJob(env, jobId, 'completed');
+			});
+
+			logger.info('Re-embedding completed', { model: embeddingModel.name });
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.error('Re-embedding failed', error instanceof Error ? error : new Error(message));
+
+			// Keep the cursor so POST /embeddings/reembed/:jobId/resume can continue the job
+			await step.do('fail job', async () => {
+				await finishEmbeddingJob(env, jobId, 'failed', message);
+			});
+			throw error;
+		}
 	}
 }
 
-export default app
+export default {
+	fetch: app.fetch,
+	async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+		ctx.waitUntil(runConsistencyChecks(env));
+	},
+} satisfies ExportedHandler<Env>
@@ -12,6 +12,15 @@ export interface StoredDocument {
   metadata: DocumentMetadata;
 }
 
+/**
+ * A document listed from KV, with what its key metadata records
+ */
+export interface StoredDocumentEntry {
+  documentId: string;
+  uploadedAt?: number;
+  revision?: string; // Set once an update has rewritten the document's notes
+}
+
 /**
  * Extensible metadata for documents
  */
@@ -21,9 +30,34 @@ export interface DocumentMetadata {
   source?: string;
   description?: string;
   tags?: string[];
+  filename?: string; // Original filename for uploaded files
+  fileType?: string; // Detected type of the uploaded file (e.g. application/pdf)
+  chunking?: ChunkingConfig; // Strategy the document was chunked with, reused on re-ingestion
   [key: string]: unknown; // Allow custom fields
 }
 
+/**
+ * How a document's text is split into chunks before embedding
+ */
+export type ChunkingStrategy = 'recursive' | 'markdown' | 'sentence' | 'token' | 'none';
+
+/**
+ * Chunking configuration. Sizes are in characters, except for the token
+ * strategy where they count tokens. Ignored by the none strategy.
+ */
+export interface ChunkingConfig {
+  strategy: ChunkingStrategy;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+/**
+ * Ingestion status of a document; only ready documents are retrieved
+ */
+export type DocumentStatus = 'pending' | 'chunking' | 'embedding' | 'updating' | 'ready' | 'failed' | 'superseded'; // Superseded by a newer version
+
+export type DuplicatePolicy = 'reject' | 'return' | 'version';
+
 /**
  * Document record in D1 database
  */
@@ -34,6 +68,16 @@ export interface DocumentRecord {
   uploaded_at: number;
   chunk_count: number;
   metadata: string | null; // JSON string
+  status: DocumentStatus;
+  workflow_id: string | null; // RAGWorkflow instance that ingested the document
+  error: string | null; // Failure message when status is failed
+  update_error: string | null; // Why the last update failed; the previous content was kept
+  embedding_model: string; // Model that produced the document's vectors
+  embedding_dimensions: number;
+  tenant_id: string; // Tenant that owns the document (see utils/tenant)
+  content_hash: string | null; // SHA-256 of the content, NULL for documents created before hashing
+  version: number; // 1 for new documents
+  previous_version_id: string | null; // Version this document replaces
 }
 
 /**
@@ -44,6 +88,8 @@ export interface NoteRecord {
   document_id: string;
   text: string;
   chunk_index: number;
+  content_hash?: string | null; // SHA-256 of text, NULL for notes created before hashing
+  tenant_id?: string; // Copied from the document; set by DocumentStore.createNote
 }
 
 /**
@@ -53,6 +99,17 @@ export interface VectorMetadata {
   document_id: string;
   note_id: string;
   chunk_index: number;
+  // Absent on vectors created before models were recorded, which all came from @cf/baai/bge-base-en-v1.5
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  // Absent on vectors created before tenants, which all belong to the default tenant
+  tenant_id?: string;
+  // Filterable document fields copied at ingest (see toVectorMetadataFields)
+  tags?: string[];
+  author?: string;
+  source?: string;
+  content_type?: string;
+  uploaded_at?: number;
 }
 
 /**
@@ -63,6 +120,18 @@ export interface CreateDocumentInput {
   title: string;
   contentType?: string;
   metadata?: Partial<DocumentMetadata>;
+  previousVersionId?: string; // Create a new version of this document
+}
+
+/**
+ * Input for replacing the content of an existing document.
+ * Omitted fields keep their current values; metadata is merged.
+ */
+export interface UpdateDocumentInput {
+  content: string;
+  title?: string;
+  contentType?: string;
+  metadata?: Partial<DocumentMetadata>;
 }
 
 /**
@@ -73,11 +142,107 @@ export interface DocumentWithChunks {
   title: string;
   contentType: string | null;
   uploadedAt: number;
+  status: DocumentStatus;
+  version: number;
+  previousVersionId: string | null;
+  updateError: string | null; // Why the last update failed; the content shown is from before it
   content: string;
   chunks: NoteRecord[];
   metadata: DocumentMetadata;
 }
 
+/**
+ * Metadata filter used to select documents (bulk operations, scoped retrieval)
+ * All provided fields must match; `tags` matches if the document has any of the listed tags.
+ */
+export interface DocumentFilter {
+  tags?: string[];
+  author?: string;
+  source?: string;
+  contentType?: string;
+  uploadedAfter?: number; // Unix timestamp (ms), exclusive
+  uploadedBefore?: number; // Unix timestamp (ms), exclusive
+}
+
+/**
+ * Storage layers cleaned while deleting a document
+ */
+export interface DeletedLayers {
+  vectors: boolean;
+  kv: boolean;
+  d1: boolean;
+}
+
+/**
+ * Outcome of deleting a single document
+ */
+export interface DeleteDocumentResult {
+  documentId: string;
+  status: 'deleted' | 'not_found' | 'failed';
+  vectorCount: number;
+  cleaned: DeletedLayers;
+  error?: string;
+}
+
+/**
+ * Options for hybrid (keyword + vector) retrieval
+ */
+export interface RetrievalOptions {
+  /**
+   * Tenant whose documents are searched (defaults to the default tenant)
+   */
+  tenantId?: string;
+  topK?: number;
+  /**
+   * Weight of keyword (FTS5) ranking in rank fusion, from 0 (vector only) to 1 (keyword only)
+   */
+  keywordWeight?: number;
+  /**
+   * Restrict results to documents matching this filter
+   */
+  filter?: DocumentFilter;
+  /**
+   * Drop vector matches below this similarity (defaults to RETRIEVAL_MIN_SIMILARITY, otherwise none)
+   */
+  minSimilarity?: number;
+  /**
+   * Stop at the first similarity drop between consecutive vector matches larger than this
+   * (defaults to RETRIEVAL_MAX_SCORE_GAP, otherwise no adaptive cutoff)
+   */
+  maxScoreGap?: number;
+  /**
+   * Rescore a larger candidate set with a reranker and keep the best topK (defaults to ENABLE_RERANKING)
+   */
+  rerank?: boolean;
+  /**
+   * Reranker to use instead of the configured Workers AI model
+   */
+  reranker?: Reranker;
+  /**
+   * Called with the texts sent to the embedding model for the query, for usage accounting (not called on a cache hit)
+   */
+  onQueryEmbedded?: (model: string, texts: string[]) => void;
+}
+
+/**
+ * Scores documents against a query for second-stage reranking
+ */
+export interface Reranker {
+  readonly model: string;
+  /** Relevance scores aligned with `documents`, higher is more relevant */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Note chunk returned by retrieval, ranked by fused score
+ */
+export interface RetrievedNote extends NoteRecord {
+  score: number; // Reciprocal rank fusion score
+  similarity?: number; // Vector similarity, when matched by vector search
+  keywordRank?: number; // 1-based FTS5 rank, when matched by keyword search
+  rerankScore?: number; // Reranker relevance score, when reranking was applied
+}
+
 /**
  * Query result with source attribution
  */
@@ -95,6 +260,277 @@ export interface DocumentSource {
   title: string;
   chunkText: string;
   similarity: number;
+  score?: number; // Fused hybrid retrieval score
+  rerankScore?: number; // Reranker relevance score, when reranking was applied
+}
+
+/**
+ * A validated citation in an assistant message. start/end are character
+ * offsets of the [ID: ...] marker in the message content.
+ */
+export interface Citation {
+  noteId: string;
+  documentId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Progress of a document ingestion, reported by GET /ingestions/:workflowId
+ */
+export interface IngestionProgress {
+  workflowId: string;
+  workflowStatus: InstanceStatus['status'];
+  documentId: string | null; // Null until the workflow has created the document
+  status: DocumentStatus;
+  chunks: {
+    total: number; // Known once the text has been split
+    stored: number;
+  };
+  error?: string;
+}
+
+export type BatchItemStatus = 'accepted' | 'rejected' | 'duplicate';
+
+/**
+ * Batch ingestion record in D1 database, created by POST /documents/batch
+ */
+export interface IngestionBatchRecord {
+  id: string;
+  tenant_id: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+  created_at: number;
+}
+
+/**
+ * Outcome of one item of a batch ingestion in D1 database
+ */
+export interface IngestionBatchItemRecord {
+  batch_id: string;
+  item_index: number; // Position in the batch (array index, or non-empty line of NDJSON)
+  status: BatchItemStatus;
+  title: string | null;
+  workflow_id: string | null; // Ingesting workflow; for duplicates of an earlier item, that item's workflow
+  document_id: string | null; // Existing document for duplicates
+  previous_version_id: string | null; // Document a new version replaces
+  error: string | null; // Why the item was rejected
+}
+
+/**
+ * One item of a batch ingestion, with the status of its document once accepted
+ */
+export interface IngestionBatchItem {
+  index: number;
+  status: BatchItemStatus;
+  title: string | null;
+  workflowId: string | null;
+  documentId: string | null;
+  previousVersionId?: string;
+  documentStatus?: DocumentStatus; // Accepted items; pending until the workflow creates the document
+  error?: string;
+}
+
+/**
+ * Progress of a batch ingestion, reported by GET /documents/batch/:batchId
+ */
+export interface IngestionBatchProgress {
+  batchId: string;
+  createdAt: number;
+  total: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+  documents: Partial<Record<DocumentStatus, number>>; // Accepted items by document status
+  items: IngestionBatchItem[];
+}
+
+export type EmbeddingJobStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * What an embedding job does: re-embed documents with a new model, or rewrite the
+ * default tenant's vector metadata so its tenant_id index covers older vectors
+ */
+export type EmbeddingJobMode = 'reembed' | 'tenant-metadata';
+
+/**
+ * Re-embedding job record in D1 database. The job walks ready documents in ID
+ * order; cursor is the last document re-embedded, so a failed job can resume.
+ */
+export interface EmbeddingJob {
+  id: string;
+  model: string;
+  dimensions: number;
+  mode: EmbeddingJobMode;
+  status: EmbeddingJobStatus;
+  workflow_id: string | null; // ReembedWorkflow instance currently or last running the job
+  documents_total: number;
+  documents_done: number;
+  notes_done: number;
+  cursor: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Progress of a re-embedding job, reported by GET /embeddings/reembed/:jobId
+ */
+export interface EmbeddingJobProgress {
+  jobId: string;
+  workflowId: string | null;
+  workflowStatus: InstanceStatus['status'] | null; // Null if the workflow instance is no longer known
+  status: EmbeddingJobStatus;
+  mode: EmbeddingJobMode;
+  model: string;
+  dimensions: number;
+  documents: {
+    total: number;
+    done: number;
+  };
+  notes: {
+    done: number;
+  };
+  error?: string;
+}
+
+/**
+ * Differences between a tenant's KV documents, D1 rows and Vectorize vectors,
+ * reported by GET /consistency and the scheduled check
+ */
+export interface ConsistencyReport {
+  tenantId: string;
+  checkedAt: number;
+  documents: number; // D1 document rows checked in this page
+  notes: number; // D1 note rows checked in this page
+  kvOnlyDocuments: string[]; // KV content without a D1 row
+  missingContent: string[]; // D1 rows without KV content; cannot be repaired
+  orphanNotes: string[]; // Notes whose document no longer exists
+  orphanVectors: string[]; // Vectors of orphan notes or KV-only documents
+  chunkCountMismatches: Array<{ documentId: string; chunkCount: number; notes: number }>;
+  missingVectors: Array<{ documentId: string; noteIds: string[] }>;
+  cursor: string | null; // Where the next check continues; null once every document was checked
+  repair?: ConsistencyRepairResult;
+}
+
+/**
+ * What a repair changed; failures are listed and do not stop the other repairs
+ */
+export interface ConsistencyRepairResult {
+  deletedDocuments: number; // KV-only documents
+  deletedNotes: number;
+  deletedVectors: number;
+  recountedDocuments: number;
+  reembeddedNotes: number;
+  errors: string[];
+}
+
+/**
+ * Token usage of an LLM completion, reported the same way for every provider
+ */
+export interface CompletionUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageKind = 'chat' | 'query' | 'title' | 'summary' | 'condense' | 'embedding';
+
+/**
+ * Model usage record in D1 database: one per chat answer, GET / answer,
+ * conversation title, summary update, condensed question, query embedding, or
+ * ingested document (all of its embedding calls together)
+ */
+export interface UsageEvent {
+  id: string;
+  tenant_id: string;
+  kind: UsageKind;
+  provider: string | null;
+  model: string;
+  conversation_id: string | null; // Chat answers and the calls made for them
+  message_id: string | null; // Chat answers
+  document_id: string | null; // Document embeddings
+  request_count: number; // Model calls covered by the record
+  input_tokens: number;
+  output_tokens: number;
+  estimated: number; // 1 when tokens were estimated because the model reported none
+  latency_ms: number | null;
+  cost_usd: number | null; // Null for models without a known price
+  created_at: number;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Models without a known price count as 0
+}
+
+/**
+ * Usage aggregated over a date range, reported by GET /usage
+ */
+export interface UsageReport {
+  from: string; // UTC dates, inclusive
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byModel: Array<UsageTotals & { kind: UsageKind; model: string; averageLatencyMs: number | null }>;
+  byConversation: Array<UsageTotals & { conversationId: string; title: string | null }>;
+}
+
+/**
+ * Shared counters for rate limits and token quotas. Counters are created on
+ * first increment and can be dropped once they expire.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<number>;
+  /** Add to a counter and return its new value */
+  increment(key: string, amount: number, expiresAt: number): Promise<number>;
+}
+
+/**
+ * API key roles; each role can also do everything the roles before it can
+ */
+export type ApiKeyRole = 'reader' | 'writer' | 'admin';
+
+/**
+ * API key record in D1 database. Only a SHA-256 hash of the key is stored.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  tenant_id: string; // Requests with the key act for this tenant
+  name: string;
+  role: ApiKeyRole;
+  key_hash: string;
+  key_prefix: string; // First characters of the key, to tell keys apart
+  allowed_origins: string | null; // JSON array of browser origins; NULL allows any origin
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * API key as returned by the key management routes
+ */
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  role: ApiKeyRole;
+  prefix: string;
+  allowedOrigins: string[] | null;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
 }
 
 /**
@@ -106,12 +542,112 @@ export interface Env {
   VECTOR_INDEX: VectorizeIndex;
   DOCUMENTS: KVNamespace; // KV store for full documents
   RAG_WORKFLOW: Workflow;
+  UPDATE_WORKFLOW: Workflow; // Re-ingests an existing document in place
+  REEMBED_WORKFLOW: Workflow; // Re-embeds every note with a new embedding model
+  /**
+   * Bootstrap admin key (set as a secret); acts as an admin key for the tenant in X-Tenant-ID
+   */
+  ADMIN_API_KEY?: string;
+  /**
+   * If set to the string "true", routes do not require an API key (local development only)
+   */
+  DISABLE_API_AUTH?: string;
   ANTHROPIC_API_KEY?: string;
   ANTHROPIC_MODEL?: string;
+  /**
+   * Text generation provider: "anthropic", "workers-ai" or "openai" (any OpenAI-compatible API).
+   * Defaults to anthropic when ANTHROPIC_API_KEY is set, otherwise workers-ai.
+   */
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string; // Overrides the provider's default model
+  LLM_MAX_TOKENS?: string; // Default max tokens per completion (default 2048)
+  LLM_TEMPERATURE?: string; // Default sampling temperature (provider default when unset)
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string; // Defaults to https://api.openai.com/v1
+  OPENAI_MODEL?: string;
+  /**
+   * Workers AI embedding model for new vectors and queries (default @cf/baai/bge-base-en-v1.5)
+   */
+  EMBEDDING_MODEL?: string;
+  /**
+   * Vector dimensions of EMBEDDING_MODEL; only needed for models this app does not know
+   */
+  EMBEDDING_DIMENSIONS?: string;
+  /**
+   * Seconds cached embeddings are kept in KV (default 30 days); "0" disables the embedding cache
+   */
+  EMBEDDING_CACHE_TTL_SECONDS?: string;
+  /**
+   * Chunks embedded and upserted per ingestion workflow step (default 50, at most 100)
+   */
+  EMBEDDING_BATCH_SIZE?: string;
+  /**
+   * What to do when an ingested text matches an existing document: "reject" (default, 409),
+   * "return" (the existing document) or "version" (a new version). Requests can override it with onDuplicate.
+   */
+  DUPLICATE_POLICY?: string;
   /**
    * If set to the string "true", enables text splitting. Any other value (including "false" or undefined) disables it.
    */
   ENABLE_TEXT_SPLITTING?: string;
+  /**
+   * Default keyword weight (0-1) for hybrid retrieval when a request does not specify one
+   */
+  HYBRID_KEYWORD_WEIGHT?: string;
+  /**
+   * Minimum vector similarity (0-1) for a chunk to be retrieved; unset keeps all matches
+   */
+  RETRIEVAL_MIN_SIMILARITY?: string;
+  /**
+   * Largest similarity drop (0-1) allowed between consecutive vector matches before the rest are cut off
+   */
+  RETRIEVAL_MAX_SCORE_GAP?: string;
+  /**
+   * If set to the string "true", the default tenant's vector queries filter on tenant_id metadata.
+   * Set once a tenant-metadata embedding job has indexed the older vectors.
+   */
+  DEFAULT_TENANT_VECTOR_FILTER?: string;
+  /**
+   * If set to the string "true", reranks retrieved chunks with RERANK_MODEL by default
+   */
+  ENABLE_RERANKING?: string;
+  /**
+   * Workers AI reranker model (default @cf/baai/bge-reranker-base)
+   */
+  RERANK_MODEL?: string;
+  /**
+   * JSON object of model prices in USD per million tokens, e.g. {"my-model": {"input": 1, "output": 5}};
+   * merged over the built-in prices used for cost estimates
+   */
+  MODEL_PRICING?: string;
+  /**
+   * Requests allowed per RATE_LIMIT_WINDOW_SECONDS on each group of AI-consuming routes, per API key or IP (default 30)
+   */
+  RATE_LIMIT_REQUESTS?: string;
+  /**
+   * Length of the sliding rate limit window in seconds (default 60)
+   */
+  RATE_LIMIT_WINDOW_SECONDS?: string;
+  /**
+   * Tokens each API key or IP may consume per UTC day across AI-consuming routes; unset means no quota
+   */
+  DAILY_TOKEN_QUOTA?: string;
+  /**
+   * Maximum number of recent chat messages sent verbatim (default 10); older messages are summarized
+   */
+  CHAT_HISTORY_WINDOW?: string;
+  /**
+   * Estimated token budget for recent chat messages sent verbatim (default 3000)
+   */
+  CHAT_HISTORY_TOKEN_BUDGET?: string;
+  /**
+   * If set to the string "true", rewrites follow-up chat messages into standalone search queries by default
+   */
+  CHAT_CONDENSE_QUESTIONS?: string;
+  /**
+   * If set to the string "true", the scheduled consistency check repairs what it finds instead of only reporting it
+   */
+  CONSISTENCY_REPAIR?: string;
 }
 
 /**
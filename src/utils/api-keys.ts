@@ -0,0 +1,188 @@
+/**
+ * API keys
+ *
+ * Requests authenticate with an API key in the Authorization header
+ * (`Bearer <key>`) or X-API-Key. Keys are stored as SHA-256 hashes in D1; each
+ * belongs to a tenant, has a role that gates which routes it can call, and can
+ * be limited to a list of browser origins. ADMIN_API_KEY is a bootstrap admin
+ * key for creating the first keys.
+ */
+
+import { ApiKey, ApiKeyRecord, ApiKeyRole, Env } from '../types';
+import { sha256Hex } from './hash';
+
+export const API_KEY_ROLES: ApiKeyRole[] = ['reader', 'writer', 'admin'];
+
+export const MAX_API_KEY_NAME_LENGTH = 100;
+
+const API_KEY_PREFIX = 'rag_';
+const KEY_PREFIX_LENGTH = 12;
+const MAX_ALLOWED_ORIGINS = 20;
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return API_KEY_PREFIX + [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Read the API key from an Authorization (`Bearer <key>`) or X-API-Key header value
+ */
+export function readApiKey(authorization: string | undefined, apiKeyHeader: string | undefined): string | undefined {
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer || apiKeyHeader?.trim() || undefined;
+}
+
+/**
+ * Whether a role may call routes that require another role
+ */
+export function roleAllows(role: ApiKeyRole, required: ApiKeyRole): boolean {
+  return API_KEY_ROLES.indexOf(role) >= API_KEY_ROLES.indexOf(required);
+}
+
+/**
+ * Parse a role supplied by a request
+ */
+export function parseApiKeyRole(input: unknown): { value?: ApiKeyRole; error?: string } {
+  if (typeof input !== 'string' || !API_KEY_ROLES.includes(input as ApiKeyRole)) {
+    return { error: `role must be one of: ${API_KEY_ROLES.join(', ')}` };
+  }
+  return { value: input as ApiKeyRole };
+}
+
+/**
+ * Parse an origin allowlist supplied by a request; absent or null allows any origin
+ */
+export function parseAllowedOrigins(input: unknown): { value?: string[] | null; error?: string } {
+  if (input === undefined || input === null) {
+    return { value: null };
+  }
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_ALLOWED_ORIGINS) {
+    return { error: `allowedOrigins must be a non-empty array of at most ${MAX_ALLOWED_ORIGINS} origins` };
+  }
+
+  const origins: string[] = [];
+  for (const entry of input) {
+    let origin: string | undefined;
+    try {
+      origin = typeof entry === 'string' ? new URL(entry).origin : undefined;
+    } catch {
+      origin = undefined;
+    }
+    // An origin is scheme, host and port only, e.g. https://app.example.com
+    if (!origin || origin === 'null' || origin !== entry.replace(/\/$/, '')) {
+      return { error: `Invalid origin: ${String(entry)}` };
+    }
+    origins.push(origin);
+  }
+
+  return { value: [...new Set(origins)] };
+}
+
+/**
+ * Whether a request from an origin may use a key.
+ * Requests without an Origin header do not come from a browser page and are always allowed.
+ */
+export function isOriginAllowed(allowedOrigins: string[] | null, origin: string | undefined): boolean {
+  return !origin || allowedOrigins === null || allowedOrigins.includes(origin);
+}
+
+/**
+ * Public view of a stored key, without its hash
+ */
+export function toApiKey(record: ApiKeyRecord): ApiKey {
+  return {
+    id: record.id,
+    tenantId: record.tenant_id,
+    name: record.name,
+    role: record.role,
+    prefix: record.key_prefix,
+    allowedOrigins: record.allowed_origins ? JSON.parse(record.allowed_origins) : null,
+    createdAt: record.created_at,
+    lastUsedAt: record.last_used_at,
+    revokedAt: record.revoked_at,
+  };
+}
+
+/**
+ * Create a key for a tenant. The returned key is not stored and cannot be shown again.
+ */
+export async function createApiKey(
+  env: Env,
+  tenantId: string,
+  input: { name: string; role: ApiKeyRole; allowedOrigins: string[] | null }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = generateApiKey();
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    tenant_id: tenantId,
+    name: input.name,
+    role: input.role,
+    key_hash: await sha256Hex(key),
+    key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+    allowed_origins: input.allowedOrigins ? JSON.stringify(input.allowedOrigins) : null,
+    created_at: Date.now(),
+    last_used_at: null,
+    revoked_at: null,
+  };
+
+  await env.DATABASE.prepare(
+    `INSERT INTO api_keys (id, tenant_id, name, role, key_hash, key_prefix, allowed_origins, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      record.id,
+      record.tenant_id,
+      record.name,
+      record.role,
+      record.key_hash,
+      record.key_prefix,
+      record.allowed_origins,
+      record.created_at
+    )
+    .run();
+
+  return { apiKey: toApiKey(record), key };
+}
+
+/**
+ * Look up an active (not revoked) key
+ */
+export async function findApiKey(env: Env, key: string): Promise<ApiKeyRecord | null> {
+  return env.DATABASE.prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+    .bind(await sha256Hex(key))
+    .first<ApiKeyRecord>();
+}
+
+/**
+ * List a tenant's keys, newest first, including revoked keys
+ */
+export async function listApiKeys(env: Env, tenantId: string): Promise<ApiKey[]> {
+  const { results } = await env.DATABASE.prepare('SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY created_at DESC')
+    .bind(tenantId)
+    .all<ApiKeyRecord>();
+  return (results || []).map(toApiKey);
+}
+
+/**
+ * Revoke one of a tenant's keys. Returns null if the tenant has no such key.
+ */
+export async function revokeApiKey(env: Env, tenantId: string, keyId: string): Promise<ApiKey | null> {
+  const record = await env.DATABASE.prepare(
+    'UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ? AND tenant_id = ? RETURNING *'
+  )
+    .bind(Date.now(), keyId, tenantId)
+    .first<ApiKeyRecord>();
+  return record ? toApiKey(record) : null;
+}
+
+/**
+ * Record that a key was used
+ */
+export async function touchApiKey(env: Env, keyId: string): Promise<void> {
+  await env.DATABASE.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+    .bind(Date.now(), keyId)
+    .run();
+}
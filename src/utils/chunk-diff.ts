@@ -0,0 +1,51 @@
+/**
+ * Chunk diffing for document updates
+ *
+ * Matches the chunks of a re-ingested document against the existing notes
+ * by content hash, so only new or changed chunks need to be embedded.
+ */
+
+export interface ExistingChunk {
+  noteId: string;
+  chunkIndex: number;
+  hash: string;
+}
+
+export interface ChunkUpdatePlan {
+  /** Existing notes with the same text, whose vectors are reused; `moved` when their chunk index changes */
+  reuse: Array<{ noteId: string; chunkIndex: number; moved: boolean }>;
+  /** Indexes (into the new chunk list) of chunks that must be created and embedded */
+  create: number[];
+  /** Existing notes whose content no longer appears in the document */
+  remove: string[];
+}
+
+/**
+ * Plan the changes needed to turn the existing chunks into the new ones.
+ * Identical chunks are matched in order, so duplicated text reuses duplicated notes.
+ */
+export function planChunkUpdate(existing: ExistingChunk[], newHashes: string[]): ChunkUpdatePlan {
+  const available = new Map<string, ExistingChunk[]>();
+  for (const chunk of [...existing].sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+    const matches = available.get(chunk.hash) ?? [];
+    matches.push(chunk);
+    available.set(chunk.hash, matches);
+  }
+
+  const plan: ChunkUpdatePlan = { reuse: [], create: [], remove: [] };
+
+  newHashes.forEach((hash, chunkIndex) => {
+    const match = available.get(hash)?.shift();
+    if (match) {
+      plan.reuse.push({ noteId: match.noteId, chunkIndex, moved: match.chunkIndex !== chunkIndex });
+    } else {
+      plan.create.push(chunkIndex);
+    }
+  });
+
+  for (const chunks of available.values()) {
+    plan.remove.push(...chunks.map(chunk => chunk.noteId));
+  }
+
+  return plan;
+}
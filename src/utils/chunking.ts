@@ -0,0 +1,234 @@
+/**
+ * Chunking strategies for document ingestion
+ *
+ * Splits document text into chunks before embedding. The strategy is chosen
+ * per document and stored in its metadata, so re-ingestion chunks it the same way:
+ * - recursive: LangChain's RecursiveCharacterTextSplitter
+ * - markdown: sections split at Markdown headings, oversized sections split further
+ * - sentence: whole sentences packed into chunks up to the size limit
+ * - token: windows of cl100k_base tokens, as LangChain's TokenTextSplitter makes them
+ * - none: the whole document is embedded as a single chunk
+ */
+
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+import { ChunkingConfig, ChunkingStrategy, Env } from '../types';
+
+export const CHUNKING_STRATEGIES: readonly ChunkingStrategy[] = ['recursive', 'markdown', 'sentence', 'token', 'none'];
+
+export interface ParsedChunkingConfig {
+  config?: ChunkingConfig;
+  error?: string;
+}
+
+const DEFAULT_SIZES: Record<Exclude<ChunkingStrategy, 'none'>, { chunkSize: number; chunkOverlap: number }> = {
+  recursive: { chunkSize: 1000, chunkOverlap: 200 },
+  markdown: { chunkSize: 1000, chunkOverlap: 200 },
+  sentence: { chunkSize: 1000, chunkOverlap: 200 },
+  token: { chunkSize: 256, chunkOverlap: 32 },
+};
+
+const MAX_CHUNK_SIZE = 8000;
+
+// Built from the bundled ranks on first use, since TokenTextSplitter fetches its encoding at runtime
+let cl100kTokenizer: Tiktoken | undefined;
+
+const MARKDOWN_HEADING = /^ {0,3}#{1,6}[ \t]+\S/;
+const MARKDOWN_FENCE = /^ {0,3}(```|~~~)/;
+
+/**
+ * Validate a chunking config from a request body. Accepts a strategy name as
+ * shorthand and fills in the default sizes so the stored config is explicit.
+ */
+export function parseChunkingConfig(input: unknown): ParsedChunkingConfig {
+  const raw = typeof input === 'string' ? { strategy: input } : input;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { error: 'Chunking must be an object or a strategy name' };
+  }
+
+  const { strategy, chunkSize, chunkOverlap } = raw as Record<string, unknown>;
+  if (typeof strategy !== 'string' || !CHUNKING_STRATEGIES.includes(strategy as ChunkingStrategy)) {
+    return { error: `chunking.strategy must be one of: ${CHUNKING_STRATEGIES.join(', ')}` };
+  }
+  if (strategy === 'none') {
+    return { config: { strategy: 'none' } };
+  }
+
+  const defaults = DEFAULT_SIZES[strategy as Exclude<ChunkingStrategy, 'none'>];
+  const size = chunkSize ?? defaults.chunkSize;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_CHUNK_SIZE) {
+    return { error: `chunking.chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}` };
+  }
+
+  const overlap = chunkOverlap ?? Math.min(defaults.chunkOverlap, Math.floor(size / 5));
+  if (typeof overlap !== 'number' || !Number.isInteger(overlap) || overlap < 0 || overlap >= size) {
+    return { error: 'chunking.chunkOverlap must be a non-negative integer smaller than chunkSize' };
+  }
+
+  return { config: { strategy: strategy as ChunkingStrategy, chunkSize: size, chunkOverlap: overlap } };
+}
+
+/**
+ * Resolve the chunking config: request, then the config stored with the document,
+ * then the ENABLE_TEXT_SPLITTING default (recursive when "true", otherwise none)
+ */
+export function resolveChunkingConfig(env: Env, requested?: ChunkingConfig, stored?: ChunkingConfig): ChunkingConfig {
+  if (requested) return requested;
+  if (stored) return stored;
+  return env.ENABLE_TEXT_SPLITTING === 'true'
+    ? { strategy: 'recursive', ...DEFAULT_SIZES.recursive }
+    : { strategy: 'none' };
+}
+
+/**
+ * Split Markdown into sections at headings (outside fenced code blocks).
+ * Headings directly followed by a sub-heading stay in the same section.
+ */
+function splitMarkdownSections(text: string): string[] {
+  const sections: Array<{ lines: string[]; hasBody: boolean }> = [{ lines: [], hasBody: false }];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    let current = sections[sections.length - 1];
+    if (!inFence && MARKDOWN_HEADING.test(line)) {
+      if (current.hasBody) {
+        current = { lines: [], hasBody: false };
+        sections.push(current);
+      }
+      current.lines.push(line);
+      continue;
+    }
+    if (MARKDOWN_FENCE.test(line)) inFence = !inFence;
+    if (line.trim()) current.hasBody = true;
+    current.lines.push(line);
+  }
+
+  return sections.map(section => section.lines.join('\n').trim()).filter(Boolean);
+}
+
+/**
+ * Chunk Markdown along its headings. Sections over the size limit are split with the
+ * Markdown-aware recursive splitter, repeating the section heading on each continuation.
+ */
+async function splitMarkdown(text: string, chunkSize: number, chunkOverlap: number): Promise<string[]> {
+  const splitter = RecursiveCharacterTextSplitter.fromLanguage('markdown', { chunkSize, chunkOverlap });
+  const chunks: string[] = [];
+
+  for (const section of splitMarkdownSections(text)) {
+    if (section.length <= chunkSize) {
+      chunks.push(section);
+      continue;
+    }
+
+    const headingLines: string[] = [];
+    for (const line of section.split('\n')) {
+      if (!MARKDOWN_HEADING.test(line)) break;
+      headingLines.push(line.trim());
+    }
+    const heading = headingLines.join('\n');
+
+    const pieces = await splitter.splitText(section);
+    pieces.forEach((piece, index) => {
+      chunks.push(index > 0 && heading && !piece.startsWith(heading) ? `${heading}\n\n${piece}` : piece);
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Pack whole sentences into chunks of at most chunkSize characters, carrying trailing
+ * sentences of up to chunkOverlap characters into the next chunk. Sentences longer
+ * than a chunk are split with the recursive splitter.
+ */
+async function splitSentences(text: string, chunkSize: number, chunkOverlap: number): Promise<string[]> {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  const sentences = [...segmenter.segment(text)].map(s => s.segment).filter(s => s.trim());
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length) chunks.push(current.join('').trim());
+  };
+
+  for (const sentence of sentences) {
+    if (sentence.trim().length > chunkSize) {
+      flush();
+      const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+      chunks.push(...await splitter.splitText(sentence));
+      current = [];
+      length = 0;
+      continue;
+    }
+
+    if (current.length && length + sentence.length > chunkSize) {
+      flush();
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > chunkOverlap) break;
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length;
+      }
+      const fits = overlapLength + sentence.length <= chunkSize;
+      current = fits ? overlap : [];
+      length = fits ? overlapLength : 0;
+    }
+
+    current.push(sentence);
+    length += sentence.length;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Split text into windows of chunkSize tokens, each starting chunkOverlap tokens before the previous one ended
+ */
+function splitTokens(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const tokenizer = cl100kTokenizer ??= new Tiktoken(cl100k_base);
+  const tokens = tokenizer.encode(text);
+  const chunks: string[] = [];
+
+  for (let start = 0; start < tokens.length; start += chunkSize - chunkOverlap) {
+    chunks.push(tokenizer.decode(tokens.slice(start, start + chunkSize)));
+    if (start + chunkSize >= tokens.length) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split document text into chunks using the given config
+ */
+export async function splitText(text: string, config: ChunkingConfig): Promise<string[]> {
+  if (config.strategy === 'none') {
+    return [text];
+  }
+
+  const defaults = DEFAULT_SIZES[config.strategy];
+  const chunkSize = config.chunkSize ?? defaults.chunkSize;
+  const chunkOverlap = config.chunkOverlap ?? defaults.chunkOverlap;
+
+  let chunks: string[];
+  switch (config.strategy) {
+    case 'recursive':
+      chunks = await new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap }).splitText(text);
+      break;
+    case 'markdown':
+      chunks = await splitMarkdown(text, chunkSize, chunkOverlap);
+      break;
+    case 'sentence':
+      chunks = await splitSentences(text, chunkSize, chunkOverlap);
+      break;
+    case 'token':
+      chunks = splitTokens(text, chunkSize, chunkOverlap);
+      break;
+  }
+
+  chunks = chunks.filter(chunk => chunk.trim());
+  return chunks.length ? chunks : [text];
+}
@@ -0,0 +1,75 @@
+/**
+ * Citation validation for generated answers
+ *
+ * The chat prompt asks the model to cite retrieved chunks as [ID: <id>].
+ * Citations are parsed from the answer and checked against the notes that
+ * were actually retrieved: unknown IDs are removed from the text, and the
+ * rest are returned as structured records with offsets into the cleaned text.
+ */
+
+import { Citation, NoteRecord } from '../types';
+
+export interface CitationCheck {
+  content: string; // Answer with invalid citations removed
+  citations: Citation[];
+  invalidCitations: string[]; // Cited IDs that were not among the retrieved notes
+}
+
+// Also consumes the whitespace before a marker so removed citations leave no gap
+const CITATION_PATTERN = /[ \t]*\[ID:\s*([^\]\n]*)\]/g;
+
+/**
+ * Validate the citations in an answer against the retrieved notes.
+ * A marker may list several comma-separated IDs; citing a document ID is accepted
+ * and attributed to that document's highest-ranked retrieved note.
+ * Offsets are UTF-16 code unit positions of the marker in `content`.
+ */
+export function validateCitations(
+  answer: string,
+  notes: Array<Pick<NoteRecord, 'id' | 'document_id'>>
+): CitationCheck {
+  const byNoteId = new Map(notes.map(note => [note.id, note]));
+  const byDocumentId = new Map<string, Pick<NoteRecord, 'id' | 'document_id'>>();
+  for (const note of notes) {
+    if (!byDocumentId.has(note.document_id)) byDocumentId.set(note.document_id, note);
+  }
+
+  const citations: Citation[] = [];
+  const invalid = new Set<string>();
+  let content = '';
+  let lastIndex = 0;
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const [marker, idList] = match;
+    content += answer.slice(lastIndex, match.index);
+    lastIndex = match.index! + marker.length;
+
+    const validIds: string[] = [];
+    const cited: Array<Pick<NoteRecord, 'id' | 'document_id'>> = [];
+    for (const rawId of idList.split(',')) {
+      const id = rawId.trim();
+      if (!id) continue;
+      const note = byNoteId.get(id) ?? byDocumentId.get(id);
+      if (!note) {
+        invalid.add(id);
+        continue;
+      }
+      if (!validIds.includes(id)) validIds.push(id);
+      if (!cited.includes(note)) cited.push(note);
+    }
+
+    if (validIds.length === 0) {
+      continue;
+    }
+
+    content += marker.match(/^[ \t]*/)![0];
+    const start = content.length;
+    content += `[ID: ${validIds.join(', ')}]`;
+    for (const note of cited) {
+      citations.push({ noteId: note.id, documentId: note.document_id, start, end: content.length });
+    }
+  }
+  content += answer.slice(lastIndex);
+
+  return { content, citations, invalidCitations: [...invalid] };
+}
@@ -0,0 +1,313 @@
+/**
+ * Consistency checks
+ *
+ * A document is spread over three stores: its content in KV, its row and notes
+ * in D1, and a vector per note in Vectorize. Writes across them are not atomic,
+ * so a failed ingestion or deletion can leave them out of step. checkConsistency
+ * compares the stores for one tenant; the repair lives with the ingestion code,
+ * since missing vectors are re-embedded.
+ *
+ * Vectorize cannot list its vectors, so orphan vectors are only found by ID: the
+ * vectors of orphan notes, and those of KV-only documents at the IDs their
+ * ingestion derives with chunkNoteId, under the revision recorded in KV when an
+ * update rewrote them. Documents uploaded or updated within the last ten minutes
+ * are skipped, as their ingestion may still be running.
+ *
+ * A check covers one page of the tenant's documents, in ID order, and stops early
+ * once it has looked up MAX_VECTOR_IDS vectors; the report's cursor continues
+ * where it stopped. The scheduled check keeps each tenant's cursor in
+ * consistency_cursors, so large tenants are checked across several runs.
+ */
+
+import { ConsistencyReport, DocumentStatus, Env } from '../types';
+import { Logger } from './logger';
+import { DocumentStore, chunkNoteId } from './document-store';
+import { DEFAULT_TENANT_ID } from './tenant';
+
+export const CONSISTENCY_GRACE_MS = 10 * 60 * 1000;
+
+// Documents listed from KV and D1 per check
+const CONSISTENCY_PAGE_SIZE = 100;
+
+// Vector IDs looked up per check, keeping a check within the Workers subrequest limit
+export const MAX_VECTOR_IDS = 1000;
+
+// Vectors are returned with their values, so IDs are looked up a few at a time
+const MAX_VECTOR_LOOKUP = 20;
+
+// Statuses of documents whose ingestion finished, so their notes and vectors are complete
+const COMPLETE_STATUSES: DocumentStatus[] = ['ready', 'superseded'];
+
+/**
+ * Position of a check: the last document ID checked, and the KV list cursor of the
+ * page holding the documents after it
+ */
+export interface ConsistencyCursor {
+  after: string;
+  kvCursor: string | null;
+}
+
+/**
+ * Encode a cursor for a report and the consistency_cursors table
+ */
+export function encodeConsistencyCursor(cursor: ConsistencyCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+/**
+ * Decode a cursor from a report; returns null if it is not one
+ */
+export function decodeConsistencyCursor(value: string): ConsistencyCursor | null {
+  try {
+    const cursor = JSON.parse(atob(value));
+    if (typeof cursor?.after !== 'string' || (cursor.kvCursor !== null && typeof cursor.kvCursor !== 'string')) {
+      return null;
+    }
+    return { after: cursor.after, kvCursor: cursor.kvCursor };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tenants with documents, notes or API keys, always including the default tenant,
+ * least recently checked first
+ */
+export async function listConsistencyTenants(env: Env, limit: number): Promise<string[]> {
+  const { results } = await env.DATABASE.prepare(
+    `SELECT tenants.tenant_id FROM (
+       SELECT ? AS tenant_id UNION SELECT tenant_id FROM documents
+       UNION SELECT tenant_id FROM notes UNION SELECT tenant_id FROM api_keys
+     ) AS tenants
+     LEFT JOIN consistency_cursors ON consistency_cursors.tenant_id = tenants.tenant_id
+     ORDER BY COALESCE(consistency_cursors.checked_at, 0), tenants.tenant_id
+     LIMIT ?`
+  )
+    .bind(DEFAULT_TENANT_ID, limit)
+    .all<{ tenant_id: string }>();
+
+  return (results || []).map(row => row.tenant_id);
+}
+
+/**
+ * Where the scheduled check of a tenant continues; null to start from the first document
+ */
+export async function getConsistencyCursor(env: Env, tenantId: string): Promise<ConsistencyCursor | null> {
+  const row = await env.DATABASE.prepare('SELECT cursor FROM consistency_cursors WHERE tenant_id = ?')
+    .bind(tenantId)
+    .first<{ cursor: string | null }>();
+
+  return row?.cursor ? decodeConsistencyCursor(row.cursor) : null;
+}
+
+/**
+ * Record where the next scheduled check of a tenant continues
+ */
+export async function saveConsistencyCursor(env: Env, report: ConsistencyReport): Promise<void> {
+  await env.DATABASE.prepare(
+    `INSERT INTO consistency_cursors (tenant_id, cursor, checked_at) VALUES (?, ?, ?)
+     ON CONFLICT(tenant_id) DO UPDATE SET cursor = excluded.cursor, checked_at = excluded.checked_at`
+  )
+    .bind(report.tenantId, report.cursor, report.checkedAt)
+    .run();
+}
+
+/**
+ * IDs among the given ones that have a vector
+ */
+export async function findExistingVectorIds(env: Env, ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += MAX_VECTOR_LOOKUP) {
+    const vectors = await env.VECTOR_INDEX.getByIds(ids.slice(i, i + MAX_VECTOR_LOOKUP));
+    vectors.forEach(vector => existing.add(vector.id));
+  }
+  return existing;
+}
+
+/**
+ * Vectors stored at the IDs chunkNoteId derives for a document, as first ingested and
+ * under its latest revision, probing chunk indexes until a lookup finds none.
+ * Returns the vectors found and the number of IDs looked up.
+ */
+async function findDerivedVectorIds(
+  env: Env,
+  documentId: string,
+  revision?: string
+): Promise<{ found: string[]; probed: number }> {
+  const found: string[] = [];
+  let probed = 0;
+  for (const idRevision of revision ? [undefined, revision] : [undefined]) {
+    for (let start = 0; ; start += MAX_VECTOR_LOOKUP) {
+      const ids = await Promise.all(
+        Array.from({ length: MAX_VECTOR_LOOKUP }, (_, offset) => chunkNoteId(documentId, start + offset, idRevision))
+      );
+      const existing = await findExistingVectorIds(env, ids);
+      probed += ids.length;
+      if (existing.size === 0) break;
+      found.push(...existing);
+    }
+  }
+  return { found, probed };
+}
+
+/**
+ * Whether a report found anything to repair
+ */
+export function hasInconsistencies(report: ConsistencyReport): boolean {
+  return report.kvOnlyDocuments.length > 0
+    || report.missingContent.length > 0
+    || report.orphanNotes.length > 0
+    || report.orphanVectors.length > 0
+    || report.chunkCountMismatches.length > 0
+    || report.missingVectors.length > 0;
+}
+
+/**
+ * Counts of a report, for logs
+ */
+export function summarizeConsistencyReport(report: ConsistencyReport): Record<string, unknown> {
+  return {
+    tenantId: report.tenantId,
+    documents: report.documents,
+    notes: report.notes,
+    kvOnlyDocuments: report.kvOnlyDocuments.length,
+    missingContent: report.missingContent.length,
+    orphanNotes: report.orphanNotes.length,
+    orphanVectors: report.orphanVectors.length,
+    chunkCountMismatches: report.chunkCountMismatches.length,
+    missingVectors: report.missingVectors.reduce((total, entry) => total + entry.noteIds.length, 0),
+    ...(report.repair && { repair: { ...report.repair, errors: report.repair.errors.length } }),
+  };
+}
+
+/**
+ * Compare a page of a tenant's KV documents, D1 rows and vectors, starting after the cursor
+ */
+export async function checkConsistency(
+  env: Env,
+  logger: Logger,
+  tenantId: string,
+  cursor: ConsistencyCursor | null = null,
+  now = Date.now()
+): Promise<ConsistencyReport> {
+  const log = logger.child({ component: 'ConsistencyCheck', tenantId });
+  const docStore = new DocumentStore(env, log, tenantId);
+  const settledBefore = now - CONSISTENCY_GRACE_MS;
+  const after = cursor?.after ?? '';
+
+  // A page of KV content, and the D1 rows up to its last document. When either
+  // page is full, the check ends at the smaller of their last IDs.
+  const stored = await docStore.listStoredDocuments(cursor?.kvCursor ?? undefined, CONSISTENCY_PAGE_SIZE);
+  const storedLast = stored.cursor === null ? null : (stored.documents[stored.documents.length - 1]?.documentId ?? after);
+
+  const { results: documentRows } = await env.DATABASE.prepare(
+    `SELECT id, status, chunk_count, uploaded_at,
+       (SELECT COUNT(*) FROM notes WHERE notes.document_id = documents.id) AS note_count
+     FROM documents WHERE tenant_id = ? AND id > ?${storedLast === null ? '' : ' AND id <= ?'}
+     ORDER BY id LIMIT ?`
+  )
+    .bind(tenantId, after, ...(storedLast === null ? [] : [storedLast]), CONSISTENCY_PAGE_SIZE)
+    .all<{ id: string; status: DocumentStatus; chunk_count: number; uploaded_at: number; note_count: number }>();
+  const documents = documentRows || [];
+  const documentsLast = documents.length === CONSISTENCY_PAGE_SIZE ? documents[documents.length - 1].id : null;
+
+  const last = storedLast === null ? documentsLast : documentsLast === null || storedLast <= documentsLast ? storedLast : documentsLast;
+  const inPage = (id: string) => id > after && (last === null || id <= last);
+
+  const { results: noteRows } = await env.DATABASE.prepare(
+    `SELECT id, document_id FROM notes WHERE tenant_id = ? AND document_id > ?${last === null ? '' : ' AND document_id <= ?'}
+     ORDER BY document_id, chunk_index`
+  )
+    .bind(tenantId, after, ...(last === null ? [] : [last]))
+    .all<{ id: string; document_id: string }>();
+
+  const documentsById = new Map(documents.map(document => [document.id, document]));
+  const storedById = new Map(stored.documents.filter(entry => inPage(entry.documentId)).map(entry => [entry.documentId, entry]));
+  const notesByDocument = new Map<string, string[]>();
+  for (const note of noteRows || []) {
+    notesByDocument.set(note.document_id, [...(notesByDocument.get(note.document_id) ?? []), note.id]);
+  }
+
+  const kvOnlyDocuments: string[] = [];
+  const missingContent: string[] = [];
+  const orphanNotes: string[] = [];
+  const orphanVectors: string[] = [];
+  const chunkCountMismatches: ConsistencyReport['chunkCountMismatches'] = [];
+  const indexedNotes: Array<{ documentId: string; noteId: string }> = [];
+  let documentCount = 0;
+  let noteCount = 0;
+  let vectorIds = 0;
+  let checkedUpTo: string | null = null;
+
+  // Check documents in ID order until the vector lookups run out, always at least one
+  const ids = [...new Set([...documentsById.keys(), ...storedById.keys(), ...notesByDocument.keys()])].sort();
+  for (const id of ids) {
+    if (checkedUpTo !== null && vectorIds >= MAX_VECTOR_IDS) break;
+    const document = documentsById.get(id);
+    const entry = storedById.get(id);
+    const noteIds = notesByDocument.get(id) ?? [];
+    noteCount += noteIds.length;
+
+    if (document) {
+      documentCount++;
+      if (document.uploaded_at < settledBefore) {
+        if (!entry) missingContent.push(id);
+        if (COMPLETE_STATUSES.includes(document.status)) {
+          if (document.chunk_count !== document.note_count) {
+            chunkCountMismatches.push({ documentId: id, chunkCount: document.chunk_count, notes: document.note_count });
+          }
+          indexedNotes.push(...noteIds.map(noteId => ({ documentId: id, noteId })));
+          vectorIds += noteIds.length;
+        }
+      }
+    } else {
+      orphanNotes.push(...noteIds);
+      vectorIds += noteIds.length;
+      if (entry && (entry.uploadedAt ?? 0) < settledBefore) {
+        kvOnlyDocuments.push(id);
+        const { found, probed } = await findDerivedVectorIds(env, id, entry.revision);
+        orphanVectors.push(...found);
+        vectorIds += probed;
+      }
+    }
+    checkedUpTo = id;
+  }
+
+  // Vectors of finished documents, and left behind by orphan notes
+  const existingVectors = await findExistingVectorIds(env, indexedNotes.map(note => note.noteId));
+  const missingByDocument = new Map<string, string[]>();
+  for (const { documentId, noteId } of indexedNotes.filter(note => !existingVectors.has(note.noteId))) {
+    missingByDocument.set(documentId, [...(missingByDocument.get(documentId) ?? []), noteId]);
+  }
+  orphanVectors.unshift(...await findExistingVectorIds(env, orphanNotes));
+
+  // Continue after the last document checked; when the page was finished, after its
+  // last ID, moving on to the next KV page if that is where it ended
+  let next: ConsistencyCursor | null;
+  if (checkedUpTo !== null && checkedUpTo !== ids[ids.length - 1]) {
+    next = { after: checkedUpTo, kvCursor: cursor?.kvCursor ?? null };
+  } else if (last === null) {
+    next = null;
+  } else {
+    next = {
+      after: last > after ? last : after,
+      kvCursor: last === storedLast ? stored.cursor : cursor?.kvCursor ?? null,
+    };
+  }
+
+  const report: ConsistencyReport = {
+    tenantId,
+    checkedAt: now,
+    documents: documentCount,
+    notes: noteCount,
+    kvOnlyDocuments,
+    missingContent,
+    orphanNotes,
+    orphanVectors,
+    chunkCountMismatches,
+    missingVectors: [...missingByDocument].map(([documentId, noteIds]) => ({ documentId, noteIds })),
+    cursor: next && encodeConsistencyCursor(next),
+  };
+  log.info('Consistency check complete', summarizeConsistencyReport(report));
+  return report;
+}
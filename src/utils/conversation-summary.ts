@@ -0,0 +1,132 @@
+/**
+ * Rolling conversation summaries
+ *
+ * Chat prompts include the most recent messages verbatim. Once the messages
+ * not yet covered by the conversation summary exceed the history window or
+ * token budget, the oldest of them are folded into the summary, which is sent
+ * in the system prompt so long sessions keep earlier decisions.
+ */
+
+import { Env } from '../types';
+import { CompletionObserver, CompletionRequest, createLLMProvider } from './llm-provider';
+
+export interface HistoryConfig {
+  window: number; // Maximum number of recent messages sent verbatim
+  tokenBudget: number; // Maximum estimated tokens of recent messages sent verbatim
+}
+
+export interface SummarizableMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+const DEFAULT_HISTORY_WINDOW = 10;
+const DEFAULT_HISTORY_TOKEN_BUDGET = 3000;
+const SUMMARY_MAX_TOKENS = 512;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an assistant.
+Update the summary with the new messages. Keep facts, decisions, constraints, open questions and document IDs that were cited.
+Drop small talk. Write plain prose or short bullet points, at most 250 words. Reply with the summary only.`;
+
+/**
+ * Rough token estimate (about 4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Parse a positive integer environment variable, falling back to a default
+ */
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Resolve the history window and token budget from CHAT_HISTORY_WINDOW and CHAT_HISTORY_TOKEN_BUDGET
+ */
+export function resolveHistoryConfig(env: Env): HistoryConfig {
+  return {
+    window: positiveInteger(env.CHAT_HISTORY_WINDOW, DEFAULT_HISTORY_WINDOW),
+    tokenBudget: positiveInteger(env.CHAT_HISTORY_TOKEN_BUDGET, DEFAULT_HISTORY_TOKEN_BUDGET),
+  };
+}
+
+/**
+ * Count how many of the newest messages fit within a message limit and token budget.
+ * The newest message always counts, even when it alone exceeds the budget.
+ */
+function countRecentWithin<T extends SummarizableMessage>(messages: T[], limit: number, tokenBudget: number): number {
+  let count = 0;
+  let tokens = 0;
+  for (let i = messages.length - 1; i >= 0 && count < limit; i--) {
+    tokens += estimateTokens(messages[i].content);
+    if (count > 0 && tokens > tokenBudget) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Select the recent messages to send verbatim: the newest messages within the window and token budget.
+ * Starts at a user message, since chat models expect the conversation to open with one.
+ */
+export function selectRecentMessages<T extends SummarizableMessage>(messages: T[], config: HistoryConfig): T[] {
+  const recent = messages.slice(messages.length - countRecentWithin(messages, config.window, config.tokenBudget));
+  while (recent.length > 1 && recent[0].role === 'assistant') {
+    recent.shift();
+  }
+  return recent;
+}
+
+/**
+ * Count the oldest unsummarized messages to fold into the summary, or 0 while history fits.
+ * Once over the window or budget, history is folded down to half of both, so the
+ * summary is rewritten every few exchanges instead of on every message.
+ */
+export function countMessagesToSummarize<T extends SummarizableMessage>(messages: T[], config: HistoryConfig): number {
+  if (countRecentWithin(messages, config.window, config.tokenBudget) === messages.length) {
+    return 0;
+  }
+  const keep = countRecentWithin(
+    messages,
+    Math.max(1, Math.floor(config.window / 2)),
+    Math.floor(config.tokenBudget / 2)
+  );
+  return messages.length - keep;
+}
+
+/**
+ * Fold messages into the previous summary and return the updated summary
+ */
+export async function summarizeMessages(
+  env: Env,
+  previousSummary: string | null,
+  messages: SummarizableMessage[],
+  onCompletion?: CompletionObserver
+): Promise<string> {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  const request: CompletionRequest = {
+    system: SUMMARY_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Current summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    maxTokens: SUMMARY_MAX_TOKENS,
+  };
+  const started = Date.now();
+  const completion = await createLLMProvider(env).complete(request);
+  onCompletion?.(request, completion, Date.now() - started);
+
+  const summary = completion.text.trim();
+  if (!summary) {
+    throw new Error('Summarization returned no text');
+  }
+  return summary;
+}
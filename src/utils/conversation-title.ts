@@ -0,0 +1,72 @@
+/**
+ * Conversation titles
+ *
+ * Generates a short title for a conversation from its first exchange, so
+ * conversations can be told apart in GET /chat/conversations. Falls back to
+ * the opening question when the model returns nothing usable.
+ */
+
+import { Env } from '../types';
+import { CompletionObserver, CompletionRequest, createLLMProvider } from './llm-provider';
+
+export const MAX_CONVERSATION_TITLE_LENGTH = 200;
+
+const GENERATED_TITLE_LENGTH = 60;
+const TITLE_MAX_TOKENS = 30;
+
+const TITLE_SYSTEM_PROMPT = `You write titles for chat conversations.
+Reply with a title of at most 6 words that summarizes the topic of the conversation.
+Reply with the title only: no quotes, no trailing punctuation, no explanation.`;
+
+/**
+ * Shorten text to a title, cutting at a word boundary where possible
+ */
+export function truncateTitle(text: string, maxLength = GENERATED_TITLE_LENGTH): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= maxLength) {
+    return singleLine;
+  }
+  const cut = singleLine.slice(0, maxLength - 1);
+  const lastSpace = singleLine[cut.length] === ' ' ? cut.length : cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Clean up a model-generated title: first line only, without wrapping quotes or a "Title:" prefix
+ */
+export function cleanGeneratedTitle(raw: string): string {
+  const firstLine = raw.trim().split('\n')[0] ?? '';
+  return truncateTitle(
+    firstLine
+      .replace(/^title:\s*/i, '')
+      .replace(/^["'“‘*]+|["'”’*]+$/g, '')
+      .replace(/[.!?:;,]+$/, '')
+      .trim()
+  );
+}
+
+/**
+ * Generate a title from the first question and answer of a conversation
+ */
+export async function generateConversationTitle(
+  env: Env,
+  question: string,
+  answer: string,
+  onCompletion?: CompletionObserver
+): Promise<string> {
+  const request: CompletionRequest = {
+    system: TITLE_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: `Question: ${truncateTitle(question, 1000)}\n\nAnswer: ${truncateTitle(answer, 1000)}`,
+      },
+    ],
+    maxTokens: TITLE_MAX_TOKENS,
+  };
+  const started = Date.now();
+  const completion = await createLLMProvider(env).complete(request);
+  onCompletion?.(request, completion, Date.now() - started);
+
+  return cleanGeneratedTitle(completion.text) || truncateTitle(question);
+}
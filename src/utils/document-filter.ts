@@ -0,0 +1,176 @@
+/**
+ * Document filter parsing, SQL generation and Vectorize translation
+ *
+ * Filters arrive as untrusted JSON from request bodies and are translated
+ * into a parameterized WHERE clause over the D1 documents table, and into
+ * a Vectorize metadata filter for scoped retrieval.
+ */
+
+import { DocumentFilter, DocumentMetadata, VectorMetadata } from '../types';
+
+export type FilterableVectorFields = Pick<VectorMetadata, 'tags' | 'author' | 'source' | 'content_type' | 'uploaded_at'>;
+
+export interface ParsedFilter {
+  filter?: DocumentFilter;
+  error?: string;
+}
+
+const MAX_FILTER_TAGS = 50;
+const STRING_FIELDS = ['author', 'source', 'contentType'] as const;
+
+/**
+ * Parse a timestamp given as epoch milliseconds or an ISO-8601 string
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a filter object from a request body
+ */
+export function parseDocumentFilter(input: unknown): ParsedFilter {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Filter must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filter: DocumentFilter = {};
+
+  if (raw.tags !== undefined) {
+    if (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string')) {
+      return { error: 'filter.tags must be an array of strings' };
+    }
+    if (raw.tags.length > MAX_FILTER_TAGS) {
+      return { error: `filter.tags may contain at most ${MAX_FILTER_TAGS} entries` };
+    }
+    filter.tags = raw.tags as string[];
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] !== 'string') {
+        return { error: `filter.${field} must be a string` };
+      }
+      filter[field] = raw[field] as string;
+    }
+  }
+
+  for (const field of ['uploadedAfter', 'uploadedBefore'] as const) {
+    if (raw[field] !== undefined) {
+      const timestamp = parseTimestamp(raw[field]);
+      if (timestamp === undefined) {
+        return { error: `filter.${field} must be a timestamp or ISO date string` };
+      }
+      filter[field] = timestamp;
+    }
+  }
+
+  return { filter };
+}
+
+/**
+ * Check whether a filter has at least one constraint
+ */
+export function isEmptyFilter(filter: DocumentFilter): boolean {
+  return (
+    !filter.tags?.length &&
+    filter.author === undefined &&
+    filter.source === undefined &&
+    filter.contentType === undefined &&
+    filter.uploadedAfter === undefined &&
+    filter.uploadedBefore === undefined
+  );
+}
+
+/**
+ * Build a parameterized WHERE clause (without the WHERE keyword) over the documents table
+ */
+export function buildDocumentFilterClause(filter: DocumentFilter): { clause: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.tags?.length) {
+    const placeholders = filter.tags.map(() => '?').join(',');
+    conditions.push(
+      `EXISTS (SELECT 1 FROM json_each(documents.metadata, '$.tags') WHERE json_each.value IN (${placeholders}))`
+    );
+    params.push(...filter.tags);
+  }
+  if (filter.author !== undefined) {
+    conditions.push(`json_extract(documents.metadata, '$.author') = ?`);
+    params.push(filter.author);
+  }
+  if (filter.source !== undefined) {
+    conditions.push(`json_extract(documents.metadata, '$.source') = ?`);
+    params.push(filter.source);
+  }
+  if (filter.contentType !== undefined) {
+    conditions.push('documents.content_type = ?');
+    params.push(filter.contentType);
+  }
+  if (filter.uploadedAfter !== undefined) {
+    conditions.push('documents.uploaded_at > ?');
+    params.push(filter.uploadedAfter);
+  }
+  if (filter.uploadedBefore !== undefined) {
+    conditions.push('documents.uploaded_at < ?');
+    params.push(filter.uploadedBefore);
+  }
+
+  return {
+    clause: conditions.length ? conditions.join(' AND ') : '1 = 1',
+    params,
+  };
+}
+
+/**
+ * Translate a filter into a Vectorize metadata filter.
+ * Vectorize cannot match against array values, so `tags` is left to the D1 re-check.
+ * Returns undefined when no condition can be pushed down.
+ */
+export function toVectorizeFilter(filter: DocumentFilter): VectorizeVectorMetadataFilter | undefined {
+  const vectorFilter: VectorizeVectorMetadataFilter = {};
+
+  if (filter.author !== undefined) vectorFilter.author = { $eq: filter.author };
+  if (filter.source !== undefined) vectorFilter.source = { $eq: filter.source };
+  if (filter.contentType !== undefined) vectorFilter.content_type = { $eq: filter.contentType };
+
+  if (filter.uploadedAfter !== undefined || filter.uploadedBefore !== undefined) {
+    vectorFilter.uploaded_at = {
+      ...(filter.uploadedAfter !== undefined ? { $gt: filter.uploadedAfter } : {}),
+      ...(filter.uploadedBefore !== undefined ? { $lt: filter.uploadedBefore } : {}),
+    };
+  }
+
+  return Object.keys(vectorFilter).length ? vectorFilter : undefined;
+}
+
+/**
+ * Select the filterable document fields to copy into each vector's metadata
+ */
+export function toVectorMetadataFields(
+  metadata: Partial<DocumentMetadata>,
+  contentType: string,
+  uploadedAt: number
+): FilterableVectorFields {
+  const fields: FilterableVectorFields = {
+    content_type: contentType,
+    uploaded_at: uploadedAt,
+  };
+
+  if (Array.isArray(metadata.tags)) {
+    const tags = metadata.tags.filter((tag): tag is string => typeof tag === 'string');
+    if (tags.length) fields.tags = tags;
+  }
+  if (typeof metadata.author === 'string') fields.author = metadata.author;
+  if (typeof metadata.source === 'string') fields.source = metadata.source;
+
+  return fields;
+}
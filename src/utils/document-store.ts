@@ -5,48 +5,99 @@
  * - KV: Full document content
  * - D1: Document metadata and searchable fields
  *
- * Ensures consistency between both storage layers.
+ * Ensures consistency between both storage layers. Every store acts for one
+ * tenant: it only reads and writes that tenant's documents and notes.
  */
 
 import {
   StoredDocument,
+  StoredDocumentEntry,
   DocumentRecord,
   NoteRecord,
   CreateDocumentInput,
+  UpdateDocumentInput,
   DocumentWithChunks,
   DocumentMetadata,
+  DocumentFilter,
+  DeleteDocumentResult,
+  DocumentStatus,
   Env,
 } from '../types';
 import { Logger } from './logger';
+import { buildDocumentFilterClause } from './document-filter';
+import { EmbeddingModel } from './embeddings';
+import { DEFAULT_TENANT_ID } from './tenant';
+import { sha256Hex } from './hash';
+
+/**
+ * ID of the note and vector for a document's chunk, shaped like a UUID and derived
+ * from the document ID and chunk index, so a retried ingestion step writes the same
+ * rows. Re-ingestion passes a revision, since notes it keeps may still use an index.
+ */
+export async function chunkNoteId(documentId: string, chunkIndex: number, revision?: string): Promise<string> {
+  return uuidFromHash(revision ? `${documentId}:${revision}:${chunkIndex}` : `${documentId}:${chunkIndex}`);
+}
+
+/**
+ * Note IDs of a document's chunks as its ingestion wrote them: without a revision
+ * for RAGWorkflow, with the instance ID for UpdateDocumentWorkflow
+ */
+export function documentNoteIds(documentId: string, chunkCount: number, revision?: string): Promise<string[]> {
+  return Promise.all(Array.from({ length: chunkCount }, (_, chunkIndex) => chunkNoteId(documentId, chunkIndex, revision)));
+}
+
+/**
+ * ID of the document an ingestion workflow creates, derived from its instance ID so
+ * a retried step finds the row it already wrote rather than creating a second one
+ */
+export async function workflowDocumentId(instanceId: string): Promise<string> {
+  return uuidFromHash(`document:${instanceId}`);
+}
+
+async function uuidFromHash(value: string): Promise<string> {
+  const hex = await sha256Hex(value);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
 
 export class DocumentStore {
   private static readonly MAX_IDS = 1000;
+  // D1 binds at most 100 parameters per query, one of them the tenant
+  private static readonly MAX_HASH_LOOKUP = 99;
+  private static readonly MAX_NOTE_DELETE = 99;
   private kv: KVNamespace;
   private db: D1Database;
   private vectorIndex: VectorizeIndex;
   private logger: Logger;
+  readonly tenantId: string;
 
-  constructor(env: Env, logger: Logger) {
+  constructor(env: Env, logger: Logger, tenantId: string = DEFAULT_TENANT_ID) {
     this.kv = env.DOCUMENTS;
     this.db = env.DATABASE;
     this.vectorIndex = env.VECTOR_INDEX;
-    this.logger = logger.child({ component: 'DocumentStore' });
+    this.tenantId = tenantId;
+    this.logger = logger.child({ component: 'DocumentStore', tenantId });
   }
 
   /**
-   * Generate a KV key for a document
+   * Generate a KV key for a document.
+   * Default tenant keys keep the unprefixed form used before tenants existed.
    */
   private getDocumentKey(documentId: string): string {
-    return `doc:${documentId}`;
+    return this.tenantId === DEFAULT_TENANT_ID
+      ? `doc:${documentId}`
+      : `tenant:${this.tenantId}:doc:${documentId}`;
   }
 
   /**
-   * Create a new document with content stored in KV and metadata in D1
+   * Create a new document with content stored in KV and metadata in D1.
+   * The document starts out pending until its ingestion marks it ready. With
+   * previousVersionId it is the next version of that document.
    */
   async createDocument(
     input: CreateDocumentInput,
-    documentId: string
-  ): Promise<void> {
+    documentId: string,
+    workflowId?: string
+  ): Promise<StoredDocument> {
     this.logger.info('Creating document', { documentId, title: input.title });
     this.logger.startTimer(`createDocument:${documentId}`);
 
@@ -81,8 +132,9 @@ export class DocumentStore {
 
       await this.db
         .prepare(
-          `INSERT INTO documents (id, title, content_type, uploaded_at, chunk_count, metadata)
-           VALUES (?, ?, ?, ?, ?, ?)`
+          `INSERT INTO documents (id, title, content_type, uploaded_at, chunk_count, metadata, status, workflow_id, tenant_id,
+             content_hash, version, previous_version_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE((SELECT version + 1 FROM documents WHERE id = ? AND tenant_id = ?), 1), ?)`
         )
         .bind(
           documentId,
@@ -90,12 +142,20 @@ export class DocumentStore {
           storedDoc.contentType,
           storedDoc.uploadedAt,
           0, // Initial chunk count, will be updated later
-          JSON.stringify(storedDoc.metadata)
+          JSON.stringify(storedDoc.metadata),
+          'pending',
+          workflowId ?? null,
+          this.tenantId,
+          await sha256Hex(input.content),
+          input.previousVersionId ?? null,
+          this.tenantId,
+          input.previousVersionId ?? null
         )
         .run();
 
       this.logger.debug('Document metadata stored in D1 successfully', { documentId });
       this.logger.endTimer(`createDocument:${documentId}`, { success: true });
+      return storedDoc;
     } catch (error) {
       this.logger.error(
         'Failed to create document',
@@ -129,8 +189,8 @@ export class DocumentStore {
 
       // Get metadata from D1
       const metadataResult = await this.db
-        .prepare('SELECT * FROM documents WHERE id = ?')
-        .bind(documentId)
+        .prepare('SELECT * FROM documents WHERE id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
         .first<DocumentRecord>();
 
       if (!metadataResult) {
@@ -158,6 +218,10 @@ export class DocumentStore {
         title: metadataResult.title,
         contentType: metadataResult.content_type,
         uploadedAt: metadataResult.uploaded_at,
+        status: metadataResult.status,
+        version: metadataResult.version ?? 1,
+        previousVersionId: metadataResult.previous_version_id ?? null,
+        updateError: metadataResult.update_error ?? null,
         content: kvData.content,
         chunks,
         metadata,
@@ -176,6 +240,102 @@ export class DocumentStore {
     }
   }
 
+  /**
+   * Build the stored document an update would write, without writing it: title and
+   * content type are kept unless provided, and metadata is merged.
+   * Returns null if the document does not exist.
+   */
+  async prepareUpdate(
+    documentId: string,
+    input: UpdateDocumentInput,
+    uploadedAt: number = Date.now()
+  ): Promise<StoredDocument | null> {
+    const existing = await this.getDocumentRecord(documentId);
+    if (!existing) {
+      return null;
+    }
+
+    const existingMetadata: DocumentMetadata = existing.metadata
+      ? JSON.parse(existing.metadata)
+      : { title: existing.title };
+
+    return {
+      content: input.content,
+      contentType: input.contentType || existing.content_type || 'text/plain',
+      uploadedAt,
+      metadata: {
+        ...existingMetadata,
+        ...input.metadata,
+        title: input.title || existing.title,
+      },
+    };
+  }
+
+  /**
+   * Replace the content of an existing document in KV and refresh its D1 metadata.
+   * Resets uploaded_at (to the given time, so a retried update writes the same row);
+   * title and content type are kept unless provided, metadata is merged. The revision
+   * its notes were written under is kept in the KV metadata.
+   * Returns null if the document does not exist.
+   */
+  async updateDocument(
+    documentId: string,
+    input: UpdateDocumentInput,
+    uploadedAt: number = Date.now(),
+    revision?: string
+  ): Promise<StoredDocument | null> {
+    this.logger.info('Updating document', { documentId });
+    this.logger.startTimer(`updateDocument:${documentId}`);
+
+    try {
+      const storedDoc = await this.prepareUpdate(documentId, input, uploadedAt);
+      if (!storedDoc) {
+        this.logger.warn('Document not found for update', { documentId });
+        this.logger.endTimer(`updateDocument:${documentId}`, { found: false });
+        return null;
+      }
+      const title = storedDoc.metadata.title;
+
+      const kvKey = this.getDocumentKey(documentId);
+      await this.kv.put(kvKey, JSON.stringify(storedDoc), {
+        metadata: {
+          documentId,
+          title,
+          uploadedAt: storedDoc.uploadedAt,
+          ...(revision && { revision }),
+        },
+      });
+      this.logger.debug('Document content replaced in KV', { kvKey, contentLength: input.content.length });
+
+      await this.db
+        .prepare(
+          `UPDATE documents SET title = ?, content_type = ?, uploaded_at = ?, metadata = ?, content_hash = ?, update_error = NULL
+           WHERE id = ? AND tenant_id = ?`
+        )
+        .bind(
+          title,
+          storedDoc.contentType,
+          storedDoc.uploadedAt,
+          JSON.stringify(storedDoc.metadata),
+          await sha256Hex(input.content),
+          documentId,
+          this.tenantId
+        )
+        .run();
+
+      this.logger.endTimer(`updateDocument:${documentId}`, { success: true });
+      return storedDoc;
+    } catch (error) {
+      this.logger.error(
+        'Failed to update document',
+        error instanceof Error ? error : new Error(String(error)),
+        { documentId }
+      );
+      this.logger.endTimer(`updateDocument:${documentId}`, { success: false });
+      throw error;
+    }
+  }
+
   /**
    * Update the chunk count for a document
    */
@@ -184,8 +344,8 @@ export class DocumentStore {
 
     try {
       await this.db
-        .prepare('UPDATE documents SET chunk_count = ? WHERE id = ?')
-        .bind(chunkCount, documentId)
+        .prepare('UPDATE documents SET chunk_count = ? WHERE id = ? AND tenant_id = ?')
+        .bind(chunkCount, documentId, this.tenantId)
         .run();
 
       this.logger.debug('Chunk count updated', { documentId, chunkCount });
@@ -200,30 +360,426 @@ export class DocumentStore {
   }
 
   /**
-   * Create a note/chunk linked to a document
+   * Record a document's ingestion status, with the failure message for failed documents
    */
-  async createNote(note: NoteRecord): Promise<void> {
-    this.logger.debug('Creating note', {
-      noteId: note.id,
-      documentId: note.document_id,
-      chunkIndex: note.chunk_index,
-      textLength: note.text.length,
-    });
+  async updateStatus(documentId: string, status: DocumentStatus, error?: string): Promise<void> {
+    this.logger.debug('Updating document status', { documentId, status });
 
     try {
       await this.db
+        .prepare('UPDATE documents SET status = ?, error = ? WHERE id = ? AND tenant_id = ?')
+        .bind(status, error ?? null, documentId, this.tenantId)
+        .run();
+    } catch (updateError) {
+      this.logger.error(
+        'Failed to update document status',
+        updateError instanceof Error ? updateError : new Error(String(updateError)),
+        { documentId, status }
+      );
+      throw updateError;
+    }
+  }
+
+  /**
+   * Put a document back to the status it had before a failed update, recording why the update failed
+   */
+  async recordUpdateFailure(documentId: string, status: DocumentStatus, error: string): Promise<void> {
+    this.logger.debug('Recording failed update', { documentId, status });
+
+    try {
+      await this.db
+        .prepare('UPDATE documents SET status = ?, update_error = ? WHERE id = ? AND tenant_id = ?')
+        .bind(status, error, documentId, this.tenantId)
+        .run();
+    } catch (updateError) {
+      this.logger.error(
+        'Failed to record failed update',
+        updateError instanceof Error ? updateError : new Error(String(updateError)),
+        { documentId, status }
+      );
+      throw updateError;
+    }
+  }
+
+  /**
+   * Get the embedding model that produced a document's vectors
+   */
+  async getEmbeddingModel(documentId: string): Promise<EmbeddingModel | null> {
+    try {
+      const result = await this.db
+        .prepare('SELECT embedding_model, embedding_dimensions FROM documents WHERE id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
+        .first<Pick<DocumentRecord, 'embedding_model' | 'embedding_dimensions'>>();
+
+      return result ? { name: result.embedding_model, dimensions: result.embedding_dimensions } : null;
+    } catch (error) {
+      this.logger.error(
+        'Failed to get embedding model',
+        error instanceof Error ? error : new Error(String(error)),
+        { documentId }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get a document's D1 row, or null if the tenant has no such document
+   */
+  async getDocumentRecord(documentId: string): Promise<DocumentRecord | null> {
+    try {
+      return await this.db
+        .prepare('SELECT * FROM documents WHERE id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
+        .first<DocumentRecord>();
+    } catch (error) {
+      this.logger.error(
+        'Failed to get document record',
+        error instanceof Error ? error : new Error(String(error)),
+        { documentId }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List a page of the tenant's documents stored in KV, in ID order, with upload times and
+   * note revisions from the key metadata. The cursor is null after the last page.
+   */
+  async listStoredDocuments(
+    cursor?: string,
+    limit = 1000
+  ): Promise<{ documents: StoredDocumentEntry[]; cursor: string | null }> {
+    const prefix = this.getDocumentKey('');
+
+    try {
+      const page = await this.kv.list<{ uploadedAt?: number; revision?: string }>({ prefix, cursor, limit });
+      return {
+        documents: page.keys.map(key => ({
+          documentId: key.name.slice(prefix.length),
+          uploadedAt: key.metadata?.uploadedAt,
+          revision: key.metadata?.revision,
+        })),
+        cursor: page.list_complete ? null : page.cursor,
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to list stored documents',
+        error instanceof Error ? error : new Error(String(error)),
+        { prefix }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Record the embedding model that produced a document's vectors
+   */
+  async updateEmbeddingModel(documentId: string, model: string, dimensions: number): Promise<void> {
+    try {
+      await this.db
+        .prepare('UPDATE documents SET embedding_model = ?, embedding_dimensions = ? WHERE id = ? AND tenant_id = ?')
+        .bind(model, dimensions, documentId, this.tenantId)
+        .run();
+    } catch (error) {
+      this.logger.error(
+        'Failed to update embedding model',
+        error instanceof Error ? error : new Error(String(error)),
+        { documentId, model }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List ready documents of every tenant whose vectors were not produced by a model, in ID order after a cursor.
+   * Re-embedding covers the whole index, so unlike other methods this is not scoped to the store's tenant.
+   */
+  async listDocumentsToReembed(
+    model: string,
+    dimensions: number,
+    cursor: string | null,
+    limit: number
+  ): Promise<DocumentRecord[]> {
+    try {
+      const result = await this.db
         .prepare(
-          'INSERT INTO notes (id, document_id, text, chunk_index) VALUES (?, ?, ?, ?)'
+          `SELECT * FROM documents
+           WHERE status = 'ready' AND (embedding_model != ? OR embedding_dimensions != ?) AND id > ?
+           ORDER BY id LIMIT ?`
         )
-        .bind(note.id, note.document_id, note.text, note.chunk_index)
-        .run();
+        .bind(model, dimensions, cursor ?? '', limit)
+        .all<DocumentRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      this.logger.error(
+        'Failed to list documents to re-embed',
+        error instanceof Error ? error : new Error(String(error)),
+        { model, cursor }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count ready documents of every tenant whose vectors were not produced by a model, after an optional cursor
+   */
+  async countDocumentsToReembed(model: string, dimensions: number, cursor: string | null = null): Promise<number> {
+    try {
+      const result = await this.db
+        .prepare(
+          `SELECT COUNT(*) AS count FROM documents
+           WHERE status = 'ready' AND (embedding_model != ? OR embedding_dimensions != ?) AND id > ?`
+        )
+        .bind(model, dimensions, cursor ?? '')
+        .first<{ count: number }>();
+
+      return result?.count ?? 0;
+    } catch (error) {
+      this.logger.error(
+        'Failed to count documents to re-embed',
+        error instanceof Error ? error : new Error(String(error)),
+        { model }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List the tenant's ready documents in ID order after a cursor
+   */
+  async listReadyDocuments(cursor: string | null, limit: number): Promise<DocumentRecord[]> {
+    try {
+      const result = await this.db
+        .prepare("SELECT * FROM documents WHERE tenant_id = ? AND status = 'ready' AND id > ? ORDER BY id LIMIT ?")
+        .bind(this.tenantId, cursor ?? '', limit)
+        .all<DocumentRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      this.logger.error(
+        'Failed to list ready documents',
+        error instanceof Error ? error : new Error(String(error)),
+        { cursor }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count the tenant's ready documents after an optional cursor
+   */
+  async countReadyDocuments(cursor: string | null = null): Promise<number> {
+    try {
+      const result = await this.db
+        .prepare("SELECT COUNT(*) AS count FROM documents WHERE tenant_id = ? AND status = 'ready' AND id > ?")
+        .bind(this.tenantId, cursor ?? '')
+        .first<{ count: number }>();
+
+      return result?.count ?? 0;
+    } catch (error) {
+      this.logger.error(
+        'Failed to count ready documents',
+        error instanceof Error ? error : new Error(String(error)),
+        { cursor }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the latest document with a content hash that is ingesting or ready.
+   * Failed and superseded documents do not count as duplicates.
+   */
+  async findDuplicate(contentHash: string): Promise<DocumentRecord | null> {
+    try {
+      return await this.db
+        .prepare(
+          `SELECT * FROM documents
+           WHERE tenant_id = ? AND content_hash = ? AND status NOT IN ('failed', 'superseded')
+           ORDER BY uploaded_at DESC LIMIT 1`
+        )
+        .bind(this.tenantId, contentHash)
+        .first<DocumentRecord>();
+    } catch (error) {
+      this.logger.error(
+        'Failed to find duplicate document',
+        error instanceof Error ? error : new Error(String(error)),
+        { contentHash }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find duplicates of many content hashes at once, with the same rules as findDuplicate.
+   * Returns the latest matching document for each hash that has one.
+   */
+  async findDuplicates(contentHashes: string[]): Promise<Map<string, DocumentRecord>> {
+    const duplicates = new Map<string, DocumentRecord>();
+    const hashes = [...new Set(contentHashes)];
 
-      this.logger.debug('Note created successfully', { noteId: note.id });
+    try {
+      for (let i = 0; i < hashes.length; i += DocumentStore.MAX_HASH_LOOKUP) {
+        const requested = hashes.slice(i, i + DocumentStore.MAX_HASH_LOOKUP);
+        const { results } = await this.db
+          .prepare(
+            `SELECT * FROM documents
+             WHERE tenant_id = ? AND content_hash IN (${requested.map(() => '?').join(',')}) AND status NOT IN ('failed', 'superseded')
+             ORDER BY uploaded_at DESC`
+          )
+          .bind(this.tenantId, ...requested)
+          .all<DocumentRecord>();
+
+        for (const document of results || []) {
+          if (document.content_hash && !duplicates.has(document.content_hash)) {
+            duplicates.set(document.content_hash, document);
+          }
+        }
+      }
+      return duplicates;
     } catch (error) {
       this.logger.error(
-        'Failed to create note',
+        'Failed to find duplicate documents',
         error instanceof Error ? error : new Error(String(error)),
-        { noteId: note.id, documentId: note.document_id }
+        { hashes: hashes.length }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the document created by an ingestion workflow with the number of chunks stored so far
+   */
+  async getIngestion(
+    workflowId: string
+  ): Promise<(Pick<DocumentRecord, 'id' | 'status' | 'chunk_count' | 'error'> & { stored_chunks: number }) | null> {
+    try {
+      return await this.db
+        .prepare(
+          `SELECT id, status, chunk_count, error,
+             (SELECT COUNT(*) FROM notes WHERE notes.document_id = documents.id) AS stored_chunks
+           FROM documents WHERE workflow_id = ? AND tenant_id = ?`
+        )
+        .bind(workflowId, this.tenantId)
+        .first();
+    } catch (error) {
+      this.logger.error(
+        'Failed to get ingestion',
+        error instanceof Error ? error : new Error(String(error)),
+        { workflowId }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Create a note/chunk linked to a document
+   */
+  async createNote(note: NoteRecord): Promise<void> {
+    await this.createNotes([note]);
+  }
+
+  /**
+   * Create notes in one D1 batch. Notes that already exist are left as they are,
+   * so creating the same notes again (a retried workflow step) adds no rows.
+   */
+  async createNotes(notes: NoteRecord[]): Promise<void> {
+    if (notes.length === 0) {
+      return;
+    }
+
+    this.logger.debug('Creating notes', {
+      count: notes.length,
+      documentId: notes[0].document_id,
+      chunkIndexes: notes.map(note => note.chunk_index),
+    });
+
+    try {
+      await this.db.batch(notes.flatMap(note => [
+        this.db
+          .prepare(
+            'INSERT OR IGNORE INTO notes (id, document_id, text, chunk_index, content_hash, tenant_id) VALUES (?, ?, ?, ?, ?, ?)'
+          )
+          .bind(note.id, note.document_id, note.text, note.chunk_index, note.content_hash ?? null, this.tenantId),
+        // Mirror into the full-text index used for keyword retrieval; it has no unique key, so replace any earlier row
+        this.db.prepare('DELETE FROM notes_fts WHERE note_id = ?').bind(note.id),
+        this.db
+          .prepare('INSERT INTO notes_fts (text, note_id, document_id) VALUES (?, ?, ?)')
+          .bind(note.text, note.id, note.document_id),
+      ]));
+
+      this.logger.debug('Notes created successfully', { count: notes.length });
+    } catch (error) {
+      this.logger.error(
+        'Failed to create notes',
+        error instanceof Error ? error : new Error(String(error)),
+        { count: notes.length, documentId: notes[0].document_id }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List a document's notes in chunk order
+   */
+  async listNotes(documentId: string): Promise<NoteRecord[]> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM notes WHERE document_id = ? AND tenant_id = ? ORDER BY chunk_index')
+        .bind(documentId, this.tenantId)
+        .all<NoteRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      this.logger.error(
+        'Failed to list notes',
+        error instanceof Error ? error : new Error(String(error)),
+        { documentId }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Delete individual notes from D1, the full-text index and Vectorize.
+   * IDs of notes belonging to another tenant are ignored.
+   */
+  async deleteNotes(noteIds: string[]): Promise<void> {
+    if (noteIds.length === 0) {
+      return;
+    }
+
+    this.logger.debug('Deleting notes', { count: noteIds.length });
+
+    try {
+      for (let i = 0; i < noteIds.length; i += DocumentStore.MAX_NOTE_DELETE) {
+        const requested = noteIds.slice(i, i + DocumentStore.MAX_NOTE_DELETE);
+        const owned = await this.db
+          .prepare(`SELECT id FROM notes WHERE id IN (${requested.map(() => '?').join(',')}) AND tenant_id = ?`)
+          .bind(...requested, this.tenantId)
+          .all<{ id: string }>();
+        const batch = owned.results?.map(n => n.id) || [];
+        if (batch.length === 0) continue;
+        const placeholders = batch.map(() => '?').join(',');
+
+        await this.vectorIndex.deleteByIds(batch);
+        await this.db
+          .prepare(`DELETE FROM notes_fts WHERE note_id IN (${placeholders})`)
+          .bind(...batch)
+          .run();
+        await this.db
+          .prepare(`DELETE FROM notes WHERE id IN (${placeholders})`)
+          .bind(...batch)
+          .run();
+      }
+
+      this.logger.debug('Notes deleted', { count: noteIds.length });
+    } catch (error) {
+      this.logger.error(
+        'Failed to delete notes',
+        error instanceof Error ? error : new Error(String(error)),
+        { count: noteIds.length }
       );
       throw error;
     }
@@ -231,49 +787,112 @@ export class DocumentStore {
 
   /**
    * Delete a document and all associated data (KV, D1, and Vectorize)
-   * Ensures complete cleanup across all storage layers to prevent orphaned data
+   * Ensures complete cleanup across all storage layers to prevent orphaned data.
+   * Never throws: a failure partway through is reported in the result together
+   * with the layers that were already cleaned.
    */
-  async deleteDocument(documentId: string): Promise<void> {
+  async deleteDocument(documentId: string): Promise<DeleteDocumentResult> {
     this.logger.info('Deleting document', { documentId });
     this.logger.startTimer(`deleteDocument:${documentId}`);
 
+    const result: DeleteDocumentResult = {
+      documentId,
+      status: 'failed',
+      vectorCount: 0,
+      cleaned: { vectors: false, kv: false, d1: false },
+    };
+
     try {
-      // Step 1: Retrieve associated note IDs before deletion (needed for Vectorize cleanup)
+      // Step 1: Check the document exists in either store
+      const kvKey = this.getDocumentKey(documentId);
+      const record = await this.db
+        .prepare('SELECT id FROM documents WHERE id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
+        .first<{ id: string }>();
+      const kvData = record ? null : await this.kv.get(kvKey);
+
+      if (!record && kvData === null) {
+        this.logger.warn('Document not found for deletion', { documentId });
+        this.logger.endTimer(`deleteDocument:${documentId}`, { found: false });
+        result.status = 'not_found';
+        return result;
+      }
+
+      // Step 2: Retrieve associated note IDs before deletion (needed for Vectorize cleanup)
       this.logger.debug('Retrieving associated notes for vector cleanup', { documentId });
       const notesResult = await this.db
-        .prepare('SELECT id FROM notes WHERE document_id = ?')
-        .bind(documentId)
+        .prepare('SELECT id FROM notes WHERE document_id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
         .all<{ id: string }>();
       const noteIds = notesResult.results?.map(n => n.id) || [];
+      result.vectorCount = noteIds.length;
       this.logger.debug('Found notes to delete', { documentId, count: noteIds.length });
 
-      // Step 2: Delete from Vectorize index
+      // Step 3: Delete from Vectorize index (in batches to respect the ID limit)
       if (noteIds.length > 0) {
         this.logger.debug('Deleting vectors from index', { documentId, vectorCount: noteIds.length });
-        await this.vectorIndex.deleteByIds(noteIds);
+        for (let i = 0; i < noteIds.length; i += DocumentStore.MAX_IDS) {
+          await this.vectorIndex.deleteByIds(noteIds.slice(i, i + DocumentStore.MAX_IDS));
+        }
         this.logger.debug('Vectors deleted from index', { documentId, vectorCount: noteIds.length });
       }
+      result.cleaned.vectors = true;
 
-      // Step 3: Delete from KV
-      const kvKey = this.getDocumentKey(documentId);
+      // Step 4: Delete from KV
       await this.kv.delete(kvKey);
+      result.cleaned.kv = true;
       this.logger.debug('Document deleted from KV', { kvKey });
 
-      // Step 4: Delete from D1 (notes will cascade delete due to foreign key)
+      // Step 5: Delete from D1 (notes will cascade delete due to foreign key;
+      // the full-text index is not covered by the cascade)
       await this.db
-        .prepare('DELETE FROM documents WHERE id = ?')
+        .prepare('DELETE FROM notes_fts WHERE document_id = ?')
         .bind(documentId)
         .run();
+      await this.db
+        .prepare('DELETE FROM documents WHERE id = ? AND tenant_id = ?')
+        .bind(documentId, this.tenantId)
+        .run();
+      result.cleaned.d1 = true;
+      result.status = 'deleted';
 
       this.logger.debug('Document deleted from D1', { documentId });
       this.logger.endTimer(`deleteDocument:${documentId}`, { success: true, vectorCount: noteIds.length });
+      return result;
     } catch (error) {
       this.logger.error(
         'Failed to delete document',
         error instanceof Error ? error : new Error(String(error)),
-        { documentId }
+        { documentId, cleaned: result.cleaned }
       );
       this.logger.endTimer(`deleteDocument:${documentId}`, { success: false });
+      result.error = error instanceof Error ? error.message : String(error);
+      return result;
+    }
+  }
+
+  /**
+   * Find IDs of documents matching a metadata filter (newest first)
+   */
+  async findDocumentIds(filter: DocumentFilter, limit = DocumentStore.MAX_IDS): Promise<string[]> {
+    const { clause, params } = buildDocumentFilterClause(filter);
+    this.logger.debug('Finding documents by filter', { filter, limit });
+
+    try {
+      const result = await this.db
+        .prepare(`SELECT id FROM documents WHERE tenant_id = ? AND ${clause} ORDER BY uploaded_at DESC LIMIT ?`)
+        .bind(this.tenantId, ...params, limit)
+        .all<{ id: string }>();
+
+      const ids = result.results?.map(r => r.id) || [];
+      this.logger.debug('Documents matched filter', { count: ids.length });
+      return ids;
+    } catch (error) {
+      this.logger.error(
+        'Failed to find documents by filter',
+        error instanceof Error ? error : new Error(String(error)),
+        { filter }
+      );
       throw error;
     }
   }
@@ -287,9 +906,9 @@ export class DocumentStore {
     try {
       const result = await this.db
         .prepare(
-          'SELECT * FROM documents ORDER BY uploaded_at DESC LIMIT ? OFFSET ?'
+          'SELECT * FROM documents WHERE tenant_id = ? ORDER BY uploaded_at DESC LIMIT ? OFFSET ?'
         )
-        .bind(limit, offset)
+        .bind(this.tenantId, limit, offset)
         .all<DocumentRecord>();
 
       const documents = result.results || [];
@@ -306,6 +925,69 @@ export class DocumentStore {
     }
   }
 
+  /**
+   * Narrow a set of document IDs to ready documents matching an optional filter
+   */
+  async filterDocumentIds(documentIds: string[], filter: DocumentFilter = {}): Promise<Set<string>> {
+    if (documentIds.length === 0) {
+      return new Set();
+    }
+
+    const limitedIds = documentIds.slice(0, DocumentStore.MAX_IDS);
+    const { clause, params } = buildDocumentFilterClause(filter);
+    const placeholders = limitedIds.map(() => '?').join(',');
+
+    try {
+      const result = await this.db
+        .prepare(`SELECT id FROM documents WHERE id IN (${placeholders}) AND tenant_id = ? AND status = 'ready' AND ${clause}`)
+        .bind(...limitedIds, this.tenantId, ...params)
+        .all<{ id: string }>();
+
+      const allowed = new Set(result.results?.map(r => r.id) || []);
+      this.logger.debug('Documents re-checked against filter', { requested: limitedIds.length, allowed: allowed.size });
+      return allowed;
+    } catch (error) {
+      this.logger.error(
+        'Failed to filter documents',
+        error instanceof Error ? error : new Error(String(error)),
+        { filter }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Keyword search over note chunks of ready documents using the FTS5 index (best match first)
+   * @param ftsQuery - A MATCH expression, see buildFtsQuery
+   */
+  async searchNotes(ftsQuery: string, limit: number, filter?: DocumentFilter): Promise<string[]> {
+    this.logger.debug('Searching notes by keyword', { ftsQuery, limit, filtered: !!filter });
+
+    try {
+      const { clause, params } = buildDocumentFilterClause(filter ?? {});
+      const result = await this.db
+        .prepare(
+          `SELECT notes_fts.note_id FROM notes_fts
+           JOIN documents ON documents.id = notes_fts.document_id
+           WHERE notes_fts MATCH ? AND documents.tenant_id = ? AND documents.status = 'ready' AND ${clause}
+           ORDER BY bm25(notes_fts) LIMIT ?`
+        )
+        .bind(ftsQuery, this.tenantId, ...params, limit)
+        .all<{ note_id: string }>();
+
+      const ids = result.results?.map(r => r.note_id) || [];
+      this.logger.debug('Keyword search complete', { matchCount: ids.length });
+      return ids;
+    } catch (error) {
+      this.logger.error(
+        'Failed to search notes by keyword',
+        error instanceof Error ? error : new Error(String(error)),
+        { ftsQuery }
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get notes by IDs (used for RAG query results)
    * Enforces a maximum limit on the number of IDs to prevent DoS/query size violations
@@ -331,8 +1013,8 @@ export class DocumentStore {
     try {
       const placeholders = limitedIds.map(() => '?').join(',');
       const result = await this.db
-        .prepare(`SELECT * FROM notes WHERE id IN (${placeholders})`)
-        .bind(...limitedIds)
+        .prepare(`SELECT * FROM notes WHERE id IN (${placeholders}) AND tenant_id = ?`)
+        .bind(...limitedIds, this.tenantId)
         .all<NoteRecord>();
 
       const notes = result.results || [];
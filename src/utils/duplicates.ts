@@ -0,0 +1,35 @@
+/**
+ * Duplicate documents
+ *
+ * Documents record the SHA-256 of their text, and ingestion checks it before a
+ * workflow starts. When the tenant already has a document with the same text,
+ * the duplicate policy decides the outcome: reject the request with 409, return
+ * the existing document, or ingest the text as a new version of the existing
+ * document, which supersedes it once the new version is ready.
+ */
+
+import { DuplicatePolicy, Env } from '../types';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['reject', 'return', 'version'];
+
+const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'reject';
+
+/**
+ * Parse a duplicate policy supplied by a request
+ */
+export function parseDuplicatePolicy(input: unknown): { value?: DuplicatePolicy; error?: string } {
+  if (input === undefined || input === null || input === '') {
+    return {};
+  }
+  if (typeof input !== 'string' || !DUPLICATE_POLICIES.includes(input as DuplicatePolicy)) {
+    return { error: `onDuplicate must be one of: ${DUPLICATE_POLICIES.join(', ')}` };
+  }
+  return { value: input as DuplicatePolicy };
+}
+
+/**
+ * Resolve the duplicate policy: request option, then DUPLICATE_POLICY, then reject
+ */
+export function resolveDuplicatePolicy(env: Env, requested?: DuplicatePolicy): DuplicatePolicy {
+  return requested ?? parseDuplicatePolicy(env.DUPLICATE_POLICY).value ?? DEFAULT_DUPLICATE_POLICY;
+}
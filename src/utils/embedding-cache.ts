@@ -0,0 +1,107 @@
+/**
+ * Embedding cache
+ *
+ * Embeddings are cached in the DOCUMENTS KV namespace, keyed by the embedding
+ * model, its dimensions and a SHA-256 hash of the normalized text, so identical
+ * chunks and repeated questions are embedded once. Changing EMBEDDING_MODEL
+ * changes every key, which invalidates the cache without a purge; entries of the
+ * old model expire on their own. Cache failures fall back to the model.
+ */
+
+import { Env } from '../types';
+import { Logger } from './logger';
+import { embedTexts, EmbeddingModel } from './embeddings';
+import { sha256Hex } from './hash';
+
+const DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+// KV rejects expirations shorter than a minute
+const MIN_TTL_SECONDS = 60;
+
+export interface CachedEmbeddings {
+  vectors: number[][]; // In the order of the texts
+  embeddedTexts: string[]; // Texts sent to the model: cache misses, each once
+}
+
+/**
+ * Resolve how long cached embeddings are kept from EMBEDDING_CACHE_TTL_SECONDS.
+ * 0 disables the cache; unset or invalid values use 30 days.
+ */
+export function resolveEmbeddingCacheTtl(env: Env): number {
+  const configured = Number(env.EMBEDDING_CACHE_TTL_SECONDS);
+  if (env.EMBEDDING_CACHE_TTL_SECONDS === undefined || !Number.isInteger(configured) || configured < 0) {
+    return DEFAULT_TTL_SECONDS;
+  }
+  return configured === 0 ? 0 : Math.max(configured, MIN_TTL_SECONDS);
+}
+
+/**
+ * Normalize text before hashing, so texts differing only in whitespace or Unicode form share an entry
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * KV key of a text's cached embedding for a model
+ */
+export async function embeddingCacheKey(model: EmbeddingModel, text: string): Promise<string> {
+  return `embedding:${model.name}:${model.dimensions}:${await sha256Hex(normalizeEmbeddingText(text))}`;
+}
+
+/**
+ * Read a cached vector, stored as float32 bytes; entries of the wrong size count as misses
+ */
+async function readCachedVector(env: Env, key: string, dimensions: number): Promise<number[] | null> {
+  const buffer = await env.DOCUMENTS.get(key, 'arrayBuffer');
+  if (!buffer || buffer.byteLength !== dimensions * Float32Array.BYTES_PER_ELEMENT) {
+    return null;
+  }
+  return Array.from(new Float32Array(buffer));
+}
+
+/**
+ * Embed texts with a model, reusing cached embeddings and caching new ones.
+ * Logs the number of cache hits and misses.
+ */
+export async function embedTextsCached(
+  env: Env,
+  logger: Logger,
+  model: EmbeddingModel,
+  texts: string[]
+): Promise<CachedEmbeddings> {
+  const ttl = resolveEmbeddingCacheTtl(env);
+  if (ttl === 0 || texts.length === 0) {
+    return { vectors: await embedTexts(env, model, texts), embeddedTexts: texts };
+  }
+
+  const log = logger.child({ component: 'EmbeddingCache' });
+  const keys = await Promise.all(texts.map(text => embeddingCacheKey(model, text)));
+
+  const cached = await Promise.all(keys.map(key => readCachedVector(env, key, model.dimensions).catch(error => {
+    log.warn('Failed to read cached embedding', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  })));
+
+  // Identical texts in one call are embedded once
+  const missingKeys = [...new Set(keys.filter((_, index) => !cached[index]))];
+  const missingTexts = missingKeys.map(key => texts[keys.indexOf(key)]);
+  const embedded = new Map<string, number[]>();
+  if (missingTexts.length > 0) {
+    const vectors = await embedTexts(env, model, missingTexts);
+    missingKeys.forEach((key, index) => embedded.set(key, vectors[index]));
+
+    await Promise.all(missingKeys.map((key, index) =>
+      env.DOCUMENTS.put(key, new Float32Array(vectors[index]).buffer, { expirationTtl: ttl }).catch(error => {
+        log.warn('Failed to cache embedding', { error: error instanceof Error ? error.message : String(error) });
+      })
+    ));
+  }
+
+  const hits = cached.filter(Boolean).length;
+  log.info('Embedding cache lookup', { model: model.name, hits, misses: texts.length - hits, embedded: missingTexts.length });
+
+  return {
+    vectors: keys.map((key, index) => cached[index] ?? embedded.get(key)!),
+    embeddedTexts: missingTexts,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Re-embedding jobs
+ *
+ * A job moves every ready document to a new embedding model. ReembedWorkflow
+ * records its progress here after each batch of documents: the cursor is the
+ * last document re-embedded, so a failed job can be resumed by a new workflow
+ * instance without redoing finished documents.
+ */
+
+import { EmbeddingJob, EmbeddingJobMode, EmbeddingJobStatus, Env } from '../types';
+import { EmbeddingModel } from './embeddings';
+
+/**
+ * Create a running job for a model
+ */
+export async function createEmbeddingJob(
+  env: Env,
+  model: EmbeddingModel,
+  mode: EmbeddingJobMode = 'reembed'
+): Promise<EmbeddingJob> {
+  const now = Date.now();
+  const job: EmbeddingJob = {
+    id: crypto.randomUUID(),
+    model: model.name,
+    dimensions: model.dimensions,
+    mode,
+    status: 'running',
+    workflow_id: null,
+    documents_total: 0,
+    documents_done: 0,
+    notes_done: 0,
+    cursor: null,
+    error: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await env.DATABASE.prepare(
+    'INSERT INTO embedding_jobs (id, model, dimensions, mode, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  )
+    .bind(job.id, job.model, job.dimensions, job.mode, job.status, now, now)
+    .run();
+
+  return job;
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getEmbeddingJob(env: Env, jobId: string): Promise<EmbeddingJob | null> {
+  return env.DATABASE.prepare('SELECT * FROM embedding_jobs WHERE id = ?').bind(jobId).first<EmbeddingJob>();
+}
+
+/**
+ * Get the most recent running job, if any
+ */
+export async function findRunningEmbeddingJob(env: Env): Promise<EmbeddingJob | null> {
+  return env.DATABASE.prepare(
+    "SELECT * FROM embedding_jobs WHERE status = 'running' ORDER BY created_at DESC LIMIT 1"
+  ).first<EmbeddingJob>();
+}
+
+/**
+ * Attach a workflow instance to a job and mark it running
+ */
+export async function assignEmbeddingJobWorkflow(env: Env, jobId: string, workflowId: string): Promise<void> {
+  await env.DATABASE.prepare(
+    "UPDATE embedding_jobs SET workflow_id = ?, status = 'running', error = NULL, updated_at = ? WHERE id = ?"
+  )
+    .bind(workflowId, Date.now(), jobId)
+    .run();
+}
+
+/**
+ * Set the number of documents the job covers
+ */
+export async function setEmbeddingJobTotal(env: Env, jobId: string, documentsTotal: number): Promise<void> {
+  await env.DATABASE.prepare('UPDATE embedding_jobs SET documents_total = ?, updated_at = ? WHERE id = ?')
+    .bind(documentsTotal, Date.now(), jobId)
+    .run();
+}
+
+/**
+ * Record a finished batch: advance the cursor and add to the document and note counts
+ */
+export async function recordEmbeddingJobBatch(
+  env: Env,
+  jobId: string,
+  cursor: string | null,
+  documents: number,
+  notes: number
+): Promise<void> {
+  await env.DATABASE.prepare(
+    `UPDATE embedding_jobs
+     SET cursor = ?, documents_done = documents_done + ?, notes_done = notes_done + ?, updated_at = ?
+     WHERE id = ?`
+  )
+    .bind(cursor, documents, notes, Date.now(), jobId)
+    .run();
+}
+
+/**
+ * Mark a job completed or failed
+ */
+export async function finishEmbeddingJob(
+  env: Env,
+  jobId: string,
+  status: Exclude<EmbeddingJobStatus, 'running'>,
+  error?: string
+): Promise<void> {
+  await env.DATABASE.prepare('UPDATE embedding_jobs SET status = ?, error = ?, updated_at = ? WHERE id = ?')
+    .bind(status, error ?? null, Date.now(), jobId)
+    .run();
+}
@@ -0,0 +1,94 @@
+/**
+ * Embedding models
+ *
+ * Resolves the Workers AI embedding model from EMBEDDING_MODEL and generates
+ * embeddings with it. The model name and dimensions are recorded with every
+ * vector and document, so vectors from different models are never compared
+ * and can be migrated with ReembedWorkflow.
+ */
+
+import { Env, VectorMetadata } from '../types';
+
+export interface EmbeddingModel {
+  name: string;
+  dimensions: number;
+}
+
+// The only model used before models were recorded; vectors without an embedding_model came from it
+export const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
+// Workers AI limits embedding requests to 100 texts
+export const MAX_EMBEDDING_BATCH = 100;
+
+// Chunks embedded and upserted per ingestion workflow step unless EMBEDDING_BATCH_SIZE is set
+const DEFAULT_INGEST_BATCH_SIZE = 50;
+
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  '@cf/baai/bge-small-en-v1.5': 384,
+  '@cf/baai/bge-base-en-v1.5': 768,
+  '@cf/baai/bge-large-en-v1.5': 1024,
+  '@cf/baai/bge-m3': 1024,
+};
+
+/**
+ * Resolve an embedding model and its dimensions.
+ * Defaults to EMBEDDING_MODEL; dimensions of unknown models come from the
+ * explicit argument or, for the configured model, EMBEDDING_DIMENSIONS.
+ */
+export function resolveEmbeddingModel(env: Env, name?: string, dimensions?: number): EmbeddingModel {
+  const configuredName = env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+  const modelName = name || configuredName;
+
+  const configuredDimensions = modelName === configuredName ? Number(env.EMBEDDING_DIMENSIONS) : NaN;
+  const resolvedDimensions = dimensions
+    ?? KNOWN_DIMENSIONS[modelName]
+    ?? (Number.isInteger(configuredDimensions) && configuredDimensions > 0 ? configuredDimensions : undefined);
+
+  if (!resolvedDimensions) {
+    throw new Error(`Unknown dimensions for embedding model "${modelName}". Set EMBEDDING_DIMENSIONS or pass dimensions.`);
+  }
+  return { name: modelName, dimensions: resolvedDimensions };
+}
+
+/**
+ * Resolve how many chunks ingestion embeds and upserts per workflow step from EMBEDDING_BATCH_SIZE.
+ * Unset or invalid values use 50; larger values are capped at the Workers AI limit.
+ */
+export function resolveEmbeddingBatchSize(env: Env): number {
+  const configured = Number(env.EMBEDDING_BATCH_SIZE);
+  if (!Number.isInteger(configured) || configured < 1) {
+    return DEFAULT_INGEST_BATCH_SIZE;
+  }
+  return Math.min(configured, MAX_EMBEDDING_BATCH);
+}
+
+/**
+ * The model that produced a vector, from its metadata
+ */
+export function vectorEmbeddingModel(metadata: Partial<VectorMetadata> | undefined): string {
+  return metadata?.embedding_model ?? DEFAULT_EMBEDDING_MODEL;
+}
+
+/**
+ * Embed texts with a model, in batches, checking that every vector has the model's dimensions
+ */
+export async function embedTexts(env: Env, model: EmbeddingModel, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += MAX_EMBEDDING_BATCH) {
+    const batch = texts.slice(i, i + MAX_EMBEDDING_BATCH);
+    const embeddings = await env.AI.run(model.name as any, { text: batch }) as { data?: number[][] };
+
+    if (!embeddings.data || embeddings.data.length !== batch.length) {
+      throw new Error(`Embedding model ${model.name} returned ${embeddings.data?.length ?? 0} vectors for ${batch.length} texts`);
+    }
+    for (const values of embeddings.data) {
+      if (values.length !== model.dimensions) {
+        throw new Error(`Embedding model ${model.name} returned ${values.length} dimensions, expected ${model.dimensions}`);
+      }
+      vectors.push(values);
+    }
+  }
+
+  return vectors;
+}
@@ -0,0 +1,99 @@
+/**
+ * Hybrid search helpers
+ *
+ * Builds safe FTS5 queries from free text and merges keyword and vector
+ * rankings with weighted reciprocal rank fusion (RRF).
+ */
+
+export const DEFAULT_KEYWORD_WEIGHT = 0.5;
+
+// Standard RRF damping constant; dampens the advantage of top-ranked items
+const RRF_K = 60;
+const MAX_FTS_TERMS = 32;
+
+// Common English words left out of keyword queries, since ORing them matches almost every chunk
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'for', 'from',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'me', 'more', 'most', 'my', 'no', 'nor', 'not', 'of', 'on', 'or', 'other', 'our', 'out',
+  'over', 'please', 'say', 'she', 'should', 'so', 'some', 'such', 'tell', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'to', 'too', 'under', 'up', 'us', 'very', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+export interface FusedRank {
+  id: string;
+  score: number;
+  vectorRank?: number;
+  keywordRank?: number;
+}
+
+/**
+ * Convert free text into an FTS5 MATCH expression.
+ * Every term is quoted so user input can never be interpreted as FTS5 syntax.
+ * Stopwords are dropped; returns null when the text contains no other terms.
+ */
+export function buildFtsQuery(text: string): string | null {
+  const terms = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_-]+/u)
+    .map(term => term.replace(/^[-_]+|[-_]+$/g, ''))
+    .filter(term => term.length > 0 && !STOPWORDS.has(term));
+
+  const unique = [...new Set(terms)].slice(0, MAX_FTS_TERMS);
+  if (unique.length === 0) {
+    return null;
+  }
+
+  return unique.map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+}
+
+/**
+ * Merge two ranked ID lists with weighted reciprocal rank fusion
+ */
+export function fuseRankings(vectorIds: string[], keywordIds: string[], keywordWeight: number): FusedRank[] {
+  const vectorWeight = 1 - keywordWeight;
+  const fused = new Map<string, FusedRank>();
+
+  const entry = (id: string): FusedRank => {
+    let rank = fused.get(id);
+    if (!rank) {
+      rank = { id, score: 0 };
+      fused.set(id, rank);
+    }
+    return rank;
+  };
+
+  vectorIds.forEach((id, index) => {
+    const rank = entry(id);
+    rank.vectorRank = index + 1;
+    rank.score += vectorWeight / (RRF_K + index + 1);
+  });
+
+  keywordIds.forEach((id, index) => {
+    const rank = entry(id);
+    rank.keywordRank = index + 1;
+    rank.score += keywordWeight / (RRF_K + index + 1);
+  });
+
+  return [...fused.values()]
+    .filter(rank => rank.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Validate a keyword weight supplied by a request (number or numeric string in [0, 1])
+ */
+export function parseKeywordWeight(input: unknown): { value?: number; error?: string } {
+  if (input === undefined || input === null || input === '') {
+    return {};
+  }
+
+  const value = typeof input === 'string' ? Number(input) : input;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    return { error: 'keywordWeight must be a number between 0 and 1' };
+  }
+
+  return { value };
+}
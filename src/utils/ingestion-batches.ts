@@ -0,0 +1,214 @@
+/**
+ * Batch ingestion
+ *
+ * POST /documents/batch takes many documents in one request, as NDJSON (one
+ * JSON document per line) or a JSON array. Each item is validated on its own;
+ * accepted items are started as RAG_WORKFLOW instances in groups with
+ * createBatch, and every item's outcome is recorded in D1 under a batch ID so
+ * the results and the progress of the ingested documents can be polled.
+ */
+
+import {
+  DocumentStatus,
+  Env,
+  IngestionBatchItem,
+  IngestionBatchItemRecord,
+  IngestionBatchProgress,
+  IngestionBatchRecord,
+} from '../types';
+
+export const MAX_BATCH_ITEMS = 1000;
+
+// createBatch accepts at most 100 instances and 1 MiB of parameters per call
+export const MAX_WORKFLOW_GROUP_SIZE = 100;
+export const MAX_WORKFLOW_GROUP_BYTES = 900 * 1024;
+
+// D1 binds at most 100 parameters per query, so item rows (8 parameters each) are inserted 12 at a time
+const ITEM_COLUMNS = 8;
+const MAX_ITEMS_PER_INSERT = Math.floor(100 / ITEM_COLUMNS);
+
+export interface BatchLine {
+  index: number;
+  value?: unknown; // Parsed item, unless the line is not valid JSON
+  error?: string;
+}
+
+/**
+ * Split a batch body into items: a JSON array, or NDJSON with one item per non-empty line.
+ * The format comes from the content type, or from the first character when it is not JSON or NDJSON.
+ */
+export function parseBatchBody(body: string, contentType: string | undefined): { items?: BatchLine[]; error?: string } {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  const isArray = type === 'application/json' || (type !== 'application/x-ndjson' && body.trimStart().startsWith('['));
+
+  let items: BatchLine[];
+  if (isArray) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return { error: 'Body must be a JSON array of documents' };
+    }
+    if (!Array.isArray(parsed)) {
+      return { error: 'Body must be a JSON array of documents' };
+    }
+    items = parsed.map((value, index) => ({ index, value }));
+  } else {
+    items = body.split('\n').filter(line => line.trim()).map((line, index) => {
+      try {
+        return { index, value: JSON.parse(line) };
+      } catch {
+        return { index, error: 'Line is not valid JSON' };
+      }
+    });
+  }
+
+  if (items.length === 0) {
+    return { error: 'Batch contains no documents' };
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    return { error: `Too many documents. Maximum per batch: ${MAX_BATCH_ITEMS}` };
+  }
+  return { items };
+}
+
+/**
+ * Group items for createBatch calls, keeping each group within the instance and size limits.
+ * Items larger than the size limit get a group of their own.
+ */
+export function groupForWorkflows<T>(
+  items: T[],
+  size: (item: T) => number,
+  maxCount = MAX_WORKFLOW_GROUP_SIZE,
+  maxBytes = MAX_WORKFLOW_GROUP_BYTES
+): T[][] {
+  const groups: T[][] = [];
+  let group: T[] = [];
+  let groupBytes = 0;
+
+  for (const item of items) {
+    const itemBytes = size(item);
+    if (group.length > 0 && (group.length >= maxCount || groupBytes + itemBytes > maxBytes)) {
+      groups.push(group);
+      group = [];
+      groupBytes = 0;
+    }
+    group.push(item);
+    groupBytes += itemBytes;
+  }
+  if (group.length > 0) {
+    groups.push(group);
+  }
+  return groups;
+}
+
+/**
+ * Public view of an item outcome; accepted items are pending until their workflow creates the document
+ */
+export function toBatchItem(record: IngestionBatchItemRecord, documentStatus?: DocumentStatus | null): IngestionBatchItem {
+  const item: IngestionBatchItem = {
+    index: record.item_index,
+    status: record.status,
+    title: record.title,
+    workflowId: record.workflow_id,
+    documentId: record.document_id,
+  };
+  if (record.previous_version_id) item.previousVersionId = record.previous_version_id;
+  if (record.status === 'accepted') item.documentStatus = documentStatus ?? 'pending';
+  if (record.error) item.error = record.error;
+  return item;
+}
+
+/**
+ * Record a batch and the outcome of each of its items. Items are inserted several rows per
+ * statement, so even the largest batch stays well within D1's per-invocation query limit.
+ */
+export async function createIngestionBatch(
+  env: Env,
+  batchId: string,
+  tenantId: string,
+  items: IngestionBatchItemRecord[]
+): Promise<IngestionBatchRecord> {
+  const batch: IngestionBatchRecord = {
+    id: batchId,
+    tenant_id: tenantId,
+    total: items.length,
+    accepted: items.filter(item => item.status === 'accepted').length,
+    rejected: items.filter(item => item.status === 'rejected').length,
+    duplicates: items.filter(item => item.status === 'duplicate').length,
+    created_at: Date.now(),
+  };
+
+  const itemInserts: D1PreparedStatement[] = [];
+  for (let i = 0; i < items.length; i += MAX_ITEMS_PER_INSERT) {
+    const group = items.slice(i, i + MAX_ITEMS_PER_INSERT);
+    itemInserts.push(env.DATABASE.prepare(
+      `INSERT INTO ingestion_batch_items (batch_id, item_index, status, title, workflow_id, document_id, previous_version_id, error)
+       VALUES ${group.map(() => `(${Array(ITEM_COLUMNS).fill('?').join(', ')})`).join(', ')}`
+    ).bind(...group.flatMap(item => [
+      batch.id,
+      item.item_index,
+      item.status,
+      item.title,
+      item.workflow_id,
+      item.document_id,
+      item.previous_version_id,
+      item.error,
+    ])));
+  }
+
+  await env.DATABASE.batch([
+    env.DATABASE.prepare(
+      'INSERT INTO ingestion_batches (id, tenant_id, total, accepted, rejected, duplicates, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).bind(batch.id, batch.tenant_id, batch.total, batch.accepted, batch.rejected, batch.duplicates, batch.created_at),
+    ...itemInserts,
+  ]);
+
+  return batch;
+}
+
+/**
+ * Report a batch with its items; accepted items count by the status of their documents
+ */
+export function toBatchProgress(batch: IngestionBatchRecord, items: IngestionBatchItem[]): IngestionBatchProgress {
+  const documents: Partial<Record<DocumentStatus, number>> = {};
+  for (const item of items) {
+    if (item.documentStatus) {
+      documents[item.documentStatus] = (documents[item.documentStatus] ?? 0) + 1;
+    }
+  }
+  return {
+    batchId: batch.id,
+    createdAt: batch.created_at,
+    total: batch.total,
+    accepted: batch.accepted,
+    rejected: batch.rejected,
+    duplicates: batch.duplicates,
+    documents,
+    items,
+  };
+}
+
+/**
+ * Get a tenant's batch with the current status of each accepted item's document.
+ * Returns null if the tenant has no such batch.
+ */
+export async function getIngestionBatch(env: Env, tenantId: string, batchId: string): Promise<IngestionBatchProgress | null> {
+  const batch = await env.DATABASE.prepare('SELECT * FROM ingestion_batches WHERE id = ? AND tenant_id = ?')
+    .bind(batchId, tenantId)
+    .first<IngestionBatchRecord>();
+  if (!batch) return null;
+
+  const { results } = await env.DATABASE.prepare(
+    `SELECT ingestion_batch_items.*, documents.status AS document_status
+     FROM ingestion_batch_items
+     LEFT JOIN documents ON ingestion_batch_items.status = 'accepted'
+       AND documents.workflow_id = ingestion_batch_items.workflow_id AND documents.tenant_id = ?
+     WHERE ingestion_batch_items.batch_id = ?
+     ORDER BY ingestion_batch_items.item_index ASC`
+  )
+    .bind(tenantId, batchId)
+    .all<IngestionBatchItemRecord & { document_status: DocumentStatus | null }>();
+
+  return toBatchProgress(batch, (results || []).map(row => toBatchItem(row, row.document_status)));
+}
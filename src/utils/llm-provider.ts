@@ -0,0 +1,287 @@
+/**
+ * LLM providers
+ *
+ * A common interface over the text generation backends:
+ * - anthropic: the Anthropic Messages API
+ * - workers-ai: Workers AI text generation models
+ * - openai: any OpenAI-compatible /chat/completions endpoint
+ *
+ * The provider is chosen by LLM_PROVIDER. Model, max tokens and temperature
+ * come from the request or fall back to configuration, and every provider
+ * reports the model used and token usage in the same shape.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { TextBlock } from '@anthropic-ai/sdk/resources';
+import { CompletionUsage, Env } from '../types';
+import { readAnthropicStream, readOpenAIStream, readWorkersAIStream } from './llm-stream';
+
+export const LLM_PROVIDERS = ['anthropic', 'workers-ai', 'openai'] as const;
+
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatTurn[];
+  model?: string; // Defaults to the configured model
+  maxTokens?: number; // Defaults to LLM_MAX_TOKENS
+  temperature?: number; // Defaults to LLM_TEMPERATURE
+}
+
+export interface CompletionResult {
+  provider: LLMProviderName;
+  model: string;
+  text: string;
+  usage: CompletionUsage | null; // Null when the provider does not report usage
+}
+
+/**
+ * Called after a completion made on the caller's behalf, so it can be counted toward usage
+ */
+export type CompletionObserver = (request: CompletionRequest, completion: CompletionResult, latencyMs: number) => void;
+
+export interface StreamingCompletion {
+  provider: LLMProviderName;
+  model: string;
+  tokens: AsyncGenerator<string>;
+  /** Set once `tokens` is exhausted, if the provider reported usage */
+  usage: CompletionUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): StreamingCompletion;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  anthropic: 'claude-haiku-4-5-20251001',
+  'workers-ai': '@cf/meta/llama-3.1-8b-instruct',
+  openai: 'gpt-4o-mini',
+};
+
+const DEFAULT_MAX_TOKENS = 2048;
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Resolve the provider, model, max tokens and temperature from the environment
+ */
+export function resolveLLMConfig(env: Env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || (env.ANTHROPIC_API_KEY ? 'anthropic' : 'workers-ai')) as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unsupported LLM_PROVIDER "${env.LLM_PROVIDER}". Supported providers: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  const providerModel = provider === 'anthropic' ? env.ANTHROPIC_MODEL : provider === 'openai' ? env.OPENAI_MODEL : undefined;
+  const maxTokens = Number(env.LLM_MAX_TOKENS);
+  const temperature = Number(env.LLM_TEMPERATURE);
+
+  return {
+    provider,
+    model: env.LLM_MODEL || providerModel || DEFAULT_MODELS[provider],
+    maxTokens: env.LLM_MAX_TOKENS && Number.isInteger(maxTokens) && maxTokens > 0 ? maxTokens : DEFAULT_MAX_TOKENS,
+    temperature: env.LLM_TEMPERATURE && Number.isFinite(temperature) && temperature >= 0 ? temperature : undefined,
+  };
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, private config: LLMConfig) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  private params(request: CompletionRequest) {
+    return {
+      model: request.model ?? this.config.model,
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+      system: request.system,
+      messages: request.messages,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const params = this.params(request);
+    const message = await this.client.messages.create(params);
+
+    return {
+      provider: this.name,
+      model: params.model,
+      text: message.content
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('\n'),
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+    };
+  }
+
+  stream(request: CompletionRequest): StreamingCompletion {
+    const params = this.params(request);
+    const completion: StreamingCompletion = {
+      provider: this.name,
+      model: params.model,
+      tokens: readAnthropicStream(this.client.messages.stream(params), usage => {
+        completion.usage = usage;
+      }),
+      usage: null,
+    };
+    return completion;
+  }
+}
+
+/**
+ * Workers AI text generation models
+ */
+class WorkersAIProvider implements LLMProvider {
+  readonly name = 'workers-ai';
+
+  constructor(private ai: Ai, private config: LLMConfig) {}
+
+  private params(request: CompletionRequest) {
+    return {
+      messages: [{ role: 'system', content: request.system }, ...request.messages],
+      max_tokens: request.maxTokens ?? this.config.maxTokens,
+      temperature: request.temperature ?? this.config.temperature,
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model ?? this.config.model;
+    const response = await this.ai.run(model as any, this.params(request)) as {
+      response?: string;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+
+    return {
+      provider: this.name,
+      model,
+      text: typeof response.response === 'string' ? response.response : '',
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens ?? 0, outputTokens: response.usage.completion_tokens ?? 0 }
+        : null,
+    };
+  }
+
+  stream(request: CompletionRequest): StreamingCompletion {
+    const model = request.model ?? this.config.model;
+    const ai = this.ai;
+    const params = this.params(request);
+
+    async function* tokens(): AsyncGenerator<string> {
+      const stream = await ai.run(model as any, { ...params, stream: true }) as ReadableStream<Uint8Array>;
+      yield* readWorkersAIStream(stream, usage => {
+        completion.usage = usage;
+      });
+    }
+
+    const completion: StreamingCompletion = { provider: this.name, model, tokens: tokens(), usage: null };
+    return completion;
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions over HTTP (OpenAI, Groq, Together, vLLM, Ollama, ...)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(private baseUrl: string, private apiKey: string | undefined, private config: LLMConfig) {}
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model ?? this.config.model,
+        messages: [{ role: 'system', content: request.system }, ...request.messages],
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        temperature: request.temperature ?? this.config.temperature,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible API returned ${response.status}: ${detail.slice(0, 500)}`);
+    }
+    return response;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(request, false);
+    const body = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+
+    return {
+      provider: this.name,
+      model: body.model ?? request.model ?? this.config.model,
+      text: body.choices?.[0]?.message?.content ?? '',
+      usage: body.usage
+        ? { inputTokens: body.usage.prompt_tokens ?? 0, outputTokens: body.usage.completion_tokens ?? 0 }
+        : null,
+    };
+  }
+
+  stream(request: CompletionRequest): StreamingCompletion {
+    const post = () => this.post(request, true);
+
+    async function* tokens(): AsyncGenerator<string> {
+      const response = await post();
+      if (!response.body) return;
+      yield* readOpenAIStream(response.body, usage => {
+        completion.usage = usage;
+      });
+    }
+
+    const completion: StreamingCompletion = {
+      provider: this.name,
+      model: request.model ?? this.config.model,
+      tokens: tokens(),
+      usage: null,
+    };
+    return completion;
+  }
+}
+
+/**
+ * Create the configured LLM provider
+ */
+export function createLLMProvider(env: Env): LLMProvider {
+  const config = resolveLLMConfig(env);
+
+  switch (config.provider) {
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('LLM_PROVIDER is anthropic but ANTHROPIC_API_KEY is not set');
+      }
+      return new AnthropicProvider(env.ANTHROPIC_API_KEY, config);
+    case 'openai':
+      return new OpenAICompatibleProvider(env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL, env.OPENAI_API_KEY, config);
+    case 'workers-ai':
+      return new WorkersAIProvider(env.AI, config);
+  }
+}
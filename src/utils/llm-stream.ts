@@ -0,0 +1,137 @@
+/**
+ * Streaming helpers for LLM completions
+ *
+ * Normalizes Anthropic, Workers AI and OpenAI-compatible streaming responses
+ * into async iterables of text tokens so routes can forward them as
+ * Server-Sent Events. Token usage, when a stream reports it, is passed to an
+ * optional callback.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { CompletionUsage } from '../types';
+
+export type UsageCallback = (usage: CompletionUsage) => void;
+
+/**
+ * Extract text deltas from an Anthropic message stream.
+ * Input tokens arrive with message_start and output tokens with message_delta.
+ */
+export async function* readAnthropicStream(
+  events: AsyncIterable<Anthropic.MessageStreamEvent>,
+  onUsage?: UsageCallback
+): AsyncGenerator<string> {
+  const usage: CompletionUsage = { inputTokens: 0, outputTokens: 0 };
+  let reported = false;
+
+  for await (const event of events) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      yield event.delta.text;
+    } else if (event.type === 'message_start') {
+      usage.inputTokens = event.message.usage?.input_tokens ?? 0;
+      reported = true;
+    } else if (event.type === 'message_delta') {
+      usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+      reported = true;
+    }
+  }
+
+  if (reported) onUsage?.(usage);
+}
+
+/**
+ * Yield the payload of each `data:` line of an SSE byte stream until the [DONE] sentinel
+ */
+export async function* readSSEData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = parseDataLine(line);
+        if (data === null) return;
+        if (data) yield data;
+      }
+    }
+
+    const data = parseDataLine(buffer);
+    if (data) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse one SSE line; returns '' for non-data lines and null on the [DONE] sentinel
+ */
+function parseDataLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return '';
+
+  const data = trimmed.slice('data:'.length).trim();
+  return data === '[DONE]' ? null : data;
+}
+
+/**
+ * Parse a JSON SSE payload, returning null for malformed data
+ */
+function parseJSON<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract text from a Workers AI SSE byte stream (`data: {"response": "..."}` lines)
+ */
+export async function* readWorkersAIStream(
+  stream: ReadableStream<Uint8Array>,
+  onUsage?: UsageCallback
+): AsyncGenerator<string> {
+  for await (const data of readSSEData(stream)) {
+    const parsed = parseJSON<{ response?: unknown; usage?: { prompt_tokens?: number; completion_tokens?: number } }>(data);
+    if (!parsed) continue;
+
+    if (typeof parsed.response === 'string' && parsed.response) {
+      yield parsed.response;
+    }
+    if (parsed.usage) {
+      onUsage?.({ inputTokens: parsed.usage.prompt_tokens ?? 0, outputTokens: parsed.usage.completion_tokens ?? 0 });
+    }
+  }
+}
+
+/**
+ * Extract text from an OpenAI-compatible chat completions SSE byte stream.
+ * Usage arrives in a final chunk when the request sets stream_options.include_usage.
+ */
+export async function* readOpenAIStream(
+  stream: ReadableStream<Uint8Array>,
+  onUsage?: UsageCallback
+): AsyncGenerator<string> {
+  for await (const data of readSSEData(stream)) {
+    const parsed = parseJSON<{
+      choices?: Array<{ delta?: { content?: unknown } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    }>(data);
+    if (!parsed) continue;
+
+    const content = parsed.choices?.[0]?.delta?.content;
+    if (typeof content === 'string' && content) {
+      yield content;
+    }
+    if (parsed.usage) {
+      onUsage?.({ inputTokens: parsed.usage.prompt_tokens ?? 0, outputTokens: parsed.usage.completion_tokens ?? 0 });
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Standalone question condensation
+ *
+ * Follow-up chat messages such as "what about the second one?" retrieve
+ * nothing useful on their own. When enabled, the follow-up is rewritten with
+ * the conversation history into a standalone search query, which is used for
+ * retrieval and stored with the user message.
+ */
+
+import { Env } from '../types';
+import { CompletionObserver, CompletionRequest, createLLMProvider } from './llm-provider';
+import { SummarizableMessage } from './conversation-summary';
+
+export const MAX_SEARCH_QUERY_LENGTH = 500;
+
+const CONDENSE_MAX_TOKENS = 128;
+
+// Recent messages given to the rewrite; older context comes from the conversation summary
+const CONDENSE_HISTORY_MESSAGES = 6;
+
+const CONDENSE_SYSTEM_PROMPT = `You rewrite the latest message of a conversation into a standalone search query for a document knowledge base.
+Resolve pronouns and references such as "it", "that one" or "the second one" using the conversation.
+Keep names, numbers and technical terms. Do not answer the question.
+If the message is already standalone, return it unchanged. Reply with the query only, on one line.`;
+
+/**
+ * Whether to condense follow-up questions: the request option, then CHAT_CONDENSE_QUESTIONS
+ */
+export function resolveCondenseQuestions(env: Env, requested?: boolean): boolean {
+  return requested ?? env.CHAT_CONDENSE_QUESTIONS === 'true';
+}
+
+/**
+ * Clean up a model-generated query: first non-empty line, without a "Query:" prefix or wrapping quotes
+ */
+export function cleanSearchQuery(raw: string): string {
+  const firstLine = raw.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+  return firstLine
+    .replace(/^(standalone )?(search )?(query|question):\s*/i, '')
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .trim()
+    .slice(0, MAX_SEARCH_QUERY_LENGTH);
+}
+
+/**
+ * Rewrite a follow-up message into a standalone search query.
+ * Returns the message unchanged when there is no earlier conversation or the model returns nothing.
+ */
+export async function condenseQuestion(
+  env: Env,
+  summary: string | null,
+  history: SummarizableMessage[],
+  message: string,
+  onCompletion?: CompletionObserver
+): Promise<string> {
+  if (history.length === 0 && !summary) {
+    return message;
+  }
+
+  const transcript = history
+    .slice(-CONDENSE_HISTORY_MESSAGES)
+    .map(entry => `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.content}`)
+    .join('\n\n');
+
+  const request: CompletionRequest = {
+    system: CONDENSE_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          summary ? `Summary of the earlier conversation:\n${summary}` : '',
+          transcript ? `Conversation:\n${transcript}` : '',
+          `Latest message:\n${message}`,
+        ].filter(Boolean).join('\n\n'),
+      },
+    ],
+    maxTokens: CONDENSE_MAX_TOKENS,
+    temperature: 0,
+  };
+  const started = Date.now();
+  const completion = await createLLMProvider(env).complete(request);
+  onCompletion?.(request, completion, Date.now() - started);
+
+  return cleanSearchQuery(completion.text) || message;
+}
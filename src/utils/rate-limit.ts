@@ -0,0 +1,224 @@
+/**
+ * Rate limits and daily token quotas
+ *
+ * AI-consuming routes are limited per API key, or per IP for requests without
+ * one. Request limits use a sliding window counter: the previous window's count
+ * is weighted by how much of it still overlaps the sliding window. Token quotas
+ * count the tokens used per UTC day. Counters live in D1 so limits are shared
+ * by every isolate and survive restarts; MemoryRateLimitStore stands in for tests.
+ */
+
+import { CompletionUsage, Env, RateLimitStore } from '../types';
+import { CompletionRequest } from './llm-provider';
+import { completionUsage } from './usage';
+
+export interface RateLimitConfig {
+  limit: number; // Requests per window
+  windowMs: number;
+  dailyTokenQuota?: number; // Unset means no quota
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the current window ends
+  retryAfterSeconds?: number; // Set when the request is not allowed
+}
+
+export interface TokenQuotaResult {
+  allowed: boolean;
+  quota: number;
+  used: number;
+  resetSeconds: number; // Until the next UTC midnight
+}
+
+const DEFAULT_LIMIT = 30;
+const DEFAULT_WINDOW_SECONDS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a positive integer environment variable, falling back to a default
+ */
+function positiveInteger(value: string | undefined, fallback?: number): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Resolve limits from RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_SECONDS and DAILY_TOKEN_QUOTA
+ */
+export function resolveRateLimitConfig(env: Env): RateLimitConfig {
+  return {
+    limit: positiveInteger(env.RATE_LIMIT_REQUESTS, DEFAULT_LIMIT)!,
+    windowMs: positiveInteger(env.RATE_LIMIT_WINDOW_SECONDS, DEFAULT_WINDOW_SECONDS)! * 1000,
+    dailyTokenQuota: positiveInteger(env.DAILY_TOKEN_QUOTA),
+  };
+}
+
+/**
+ * Counters in the rate_limit_counters table
+ */
+export class D1RateLimitStore implements RateLimitStore {
+  constructor(private db: D1Database) {}
+
+  async get(key: string): Promise<number> {
+    const row = await this.db.prepare('SELECT count FROM rate_limit_counters WHERE key = ?')
+      .bind(key)
+      .first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const row = await this.db.prepare(
+      `INSERT INTO rate_limit_counters (key, count, expires_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET count = count + excluded.count
+       RETURNING count`
+    )
+      .bind(key, amount, expiresAt)
+      .first<{ count: number }>();
+    return row?.count ?? amount;
+  }
+
+  /**
+   * Delete counters whose window or day has passed
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    const result = await this.db.prepare('DELETE FROM rate_limit_counters WHERE expires_at <= ?').bind(now).run();
+    return result.meta.changes;
+  }
+}
+
+/**
+ * Counters in memory, for tests and local development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async get(key: string): Promise<number> {
+    return this.counters.get(key)?.count ?? 0;
+  }
+
+  async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+    const counter = this.counters.get(key) ?? { count: 0, expiresAt };
+    counter.count += amount;
+    this.counters.set(key, counter);
+    return counter.count;
+  }
+}
+
+/**
+ * Create the shared store backed by DATABASE
+ */
+export function createRateLimitStore(env: Env): D1RateLimitStore {
+  return new D1RateLimitStore(env.DATABASE);
+}
+
+/**
+ * Identity limits are counted against: the API key, or the client IP without one
+ */
+export function rateLimitIdentity(keyId: string | null | undefined, clientIp: string | undefined): string {
+  if (keyId) return `key:${keyId}`;
+  if (keyId === null) return 'key:admin'; // ADMIN_API_KEY has no stored ID
+  return `ip:${clientIp || 'unknown'}`;
+}
+
+/**
+ * Check a request against the sliding window limit and count it if it is allowed
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  identity: string,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = config;
+  const window = Math.floor(now / windowMs);
+  const elapsed = (now % windowMs) / windowMs;
+  const resetSeconds = Math.ceil((windowMs - (now % windowMs)) / 1000);
+
+  const [previous, current] = await Promise.all([
+    store.get(`rate:${identity}:${window - 1}`),
+    store.get(`rate:${identity}:${window}`),
+  ]);
+  const estimated = previous * (1 - elapsed) + current;
+
+  if (estimated + 1 > limit) {
+    // Wait until enough of the previous window has slid out, or for the next window if this one is full
+    let waitMs: number;
+    if (current + 1 <= limit) {
+      const neededElapsed = 1 - (limit - current - 1) / previous;
+      waitMs = (neededElapsed - elapsed) * windowMs;
+    } else {
+      const neededElapsed = Math.max(0, 1 - (limit - 1) / current);
+      waitMs = (1 - elapsed) * windowMs + neededElapsed * windowMs;
+    }
+    return { allowed: false, limit, remaining: 0, resetSeconds, retryAfterSeconds: Math.max(1, Math.ceil(waitMs / 1000)) };
+  }
+
+  // Kept until the window after next, while it still counts as the previous window
+  await store.increment(`rate:${identity}:${window}`, 1, (window + 2) * windowMs);
+  return { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - estimated - 1)), resetSeconds };
+}
+
+function tokenKey(identity: string, now: number): string {
+  return `tokens:${identity}:${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+function nextUtcMidnight(now: number): number {
+  return (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+}
+
+/**
+ * Check whether an identity has tokens left in today's quota
+ */
+export async function checkTokenQuota(
+  store: RateLimitStore,
+  identity: string,
+  quota: number,
+  now: number = Date.now()
+): Promise<TokenQuotaResult> {
+  const used = await store.get(tokenKey(identity, now));
+  return {
+    allowed: used < quota,
+    quota,
+    used,
+    resetSeconds: Math.ceil((nextUtcMidnight(now) - now) / 1000),
+  };
+}
+
+/**
+ * Add tokens to an identity's usage for today
+ */
+export async function recordTokenUsage(
+  store: RateLimitStore,
+  identity: string,
+  tokens: number,
+  now: number = Date.now()
+): Promise<number> {
+  return store.increment(tokenKey(identity, now), Math.max(0, Math.round(tokens)), nextUtcMidnight(now));
+}
+
+/**
+ * Tokens used by a completion: the reported usage, or an estimate from the prompt and answer
+ */
+export function completionTokenCount(request: CompletionRequest, answer: string, usage: CompletionUsage | null): number {
+  const { inputTokens, outputTokens } = completionUsage(request, answer, usage).usage;
+  return inputTokens + outputTokens;
+}
+
+/**
+ * RateLimit-* response headers (IETF draft names) describing a limit check
+ */
+export function rateLimitHeaders(result: RateLimitResult, config: RateLimitConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(config.windowMs / 1000)}`,
+  };
+  if (result.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
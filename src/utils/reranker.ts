@@ -0,0 +1,65 @@
+/**
+ * Second-stage reranking of retrieved chunks
+ *
+ * Retrieval fetches a larger candidate set than it returns; a cross-encoder
+ * reranker scores each candidate against the query and the best topK are
+ * kept. The Workers AI reranker is the default, and any implementation of the
+ * Reranker interface can be passed to retrieveNotes instead.
+ */
+
+import { Env, Reranker } from '../types';
+
+export const DEFAULT_RERANK_MODEL = '@cf/baai/bge-reranker-base';
+
+/**
+ * Workers AI reranker models (`{ query, contexts }` in, `{ response: [{ id, score }] }` out)
+ */
+export class WorkersAIReranker implements Reranker {
+  constructor(private ai: Ai, readonly model: string = DEFAULT_RERANK_MODEL) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const result = await this.ai.run(this.model as any, {
+      query,
+      contexts: documents.map(text => ({ text })),
+      top_k: documents.length,
+    }) as { response?: Array<{ id?: number; score?: number }> };
+
+    const scores = new Array<number>(documents.length).fill(Number.NEGATIVE_INFINITY);
+    for (const entry of result.response ?? []) {
+      if (typeof entry.id === 'number' && typeof entry.score === 'number' && entry.id >= 0 && entry.id < documents.length) {
+        scores[entry.id] = entry.score;
+      }
+    }
+    return scores;
+  }
+}
+
+/**
+ * Whether to rerank: the request option, then ENABLE_RERANKING
+ */
+export function resolveRerankEnabled(env: Env, requested?: boolean): boolean {
+  return requested ?? env.ENABLE_RERANKING === 'true';
+}
+
+/**
+ * Create the reranker configured by RERANK_MODEL
+ */
+export function createReranker(env: Env): Reranker {
+  return new WorkersAIReranker(env.AI, env.RERANK_MODEL || DEFAULT_RERANK_MODEL);
+}
+
+/**
+ * Parse a rerank option from a query parameter or request body
+ */
+export function parseRerankOption(value: unknown): { value?: boolean; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (value === true || value === 'true') return { value: true };
+  if (value === false || value === 'false') return { value: false };
+  return { error: 'rerank must be true or false' };
+}
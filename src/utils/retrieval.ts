@@ -0,0 +1,228 @@
+/**
+ * Retrieval - Hybrid keyword + vector search over note chunks
+ *
+ * Runs Vectorize similarity search and FTS5 keyword search, merges the two
+ * rankings with weighted reciprocal rank fusion and loads the winning notes
+ * from D1. Only chunks of the tenant's ready documents are returned, and only
+ * vectors from the configured embedding model are compared with the query. Vector matches
+ * below the similarity thresholds are dropped before fusion, and keyword matches
+ * without a passing vector match must reach the minimum similarity too, so term
+ * overlap alone never puts an off-topic chunk in the prompt. An optional document
+ * filter is pushed down to both searches and re-checked against D1. With
+ * reranking, the full candidate set is rescored by a reranker before keeping
+ * topK. Shared by the query (GET /) and chat endpoints.
+ */
+
+import { Env, RetrievalOptions, RetrievedNote, VectorMetadata } from '../types';
+import { Logger } from './logger';
+import { DocumentStore } from './document-store';
+import { buildFtsQuery, fuseRankings, DEFAULT_KEYWORD_WEIGHT } from './hybrid-search';
+import { toVectorizeFilter } from './document-filter';
+import { resolveEmbeddingModel, vectorEmbeddingModel } from './embeddings';
+import { embedTextsCached } from './embedding-cache';
+import { createReranker, resolveRerankEnabled } from './reranker';
+import { applySimilarityCutoff, cosineSimilarity, resolveSimilarityThresholds } from './similarity-cutoff';
+import { DEFAULT_TENANT_ID, vectorNamespace, vectorTenantFilter, vectorTenantId } from './tenant';
+
+const DEFAULT_TOP_K = 3;
+const MAX_CANDIDATES = 20;
+// Vectors are returned with their values, so IDs are looked up a few at a time
+const MAX_VECTOR_LOOKUP = 20;
+
+/**
+ * Resolve the keyword weight: request option, then HYBRID_KEYWORD_WEIGHT, then the default
+ */
+function resolveKeywordWeight(env: Env, requested?: number): number {
+  if (requested !== undefined) {
+    return requested;
+  }
+  const configured = Number(env.HYBRID_KEYWORD_WEIGHT);
+  if (env.HYBRID_KEYWORD_WEIGHT !== undefined && Number.isFinite(configured) && configured >= 0 && configured <= 1) {
+    return configured;
+  }
+  return DEFAULT_KEYWORD_WEIGHT;
+}
+
+/**
+ * Retrieve the most relevant notes for a query
+ */
+export async function retrieveNotes(
+  env: Env,
+  logger: Logger,
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedNote[]> {
+  const log = logger.child({ component: 'Retrieval' });
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const keywordWeight = resolveKeywordWeight(env, options.keywordWeight);
+  const rerank = resolveRerankEnabled(env, options.rerank);
+  const thresholds = resolveSimilarityThresholds(env, options);
+  // The reranker gets the largest candidate set, since it is what decides the final order
+  const candidateCount = rerank ? MAX_CANDIDATES : Math.min(Math.max(topK * 3, 10), MAX_CANDIDATES);
+  const tenantId = options.tenantId ?? DEFAULT_TENANT_ID;
+  const docStore = new DocumentStore(env, logger, tenantId);
+
+  log.debug('Retrieving notes', { tenantId, topK, keywordWeight, candidateCount, rerank, thresholds, filter: options.filter });
+
+  const model = resolveEmbeddingModel(env);
+  let queryVector: Promise<number[]> | undefined;
+  const embedQuery = (): Promise<number[]> => queryVector ??= embedTextsCached(env, logger, model, [query]).then(({ vectors: [vector], embeddedTexts }) => {
+    log.debug('Embeddings generated', { model: model.name, vectorDimensions: vector.length });
+    if (embeddedTexts.length > 0) options.onQueryEmbedded?.(model.name, embeddedTexts);
+    return vector;
+  });
+  // Similarity of every vector match of the tenant and model, including those the cutoff dropped
+  const similarities = new Map<string, number>();
+
+  const vectorSearch = async (): Promise<Map<string, number>> => {
+    if (keywordWeight >= 1) return new Map();
+
+    const vectors = await embedQuery();
+
+    const vectorFilter = { ...(options.filter && toVectorizeFilter(options.filter)), ...vectorTenantFilter(env, tenantId) };
+    const vectorQuery = await env.VECTOR_INDEX.query(vectors, {
+      topK: candidateCount,
+      filter: Object.keys(vectorFilter).length ? vectorFilter : undefined,
+      namespace: vectorNamespace(tenantId),
+      returnMetadata: 'all',
+    });
+
+    // Vectors upserted before the tenant_id metadata index existed escape the filter
+    const tenantMatches = vectorQuery.matches.filter(
+      m => vectorTenantId(m.metadata as Partial<VectorMetadata> | undefined) === tenantId
+    );
+
+    // Scores against vectors from another model are meaningless (documents not yet re-embedded)
+    const matches = tenantMatches.filter(
+      m => vectorEmbeddingModel(m.metadata as Partial<VectorMetadata> | undefined) === model.name
+    );
+    if (matches.length < tenantMatches.length) {
+      log.warn('Ignoring vectors from another embedding model', {
+        model: model.name,
+        ignored: tenantMatches.length - matches.length,
+      });
+    }
+
+    matches.forEach(m => similarities.set(m.id, m.score));
+    const passing = applySimilarityCutoff(matches, thresholds);
+    if (passing.length < matches.length) {
+      log.debug('Weak vector matches dropped', { kept: passing.length, dropped: matches.length - passing.length });
+    }
+    return new Map(passing.map(m => [m.id, m.score]));
+  };
+
+  const keywordSearch = async (): Promise<string[]> => {
+    if (keywordWeight <= 0) return [];
+
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    try {
+      return await docStore.searchNotes(ftsQuery, candidateCount, options.filter);
+    } catch (error) {
+      // Keyword search is an enhancement; fall back to vector-only results
+      log.warn('Keyword search failed, using vector results only', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  };
+
+  // Keyword matches the vector search did not pass are scored against the query themselves
+  const passingKeywordMatches = async (keywordIds: string[], vectorScores: Map<string, number>): Promise<string[]> => {
+    const keywordOnly = keywordIds.filter(id => !vectorScores.has(id));
+    if (thresholds.minSimilarity <= 0 || keywordOnly.length === 0) return keywordIds;
+
+    const unscored = keywordOnly.filter(id => !similarities.has(id));
+    if (unscored.length > 0) {
+      const vector = await embedQuery();
+      for (let i = 0; i < unscored.length; i += MAX_VECTOR_LOOKUP) {
+        const stored = await env.VECTOR_INDEX.getByIds(unscored.slice(i, i + MAX_VECTOR_LOOKUP));
+        for (const match of stored) {
+          // Vectors of another model cannot be compared with the query
+          if (vectorEmbeddingModel(match.metadata as Partial<VectorMetadata> | undefined) !== model.name) continue;
+          similarities.set(match.id, cosineSimilarity(vector, Array.from(match.values)));
+        }
+      }
+    }
+
+    const passing = keywordIds.filter(id => vectorScores.has(id) || (similarities.get(id) ?? 0) >= thresholds.minSimilarity);
+    if (passing.length < keywordIds.length) {
+      log.debug('Weak keyword matches dropped', { kept: passing.length, dropped: keywordIds.length - passing.length });
+    }
+    return passing;
+  };
+
+  const [vectorScores, keywordMatches] = await Promise.all([vectorSearch(), keywordSearch()]);
+  const keywordIds = await passingKeywordMatches(keywordMatches, vectorScores);
+  log.info('Search complete', { vectorMatches: vectorScores.size, keywordMatches: keywordIds.length });
+
+  // Load every candidate so the D1 re-check below can still fill topK
+  const candidates = fuseRankings([...vectorScores.keys()], keywordIds, keywordWeight);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const notes = await docStore.getNotesByIds(candidates.map(rank => rank.id));
+  const noteMap = new Map(notes.map(note => [note.id, note]));
+
+  // Re-check against D1: skips other tenants' documents and documents that are still ingesting or failed,
+  // covers tags, which Vectorize cannot filter on, and guards against stale
+  // metadata copied into vectors
+  const allowedDocuments = await docStore.filterDocumentIds(
+    [...new Set(notes.map(note => note.document_id))],
+    options.filter
+  );
+
+  const eligible: RetrievedNote[] = [];
+  for (const rank of candidates) {
+    if (!rerank && eligible.length >= topK) break;
+    const note = noteMap.get(rank.id);
+    if (!note) continue;
+    if (!allowedDocuments.has(note.document_id)) continue;
+    eligible.push({
+      ...note,
+      score: rank.score,
+      similarity: vectorScores.get(rank.id) ?? similarities.get(rank.id),
+      keywordRank: rank.keywordRank,
+    });
+  }
+
+  const retrieved = rerank && eligible.length > 1
+    ? await rerankNotes(env, log, query, eligible, options)
+    : eligible;
+
+  log.info('Retrieved notes', { count: Math.min(retrieved.length, topK), candidates: eligible.length });
+  return retrieved.slice(0, topK);
+}
+
+/**
+ * Order notes by reranker score, keeping the fused order if the reranker fails
+ */
+async function rerankNotes(
+  env: Env,
+  log: Logger,
+  query: string,
+  notes: RetrievedNote[],
+  options: RetrievalOptions
+): Promise<RetrievedNote[]> {
+  const reranker = options.reranker ?? createReranker(env);
+
+  try {
+    const scores = await reranker.rerank(query, notes.map(note => note.text));
+    const reranked = notes
+      .map((note, index) => ({ note, rerankScore: scores[index] ?? Number.NEGATIVE_INFINITY }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .map(({ note, rerankScore }) => Number.isFinite(rerankScore) ? { ...note, rerankScore } : note);
+
+    log.debug('Candidates reranked', { model: reranker.model, count: notes.length });
+    return reranked;
+  } catch (error) {
+    // Reranking only refines the order; fall back to the fused ranking
+    log.warn('Reranking failed, using fused ranking', {
+      model: reranker.model,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return notes;
+  }
+}
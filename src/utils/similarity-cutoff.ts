@@ -0,0 +1,78 @@
+/**
+ * Similarity thresholds for vector matches
+ *
+ * Weak vector matches are dropped before rank fusion so they never reach the
+ * prompt: matches below a minimum similarity, and an adaptive cutoff that stops
+ * at the first large drop in similarity between consecutive matches, so the
+ * number of chunks kept follows the shape of the scores instead of a fixed topK.
+ * Keyword matches are held to the same minimum similarity.
+ */
+
+import { Env } from '../types';
+
+export interface SimilarityThresholds {
+  minSimilarity: number; // Matches scoring below this are dropped; 0 keeps all
+  maxScoreGap?: number; // Stop at the first drop between consecutive matches larger than this
+}
+
+/**
+ * Parse a threshold between 0 and 1 supplied by a request (number or numeric string)
+ */
+export function parseThreshold(name: string, input: unknown): { value?: number; error?: string } {
+  if (input === undefined || input === null || input === '') {
+    return {};
+  }
+
+  const value = typeof input === 'string' ? Number(input) : input;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    return { error: `${name} must be a number between 0 and 1` };
+  }
+
+  return { value };
+}
+
+/**
+ * Resolve thresholds: request options, then RETRIEVAL_MIN_SIMILARITY and RETRIEVAL_MAX_SCORE_GAP.
+ * Both are disabled by default, since useful values depend on the embedding model.
+ */
+export function resolveSimilarityThresholds(
+  env: Env,
+  requested: { minSimilarity?: number; maxScoreGap?: number } = {}
+): SimilarityThresholds {
+  return {
+    minSimilarity: requested.minSimilarity ?? parseThreshold('RETRIEVAL_MIN_SIMILARITY', env.RETRIEVAL_MIN_SIMILARITY).value ?? 0,
+    maxScoreGap: requested.maxScoreGap ?? parseThreshold('RETRIEVAL_MAX_SCORE_GAP', env.RETRIEVAL_MAX_SCORE_GAP).value,
+  };
+}
+
+/**
+ * Keep the matches that pass the thresholds, best first
+ */
+export function applySimilarityCutoff<T extends { score: number }>(matches: T[], thresholds: SimilarityThresholds): T[] {
+  const sorted = [...matches].sort((a, b) => b.score - a.score);
+  const kept: T[] = [];
+
+  for (const match of sorted) {
+    if (match.score < thresholds.minSimilarity) break;
+    const previous = kept[kept.length - 1];
+    if (previous && thresholds.maxScoreGap !== undefined && previous.score - match.score > thresholds.maxScoreGap) break;
+    kept.push(match);
+  }
+
+  return kept;
+}
+
+/**
+ * Cosine similarity of two vectors, the score Vectorize reports for a cosine index
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,62 @@
+/**
+ * Tenants
+ *
+ * Every request acts for one tenant, taken from the X-Tenant-ID header; requests
+ * without it use the default tenant, which also owns everything created before
+ * tenants existed. Documents, notes and conversations carry a tenant_id in D1,
+ * KV keys are prefixed per tenant, and vectors are written to a Vectorize
+ * namespace per tenant with the tenant recorded in their metadata. The default
+ * tenant's vectors have no namespace, so once DEFAULT_TENANT_VECTOR_FILTER is set
+ * its queries filter on that metadata.
+ */
+
+import { Env, VectorMetadata } from '../types';
+
+export const DEFAULT_TENANT_ID = 'default';
+
+export const TENANT_HEADER = 'X-Tenant-ID';
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Parse a tenant ID from a request header; absent or empty means the default tenant
+ */
+export function parseTenantId(input: string | undefined | null): { value?: string; error?: string } {
+  if (input === undefined || input === null || input.trim() === '') {
+    return { value: DEFAULT_TENANT_ID };
+  }
+
+  const value = input.trim();
+  if (!TENANT_ID_PATTERN.test(value)) {
+    return { error: `${TENANT_HEADER} must be 1-64 letters, digits, hyphens or underscores` };
+  }
+
+  return { value };
+}
+
+/**
+ * Vectorize namespace for a tenant's vectors.
+ * The default tenant keeps the unnamespaced vectors written before tenants existed.
+ */
+export function vectorNamespace(tenantId: string): string | undefined {
+  return tenantId === DEFAULT_TENANT_ID ? undefined : tenantId;
+}
+
+/**
+ * Vectorize filter conditions keeping a query to the tenant's vectors. An unnamespaced query
+ * also sees every namespace, so the default tenant's queries match the tenant_id metadata,
+ * but only once DEFAULT_TENANT_VECTOR_FILTER says a tenant-metadata job has indexed the
+ * vectors written before the index existed; until then they would not match at all.
+ */
+export function vectorTenantFilter(env: Env, tenantId: string): VectorizeVectorMetadataFilter {
+  return tenantId === DEFAULT_TENANT_ID && env.DEFAULT_TENANT_VECTOR_FILTER === 'true'
+    ? { tenant_id: { $eq: DEFAULT_TENANT_ID } }
+    : {};
+}
+
+/**
+ * The tenant that owns a vector, from its metadata
+ */
+export function vectorTenantId(metadata: Partial<VectorMetadata> | undefined): string {
+  return metadata?.tenant_id ?? DEFAULT_TENANT_ID;
+}
@@ -0,0 +1,110 @@
+/**
+ * Text extraction for uploaded files
+ *
+ * Detects the type of an uploaded file and converts it into text suitable
+ * for chunking and embedding:
+ * - text/plain: decoded as-is
+ * - text/markdown: decoded as-is so heading and list structure survives chunking
+ * - text/html: markup stripped, block structure kept as line breaks
+ * - application/pdf: text layer extracted page by page
+ */
+
+import { extractText as extractPdfText } from 'unpdf';
+
+export const SUPPORTED_UPLOAD_TYPES = ['text/plain', 'text/markdown', 'text/html', 'application/pdf'] as const;
+
+export type UploadContentType = (typeof SUPPORTED_UPLOAD_TYPES)[number];
+
+const EXTENSION_TYPES: Record<string, UploadContentType> = {
+  txt: 'text/plain',
+  text: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  pdf: 'application/pdf',
+};
+
+const MIME_ALIASES: Record<string, UploadContentType> = {
+  'text/x-markdown': 'text/markdown',
+  'application/xhtml+xml': 'text/html',
+  'application/x-pdf': 'application/pdf',
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Detect the content type of an upload from its bytes, declared MIME type and filename.
+ * PDF magic bytes take precedence, then a supported declared type, then the file extension.
+ * Returns null for unsupported files.
+ */
+export function detectContentType(
+  bytes: Uint8Array,
+  filename: string,
+  declaredType?: string
+): UploadContentType | null {
+  if (bytes.length >= 5 && new TextDecoder().decode(bytes.subarray(0, 5)) === '%PDF-') {
+    return 'application/pdf';
+  }
+
+  const mime = (declaredType || '').split(';')[0].trim().toLowerCase();
+  if ((SUPPORTED_UPLOAD_TYPES as readonly string[]).includes(mime)) {
+    return mime as UploadContentType;
+  }
+  if (MIME_ALIASES[mime]) {
+    return MIME_ALIASES[mime];
+  }
+
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_TYPES[extension] ?? null;
+}
+
+/**
+ * Convert HTML to readable plain text
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|header|footer|h[1-6]|ul|ol|table|tr|blockquote|pre)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extract text from an uploaded file of a supported type
+ */
+export async function extractText(bytes: Uint8Array, contentType: UploadContentType): Promise<string> {
+  switch (contentType) {
+    case 'application/pdf': {
+      const { text } = await extractPdfText(bytes, { mergePages: false });
+      return text.map(page => page.trim()).filter(Boolean).join('\n\n');
+    }
+    case 'text/html':
+      return htmlToText(new TextDecoder().decode(bytes));
+    case 'text/markdown':
+    case 'text/plain':
+      return new TextDecoder().decode(bytes).replace(/\r\n?/g, '\n').trim();
+  }
+}
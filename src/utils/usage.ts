@@ -0,0 +1,278 @@
+/**
+ * Usage and cost accounting
+ *
+ * Every chat answer and GET / answer records the model, input and output
+ * tokens, latency and estimated cost in the usage_events table, as do the
+ * title, summary and condensation calls made for a chat. Query embeddings and
+ * ingestion record their embedding calls. Tokens come from the
+ * usage the provider reports, or are estimated from the text when it reports
+ * none. Costs use built-in list prices, which MODEL_PRICING can extend or
+ * override; models without a price are recorded without a cost.
+ */
+
+import { CompletionUsage, Env, ModelPrice, UsageEvent, UsageKind, UsageReport, UsageTotals } from '../types';
+import { estimateTokens } from './conversation-summary';
+import { CompletionRequest } from './llm-provider';
+
+// USD per million tokens. Workers AI prices are its published per-token equivalents.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  '@cf/meta/llama-3.1-8b-instruct': { input: 0.282, output: 0.827 },
+  '@cf/baai/bge-small-en-v1.5': { input: 0.02, output: 0 },
+  '@cf/baai/bge-base-en-v1.5': { input: 0.067, output: 0 },
+  '@cf/baai/bge-large-en-v1.5': { input: 0.204, output: 0 },
+  '@cf/baai/bge-m3': { input: 0.012, output: 0 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+const MAX_REPORT_CONVERSATIONS = 50;
+
+export interface UsageInput {
+  id?: string; // A deterministic ID makes recording idempotent, e.g. for workflow steps that may retry
+  tenantId: string;
+  kind: UsageKind;
+  provider: string | null;
+  model: string;
+  conversationId?: string;
+  messageId?: string;
+  documentId?: string;
+  requestCount?: number; // Defaults to 1
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+  latencyMs?: number;
+}
+
+export interface UsageRange {
+  from: string; // UTC dates (YYYY-MM-DD), inclusive
+  to: string;
+  startMs: number;
+  endMs: number; // Exclusive
+}
+
+/**
+ * Resolve model prices: the built-in prices, with MODEL_PRICING entries added or replacing them.
+ * Invalid entries in MODEL_PRICING are ignored.
+ */
+export function resolveModelPricing(env: Env): Record<string, ModelPrice> {
+  const pricing = { ...DEFAULT_MODEL_PRICES };
+  if (!env.MODEL_PRICING) return pricing;
+
+  let configured: unknown;
+  try {
+    configured = JSON.parse(env.MODEL_PRICING);
+  } catch {
+    return pricing;
+  }
+  if (!configured || typeof configured !== 'object' || Array.isArray(configured)) return pricing;
+
+  for (const [model, price] of Object.entries(configured as Record<string, unknown>)) {
+    const { input, output } = (price ?? {}) as Partial<ModelPrice>;
+    const valid = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    if (valid(input) && (output === undefined || valid(output))) {
+      pricing[model] = { input: input!, output: output ?? 0 };
+    }
+  }
+  return pricing;
+}
+
+/**
+ * Price of a model: an exact entry, or the longest entry the model name starts with,
+ * so dated snapshots such as claude-haiku-4-5-20251001 use the price of their alias
+ */
+export function findModelPrice(pricing: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+  if (pricing[model]) return pricing[model];
+  const prefix = Object.keys(pricing)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Estimated cost in USD, or null for a model without a known price
+ */
+export function estimateCost(
+  pricing: Record<string, ModelPrice>,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  const price = findModelPrice(pricing, model);
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Tokens used by a completion: the reported usage, or an estimate from the prompt and answer
+ */
+export function completionUsage(
+  request: CompletionRequest,
+  answer: string,
+  usage: CompletionUsage | null
+): { usage: CompletionUsage; estimated: boolean } {
+  if (usage) {
+    return { usage, estimated: false };
+  }
+  const prompt = [request.system, ...request.messages.map(message => message.content)].join('\n');
+  return { usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(answer) }, estimated: true };
+}
+
+/**
+ * Estimated tokens sent to an embedding model, which reports no usage
+ */
+export function embeddingTokens(texts: string[]): number {
+  return texts.reduce((total, text) => total + estimateTokens(text), 0);
+}
+
+/**
+ * Record usage with its estimated cost. Recording an ID that already exists does nothing.
+ */
+export async function recordUsage(env: Env, input: UsageInput, now: number = Date.now()): Promise<UsageEvent> {
+  const event: UsageEvent = {
+    id: input.id ?? crypto.randomUUID(),
+    tenant_id: input.tenantId,
+    kind: input.kind,
+    provider: input.provider,
+    model: input.model,
+    conversation_id: input.conversationId ?? null,
+    message_id: input.messageId ?? null,
+    document_id: input.documentId ?? null,
+    request_count: input.requestCount ?? 1,
+    input_tokens: Math.round(input.inputTokens),
+    output_tokens: Math.round(input.outputTokens),
+    estimated: input.estimated ? 1 : 0,
+    latency_ms: input.latencyMs === undefined ? null : Math.round(input.latencyMs),
+    cost_usd: estimateCost(resolveModelPricing(env), input.model, input.inputTokens, input.outputTokens),
+    created_at: now,
+  };
+
+  await env.DATABASE.prepare(
+    `INSERT OR IGNORE INTO usage_events (id, tenant_id, kind, provider, model, conversation_id, message_id, document_id,
+       request_count, input_tokens, output_tokens, estimated, latency_ms, cost_usd, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      event.id,
+      event.tenant_id,
+      event.kind,
+      event.provider,
+      event.model,
+      event.conversation_id,
+      event.message_id,
+      event.document_id,
+      event.request_count,
+      event.input_tokens,
+      event.output_tokens,
+      event.estimated,
+      event.latency_ms,
+      event.cost_usd,
+      event.created_at
+    )
+    .run();
+
+  return event;
+}
+
+function parseDate(name: string, input: string): { value?: number; error?: string } {
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(input) ? Date.parse(`${input}T00:00:00Z`) : NaN;
+  if (Number.isNaN(value) || new Date(value).toISOString().slice(0, 10) !== input) {
+    return { error: `${name} must be a date in YYYY-MM-DD format` };
+  }
+  return { value };
+}
+
+/**
+ * Parse a report date range supplied by a request; defaults to the last 30 days including today (UTC)
+ */
+export function parseUsageRange(
+  from: string | undefined,
+  to: string | undefined,
+  now: number = Date.now()
+): { value?: UsageRange; error?: string } {
+  const end = to ? parseDate('to', to) : { value: Math.floor(now / DAY_MS) * DAY_MS };
+  if (end.error) return { error: end.error };
+  const start = from ? parseDate('from', from) : { value: end.value! - (DEFAULT_REPORT_DAYS - 1) * DAY_MS };
+  if (start.error) return { error: start.error };
+
+  const days = (end.value! - start.value!) / DAY_MS + 1;
+  if (days < 1) {
+    return { error: 'from must not be after to' };
+  }
+  if (days > MAX_REPORT_DAYS) {
+    return { error: `The range must be at most ${MAX_REPORT_DAYS} days` };
+  }
+
+  return {
+    value: {
+      from: new Date(start.value!).toISOString().slice(0, 10),
+      to: new Date(end.value!).toISOString().slice(0, 10),
+      startMs: start.value!,
+      endMs: end.value! + DAY_MS,
+    },
+  };
+}
+
+type TotalsRow = { requests: number | null; input_tokens: number | null; output_tokens: number | null; cost_usd: number | null };
+
+function toTotals(row: TotalsRow | null | undefined): UsageTotals {
+  return {
+    requests: row?.requests ?? 0,
+    inputTokens: row?.input_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    costUsd: row?.cost_usd ?? 0,
+  };
+}
+
+/**
+ * Aggregate a tenant's usage over a range by day, by model and by conversation
+ */
+export async function getUsageReport(env: Env, tenantId: string, range: UsageRange): Promise<UsageReport> {
+  const totals = `SUM(request_count) AS requests, SUM(input_tokens) AS input_tokens,
+    SUM(output_tokens) AS output_tokens, SUM(cost_usd) AS cost_usd`;
+  const where = 'WHERE usage_events.tenant_id = ? AND usage_events.created_at >= ? AND usage_events.created_at < ?';
+  const bind = <T>(query: string) => env.DATABASE.prepare(query).bind(tenantId, range.startMs, range.endMs).all<T>();
+
+  const [overall, byDay, byModel, byConversation] = await Promise.all([
+    bind<TotalsRow>(`SELECT ${totals} FROM usage_events ${where}`),
+    bind<TotalsRow & { day: string }>(
+      `SELECT strftime('%Y-%m-%d', created_at / 1000, 'unixepoch') AS day, ${totals}
+       FROM usage_events ${where} GROUP BY day ORDER BY day ASC`
+    ),
+    bind<TotalsRow & { kind: UsageKind; model: string; average_latency_ms: number | null }>(
+      `SELECT kind, model, ${totals}, AVG(latency_ms) AS average_latency_ms
+       FROM usage_events ${where} GROUP BY kind, model ORDER BY kind ASC, cost_usd DESC`
+    ),
+    bind<TotalsRow & { conversation_id: string; title: string | null }>(
+      `SELECT usage_events.conversation_id, conversations.title, ${totals}
+       FROM usage_events LEFT JOIN conversations ON conversations.id = usage_events.conversation_id
+       ${where} AND usage_events.conversation_id IS NOT NULL
+       GROUP BY usage_events.conversation_id
+       ORDER BY cost_usd DESC, input_tokens + output_tokens DESC
+       LIMIT ${MAX_REPORT_CONVERSATIONS}`
+    ),
+  ]);
+
+  return {
+    from: range.from,
+    to: range.to,
+    totals: toTotals(overall.results?.[0]),
+    byDay: (byDay.results || []).map(row => ({ day: row.day, ...toTotals(row) })),
+    byModel: (byModel.results || []).map(row => ({
+      kind: row.kind,
+      model: row.model,
+      ...toTotals(row),
+      averageLatencyMs: row.average_latency_ms === null ? null : Math.round(row.average_latency_ms),
+    })),
+    byConversation: (byConversation.results || []).map(row => ({
+      conversationId: row.conversation_id,
+      title: row.title,
+      ...toTotals(row),
+    })),
+  };
+}
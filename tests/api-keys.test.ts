@@ -0,0 +1,98 @@
+/**
+ * Unit tests for API key parsing, roles and storage
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	createApiKey, findApiKey, generateApiKey, isOriginAllowed, parseAllowedOrigins, parseApiKeyRole, readApiKey, roleAllows
+} from '../src/utils/api-keys';
+import { ApiKeyRecord, Env } from '../src/types';
+
+/**
+ * Build an Env whose D1 binding stores api_keys rows in memory
+ */
+function createMockEnv() {
+	const rows: ApiKeyRecord[] = [];
+	const env = {
+		DATABASE: {
+			prepare: (query: string) => ({
+				bind: (...params: any[]) => ({
+					run: async () => {
+						if (query.includes('INSERT INTO api_keys')) {
+							const [id, tenant_id, name, role, key_hash, key_prefix, allowed_origins, created_at] = params;
+							rows.push({
+								id, tenant_id, name, role, key_hash, key_prefix, allowed_origins, created_at,
+								last_used_at: null, revoked_at: null,
+							});
+						}
+						return { success: true };
+					},
+					first: async () => {
+						if (query.includes('WHERE key_hash = ?')) {
+							return rows.find(row => row.key_hash === params[0] && row.revoked_at === null) ?? null;
+						}
+						return null;
+					},
+				}),
+			}),
+		},
+	};
+	return { env: env as unknown as Env, rows };
+}
+
+describe('readApiKey', () => {
+	it('should read bearer tokens and the X-API-Key header', () => {
+		expect(readApiKey('Bearer rag_abc', undefined)).toBe('rag_abc');
+		expect(readApiKey(undefined, ' rag_def ')).toBe('rag_def');
+		expect(readApiKey('Basic dXNlcg==', undefined)).toBeUndefined();
+	});
+});
+
+describe('roleAllows', () => {
+	it('should let higher roles call lower-role routes', () => {
+		expect(roleAllows('admin', 'writer')).toBe(true);
+		expect(roleAllows('writer', 'reader')).toBe(true);
+		expect(roleAllows('reader', 'writer')).toBe(false);
+		expect(roleAllows('writer', 'admin')).toBe(false);
+	});
+
+	it('should reject unknown roles', () => {
+		expect(parseApiKeyRole('owner').error).toBeDefined();
+		expect(parseApiKeyRole('writer')).toEqual({ value: 'writer' });
+	});
+});
+
+describe('origin allowlists', () => {
+	it('should accept origins and normalize a trailing slash', () => {
+		expect(parseAllowedOrigins(['https://app.example.com/', 'http://localhost:8787']))
+			.toEqual({ value: ['https://app.example.com', 'http://localhost:8787'] });
+		expect(parseAllowedOrigins(undefined)).toEqual({ value: null });
+	});
+
+	it('should reject URLs with paths and non-origins', () => {
+		expect(parseAllowedOrigins(['https://app.example.com/path']).error).toBeDefined();
+		expect(parseAllowedOrigins(['*']).error).toBeDefined();
+		expect(parseAllowedOrigins([]).error).toBeDefined();
+	});
+
+	it('should allow requests without an Origin and keys without an allowlist', () => {
+		expect(isOriginAllowed(['https://app.example.com'], undefined)).toBe(true);
+		expect(isOriginAllowed(null, 'https://evil.example')).toBe(true);
+		expect(isOriginAllowed(['https://app.example.com'], 'https://app.example.com')).toBe(true);
+		expect(isOriginAllowed(['https://app.example.com'], 'https://evil.example')).toBe(false);
+	});
+});
+
+describe('createApiKey', () => {
+	it('should store only a hash of the key and find it again', async () => {
+		const { env, rows } = createMockEnv();
+
+		const { apiKey, key } = await createApiKey(env, 'acme', { name: 'CI', role: 'writer', allowedOrigins: null });
+
+		expect(key).toMatch(/^rag_[0-9a-f]{64}$/);
+		expect(rows[0].key_hash).not.toContain(key);
+		expect(apiKey).toMatchObject({ tenantId: 'acme', role: 'writer', prefix: key.slice(0, 12) });
+		expect((await findApiKey(env, key))?.id).toBe(apiKey.id);
+		expect(await findApiKey(env, generateApiKey())).toBeNull();
+	});
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for chunk diffing on document update
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planChunkUpdate } from '../src/utils/chunk-diff';
+
+const existing = [
+	{ noteId: 'n0', chunkIndex: 0, hash: 'h-intro' },
+	{ noteId: 'n1', chunkIndex: 1, hash: 'h-typo' },
+	{ noteId: 'n2', chunkIndex: 2, hash: 'h-outro' },
+];
+
+describe('planChunkUpdate', () => {
+	it('should only create chunks whose hash changed', () => {
+		const plan = planChunkUpdate(existing, ['h-intro', 'h-fixed', 'h-outro']);
+
+		expect(plan.create).toEqual([1]);
+		expect(plan.remove).toEqual(['n1']);
+		expect(plan.reuse).toEqual([
+			{ noteId: 'n0', chunkIndex: 0, moved: false },
+			{ noteId: 'n2', chunkIndex: 2, moved: false },
+		]);
+	});
+
+	it('should mark reused chunks that changed position', () => {
+		const plan = planChunkUpdate(existing, ['h-new', 'h-intro', 'h-typo', 'h-outro']);
+
+		expect(plan.create).toEqual([0]);
+		expect(plan.remove).toEqual([]);
+		expect(plan.reuse.every(chunk => chunk.moved)).toBe(true);
+	});
+
+	it('should remove every chunk when nothing matches', () => {
+		const plan = planChunkUpdate(existing, ['x']);
+
+		expect(plan.reuse).toEqual([]);
+		expect(plan.create).toEqual([0]);
+		expect(plan.remove.sort()).toEqual(['n0', 'n1', 'n2']);
+	});
+
+	it('should match duplicated chunks one-to-one', () => {
+		const plan = planChunkUpdate(
+			[{ noteId: 'a', chunkIndex: 0, hash: 'dup' }],
+			['dup', 'dup']
+		);
+
+		expect(plan.reuse).toEqual([{ noteId: 'a', chunkIndex: 0, moved: false }]);
+		expect(plan.create).toEqual([1]);
+	});
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for document chunking strategies
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseChunkingConfig, resolveChunkingConfig, splitText } from '../src/utils/chunking';
+import { Env } from '../src/types';
+
+describe('parseChunkingConfig', () => {
+	it('should accept a strategy name and fill in default sizes', () => {
+		expect(parseChunkingConfig('markdown')).toEqual({
+			config: { strategy: 'markdown', chunkSize: 1000, chunkOverlap: 200 },
+		});
+		expect(parseChunkingConfig({ strategy: 'token' }).config).toEqual({
+			strategy: 'token',
+			chunkSize: 256,
+			chunkOverlap: 32,
+		});
+	});
+
+	it('should scale the default overlap down for small chunk sizes', () => {
+		expect(parseChunkingConfig({ strategy: 'recursive', chunkSize: 100 }).config?.chunkOverlap).toBe(20);
+	});
+
+	it('should drop sizes for the none strategy', () => {
+		expect(parseChunkingConfig({ strategy: 'none', chunkSize: 500 }).config).toEqual({ strategy: 'none' });
+	});
+
+	it('should reject unknown strategies and invalid sizes', () => {
+		expect(parseChunkingConfig({ strategy: 'paragraph' }).error).toContain('chunking.strategy');
+		expect(parseChunkingConfig([]).error).toBeDefined();
+		expect(parseChunkingConfig({ strategy: 'recursive', chunkSize: 0 }).error).toContain('chunkSize');
+		expect(parseChunkingConfig({ strategy: 'recursive', chunkSize: 1.5 }).error).toContain('chunkSize');
+		expect(parseChunkingConfig({ strategy: 'recursive', chunkSize: 100, chunkOverlap: 100 }).error).toContain('chunkOverlap');
+	});
+});
+
+describe('resolveChunkingConfig', () => {
+	const enabled = { ENABLE_TEXT_SPLITTING: 'true' } as Env;
+	const disabled = {} as Env;
+
+	it('should prefer the requested config, then the stored one', () => {
+		expect(resolveChunkingConfig(enabled, { strategy: 'sentence' }, { strategy: 'none' })).toEqual({ strategy: 'sentence' });
+		expect(resolveChunkingConfig(enabled, undefined, { strategy: 'none' })).toEqual({ strategy: 'none' });
+	});
+
+	it('should fall back to ENABLE_TEXT_SPLITTING', () => {
+		expect(resolveChunkingConfig(enabled).strategy).toBe('recursive');
+		expect(resolveChunkingConfig(disabled).strategy).toBe('none');
+	});
+});
+
+describe('splitText', () => {
+	it('should keep the whole document for the none strategy', async () => {
+		const text = 'word '.repeat(1000);
+		expect(await splitText(text, { strategy: 'none' })).toEqual([text]);
+	});
+
+	it('should respect the chunk size for the recursive strategy', async () => {
+		const text = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} has a few words in it.`).join('\n\n');
+		const chunks = await splitText(text, { strategy: 'recursive', chunkSize: 120, chunkOverlap: 0 });
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every(chunk => chunk.length <= 120)).toBe(true);
+	});
+
+	it('should split Markdown at headings', async () => {
+		const text = [
+			'# Guide',
+			'## Install',
+			'Run the installer.',
+			'## Configure',
+			'Edit the config file.',
+			'```sh',
+			'# not a heading',
+			'```',
+		].join('\n');
+
+		const chunks = await splitText(text, { strategy: 'markdown', chunkSize: 1000, chunkOverlap: 0 });
+
+		expect(chunks).toEqual([
+			'# Guide\n## Install\nRun the installer.',
+			'## Configure\nEdit the config file.\n```sh\n# not a heading\n```',
+		]);
+	});
+
+	it('should repeat the heading on continuations of long Markdown sections', async () => {
+		const text = `## Details\n\n${Array.from({ length: 10 }, (_, i) => `Line number ${i} of the details.`).join('\n\n')}`;
+		const chunks = await splitText(text, { strategy: 'markdown', chunkSize: 100, chunkOverlap: 0 });
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every(chunk => chunk.startsWith('## Details'))).toBe(true);
+	});
+
+	it('should pack whole sentences with sentence overlap', async () => {
+		const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.';
+		const chunks = await splitText(text, { strategy: 'sentence', chunkSize: 50, chunkOverlap: 25 });
+
+		expect(chunks).toEqual([
+			'First sentence here. Second sentence here.',
+			'Second sentence here. Third sentence here.',
+			'Third sentence here. Fourth sentence here.',
+		]);
+	});
+
+	it('should split sentences longer than a chunk', async () => {
+		const chunks = await splitText(`${'long '.repeat(40)}end.`, { strategy: 'sentence', chunkSize: 50, chunkOverlap: 0 });
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.every(chunk => chunk.length <= 50)).toBe(true);
+	});
+
+	it('should split into overlapping token windows without fetching the encoding', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch');
+		const text = Array.from({ length: 20 }, (_, i) => `word${i}`).join(' ');
+
+		const chunks = await splitText(text, { strategy: 'token', chunkSize: 10, chunkOverlap: 2 });
+
+		expect(fetchSpy).not.toHaveBeenCalled();
+		// Two tokens ("word" and its number) per word, so each window repeats the previous one's last word
+		expect(chunks).toEqual([
+			'word0 word1 word2 word3 word4',
+			' word4 word5 word6 word7 word8',
+			' word8 word9 word10 word11 word12',
+			' word12 word13 word14 word15 word16',
+			' word16 word17 word18 word19',
+		]);
+		fetchSpy.mockRestore();
+	});
+});
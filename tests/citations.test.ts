@@ -0,0 +1,56 @@
+/**
+ * Unit tests for citation validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateCitations } from '../src/utils/citations';
+
+const notes = [
+	{ id: 'note-a', document_id: 'doc-1' },
+	{ id: 'note-b', document_id: 'doc-1' },
+	{ id: 'note-c', document_id: 'doc-2' },
+];
+
+describe('validateCitations', () => {
+	it('should return citations with offsets of their markers', () => {
+		const answer = 'Cats sleep a lot [ID: note-a]. Dogs bark [ID: note-c].';
+		const result = validateCitations(answer, notes);
+
+		expect(result.content).toBe(answer);
+		expect(result.invalidCitations).toEqual([]);
+		expect(result.citations).toEqual([
+			{ noteId: 'note-a', documentId: 'doc-1', start: 17, end: 29 },
+			{ noteId: 'note-c', documentId: 'doc-2', start: 41, end: 53 },
+		]);
+		expect(answer.slice(17, 29)).toBe('[ID: note-a]');
+	});
+
+	it('should remove citations to notes that were not retrieved', () => {
+		const result = validateCitations('Fact one [ID: made-up]. Fact two [ID: note-b].', notes);
+
+		expect(result.content).toBe('Fact one. Fact two [ID: note-b].');
+		expect(result.invalidCitations).toEqual(['made-up']);
+		expect(result.citations).toEqual([{ noteId: 'note-b', documentId: 'doc-1', start: 19, end: 31 }]);
+	});
+
+	it('should keep only the valid IDs of a multi-ID marker', () => {
+		const result = validateCitations('Both agree [ID: note-a, fake, note-c].', notes);
+
+		expect(result.content).toBe('Both agree [ID: note-a, note-c].');
+		expect(result.invalidCitations).toEqual(['fake']);
+		expect(result.citations.map(c => c.noteId)).toEqual(['note-a', 'note-c']);
+		expect(result.citations.every(c => c.start === 11 && c.end === 31)).toBe(true);
+	});
+
+	it('should attribute document ID citations to the first retrieved note of the document', () => {
+		const result = validateCitations('See [ID: doc-1]', notes);
+
+		expect(result.content).toBe('See [ID: doc-1]');
+		expect(result.citations).toEqual([{ noteId: 'note-a', documentId: 'doc-1', start: 4, end: 15 }]);
+	});
+
+	it('should leave answers without citations untouched', () => {
+		const answer = "I don't have enough information in the knowledge base to answer that question.";
+		expect(validateCitations(answer, [])).toEqual({ content: answer, citations: [], invalidCitations: [] });
+	});
+});
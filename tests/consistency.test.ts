@@ -0,0 +1,225 @@
+/**
+ * Unit tests for the KV, D1 and Vectorize consistency check
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	checkConsistency, decodeConsistencyCursor, encodeConsistencyCursor, hasInconsistencies, listConsistencyTenants,
+	CONSISTENCY_GRACE_MS, MAX_VECTOR_IDS
+} from '../src/utils/consistency';
+import { chunkNoteId } from '../src/utils/document-store';
+import { Logger } from '../src/utils/logger';
+import { Env } from '../src/types';
+
+const now = Date.parse('2026-10-19T12:00:00Z');
+const old = now - 2 * CONSISTENCY_GRACE_MS;
+
+interface MockStores {
+	documents?: Array<{ id: string; status: string; chunk_count: number; uploaded_at: number; tenant_id?: string }>;
+	notes?: Array<{ id: string; document_id: string; tenant_id?: string }>;
+	kv?: Array<{ name: string; uploadedAt: number; revision?: string }>;
+	vectors?: string[];
+}
+
+/**
+ * Build an Env whose D1, KV and Vectorize bindings answer the consistency check's queries from the given rows
+ */
+function createMockEnv({ documents = [], notes = [], kv = [], vectors = [] }: MockStores) {
+	const vectorIds = new Set(vectors);
+	// Rows of the tenant with an ID after the cursor, up to the page's last ID when bound
+	const inRange = (query: string, id: string, params: any[]) => id > params[1] && (!query.includes('<= ?') || id <= params[2]);
+	const env = {
+		DATABASE: {
+			prepare: (query: string) => {
+				const all = async (...params: any[]) => {
+					if (query.includes('UNION')) {
+						const tenants = [params[0], ...[...documents, ...notes].map(row => row.tenant_id ?? 'default')];
+						return { results: [...new Set(tenants)].slice(0, params[1]).map(tenant_id => ({ tenant_id })) };
+					}
+					if (query.includes('FROM documents')) {
+						const rows = documents
+							.filter(d => (d.tenant_id ?? 'default') === params[0] && inRange(query, d.id, params))
+							.sort((a, b) => a.id < b.id ? -1 : 1)
+							.slice(0, params[params.length - 1]);
+						return { results: rows.map(d => ({ ...d, note_count: notes.filter(n => n.document_id === d.id).length })) };
+					}
+					if (query.includes('FROM notes')) {
+						return { results: notes.filter(n => (n.tenant_id ?? 'default') === params[0] && inRange(query, n.document_id, params)) };
+					}
+					return { results: [] };
+				};
+				return { all: () => all(), bind: (...params: any[]) => ({ all: () => all(...params) }) };
+			},
+		},
+		DOCUMENTS: {
+			// Keys in name order; the cursor is the index of the page's first key
+			list: vi.fn(async ({ prefix, cursor, limit }: { prefix: string; cursor?: string; limit: number }) => {
+				const keys = kv.filter(key => key.name.startsWith(prefix)).sort((a, b) => a.name < b.name ? -1 : 1);
+				const start = Number(cursor ?? 0);
+				const end = start + limit;
+				return {
+					keys: keys.slice(start, end).map(key => ({ name: key.name, metadata: { uploadedAt: key.uploadedAt, revision: key.revision } })),
+					list_complete: end >= keys.length,
+					cursor: String(end),
+				};
+			}),
+		},
+		VECTOR_INDEX: {
+			getByIds: vi.fn(async (ids: string[]) => ids.filter(id => vectorIds.has(id)).map(id => ({ id, values: [] }))),
+		},
+	};
+	return env as unknown as Env;
+}
+
+describe('checkConsistency', () => {
+	let logger: Logger;
+
+	beforeEach(() => {
+		logger = new Logger();
+		vi.spyOn(console, 'info').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should report differences between KV, D1 and Vectorize', async () => {
+		const env = createMockEnv({
+			documents: [
+				{ id: 'doc-ok', status: 'ready', chunk_count: 1, uploaded_at: old },
+				{ id: 'doc-counts', status: 'ready', chunk_count: 3, uploaded_at: old },
+				{ id: 'doc-no-content', status: 'ready', chunk_count: 0, uploaded_at: old },
+			],
+			notes: [
+				{ id: 'note-ok', document_id: 'doc-ok' },
+				{ id: 'note-counts-1', document_id: 'doc-counts' },
+				{ id: 'note-counts-2', document_id: 'doc-counts' },
+				{ id: 'note-orphan', document_id: 'doc-gone' },
+			],
+			kv: [
+				{ name: 'doc:doc-ok', uploadedAt: old },
+				{ name: 'doc:doc-counts', uploadedAt: old },
+				{ name: 'doc:doc-kv-only', uploadedAt: old },
+				{ name: 'tenant:acme:doc:doc-other', uploadedAt: old },
+			],
+			vectors: ['note-ok', 'note-counts-1', 'note-orphan'],
+		});
+
+		const report = await checkConsistency(env, logger, 'default', null, now);
+
+		expect(report).toEqual({
+			tenantId: 'default',
+			checkedAt: now,
+			documents: 3,
+			notes: 4,
+			kvOnlyDocuments: ['doc-kv-only'],
+			missingContent: ['doc-no-content'],
+			orphanNotes: ['note-orphan'],
+			orphanVectors: ['note-orphan'],
+			chunkCountMismatches: [{ documentId: 'doc-counts', chunkCount: 3, notes: 2 }],
+			missingVectors: [{ documentId: 'doc-counts', noteIds: ['note-counts-2'] }],
+			cursor: null,
+		});
+		expect(hasInconsistencies(report)).toBe(true);
+	});
+
+	it('should skip documents that may still be ingesting', async () => {
+		const env = createMockEnv({
+			documents: [
+				{ id: 'doc-recent', status: 'ready', chunk_count: 2, uploaded_at: now - 1000 },
+				{ id: 'doc-embedding', status: 'embedding', chunk_count: 2, uploaded_at: old },
+			],
+			notes: [{ id: 'note-1', document_id: 'doc-embedding' }],
+			kv: [
+				{ name: 'doc:doc-embedding', uploadedAt: old },
+				{ name: 'doc:doc-creating', uploadedAt: now - 1000 },
+			],
+		});
+
+		const report = await checkConsistency(env, logger, 'default', null, now);
+
+		expect(report.missingContent).toEqual([]);
+		expect(report.kvOnlyDocuments).toEqual([]);
+		expect(report.chunkCountMismatches).toEqual([]);
+		expect(report.missingVectors).toEqual([]);
+		expect(hasInconsistencies(report)).toBe(false);
+	});
+
+	it('should find vectors of KV-only documents at their derived note IDs', async () => {
+		const derived = await Promise.all(Array.from({ length: 25 }, (_, index) => chunkNoteId('doc-kv-only', index)));
+		const env = createMockEnv({
+			kv: [{ name: 'tenant:acme:doc:doc-kv-only', uploadedAt: old }],
+			vectors: derived,
+		});
+
+		const report = await checkConsistency(env, logger, 'acme', null, now);
+
+		expect(report.kvOnlyDocuments).toEqual(['doc-kv-only']);
+		expect(report.orphanVectors).toEqual(derived);
+	});
+
+	it('should find vectors of updated KV-only documents under their revision', async () => {
+		const original = await Promise.all(Array.from({ length: 2 }, (_, index) => chunkNoteId('doc-kv-only', index)));
+		const revised = await Promise.all(Array.from({ length: 3 }, (_, index) => chunkNoteId('doc-kv-only', index, 'update-1')));
+		const env = createMockEnv({
+			kv: [{ name: 'doc:doc-kv-only', uploadedAt: old, revision: 'update-1' }],
+			vectors: [...original, ...revised],
+		});
+
+		const report = await checkConsistency(env, logger, 'default', null, now);
+
+		expect(report.orphanVectors).toEqual([...original, ...revised]);
+	});
+
+	it('should check a bounded page and continue from its cursor', async () => {
+		const ids = Array.from({ length: 150 }, (_, index) => `doc-${String(index).padStart(3, '0')}`);
+		const env = createMockEnv({
+			documents: ids.map(id => ({ id, status: 'ready', chunk_count: 1, uploaded_at: old })),
+			notes: ids.map(id => ({ id: `note-${id}`, document_id: id })),
+			kv: ids.filter(id => id !== 'doc-120').map(id => ({ name: `doc:${id}`, uploadedAt: old })),
+			vectors: ids.map(id => `note-${id}`),
+		});
+
+		const first = await checkConsistency(env, logger, 'default', null, now);
+		const second = await checkConsistency(env, logger, 'default', decodeConsistencyCursor(first.cursor!), now);
+
+		expect(first).toMatchObject({ documents: 100, notes: 100, missingContent: [] });
+		expect(first.cursor).not.toBeNull();
+		expect(second).toMatchObject({ documents: 50, notes: 50, missingContent: ['doc-120'], cursor: null });
+	});
+
+	it('should stop once the vector lookups run out', async () => {
+		const notesPerDocument = MAX_VECTOR_IDS / 2 + 100;
+		const env = createMockEnv({
+			documents: ['doc-a', 'doc-b', 'doc-c'].map(id => ({ id, status: 'ready', chunk_count: notesPerDocument, uploaded_at: old })),
+			notes: ['doc-a', 'doc-b', 'doc-c'].flatMap(id => Array.from({ length: notesPerDocument }, (_, index) => ({ id: `${id}-${index}`, document_id: id }))),
+			kv: ['doc-a', 'doc-b', 'doc-c'].map(id => ({ name: `doc:${id}`, uploadedAt: old })),
+		});
+
+		const first = await checkConsistency(env, logger, 'default', null, now);
+		const second = await checkConsistency(env, logger, 'default', decodeConsistencyCursor(first.cursor!), now);
+
+		expect(first.missingVectors.map(entry => entry.documentId)).toEqual(['doc-a', 'doc-b']);
+		expect(decodeConsistencyCursor(first.cursor!)).toEqual({ after: 'doc-b', kvCursor: null });
+		expect(second.missingVectors.map(entry => entry.documentId)).toEqual(['doc-c']);
+		expect(second.cursor).toBeNull();
+	});
+});
+
+describe('listConsistencyTenants', () => {
+	it('should always include the default tenant', async () => {
+		const env = createMockEnv({ documents: [{ id: 'doc-1', status: 'ready', chunk_count: 0, uploaded_at: old, tenant_id: 'acme' }] });
+
+		expect(await listConsistencyTenants(env, 5)).toEqual(['default', 'acme']);
+	});
+});
+
+describe('consistency cursors', () => {
+	it('should decode what it encodes and reject anything else', () => {
+		const cursor = { after: 'doc-1', kvCursor: 'abc' };
+
+		expect(decodeConsistencyCursor(encodeConsistencyCursor(cursor))).toEqual(cursor);
+		expect(decodeConsistencyCursor('not a cursor')).toBeNull();
+		expect(decodeConsistencyCursor(btoa('{"after":1}'))).toBeNull();
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for rolling conversation summaries
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+	estimateTokens,
+	resolveHistoryConfig,
+	selectRecentMessages,
+	countMessagesToSummarize,
+	summarizeMessages,
+} from '../src/utils/conversation-summary';
+import { Env } from '../src/types';
+
+const exchange = (count: number, length = 20) =>
+	Array.from({ length: count }, (_, i) => ({
+		role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+		content: `${i}`.padEnd(length, '.'),
+	}));
+
+describe('resolveHistoryConfig', () => {
+	it('should use defaults when unset or invalid', () => {
+		expect(resolveHistoryConfig({} as Env)).toEqual({ window: 10, tokenBudget: 3000 });
+		expect(resolveHistoryConfig({ CHAT_HISTORY_WINDOW: '-1', CHAT_HISTORY_TOKEN_BUDGET: 'lots' } as Env)).toEqual({
+			window: 10,
+			tokenBudget: 3000,
+		});
+	});
+
+	it('should read the window and budget from the environment', () => {
+		expect(resolveHistoryConfig({ CHAT_HISTORY_WINDOW: '6', CHAT_HISTORY_TOKEN_BUDGET: '500' } as Env)).toEqual({
+			window: 6,
+			tokenBudget: 500,
+		});
+	});
+});
+
+describe('selectRecentMessages', () => {
+	it('should keep the newest messages within the window', () => {
+		const recent = selectRecentMessages(exchange(9), { window: 4, tokenBudget: 1000 });
+
+		expect(recent.map(m => m.content[0])).toEqual(['6', '7', '8']);
+		expect(recent[0].role).toBe('user');
+	});
+
+	it('should keep the newest messages within the token budget', () => {
+		const messages = exchange(5, 40); // 10 tokens each
+		const recent = selectRecentMessages(messages, { window: 10, tokenBudget: 30 });
+
+		expect(recent.map(m => m.content[0])).toEqual(['2', '3', '4']);
+	});
+
+	it('should always keep the newest message', () => {
+		const messages = [{ role: 'user' as const, content: 'x'.repeat(1000) }];
+
+		expect(selectRecentMessages(messages, { window: 10, tokenBudget: 10 })).toEqual(messages);
+	});
+});
+
+describe('countMessagesToSummarize', () => {
+	it('should not summarize while history fits', () => {
+		expect(countMessagesToSummarize(exchange(10), { window: 10, tokenBudget: 1000 })).toBe(0);
+	});
+
+	it('should fold history down to half the window once it is exceeded', () => {
+		expect(countMessagesToSummarize(exchange(11), { window: 10, tokenBudget: 1000 })).toBe(6);
+	});
+
+	it('should fold history down to half the budget once it is exceeded', () => {
+		const messages = exchange(4, 400); // 100 tokens each
+		expect(estimateTokens(messages[0].content)).toBe(100);
+
+		expect(countMessagesToSummarize(messages, { window: 10, tokenBudget: 300 })).toBe(3);
+	});
+});
+
+describe('summarizeMessages', () => {
+	it('should send the previous summary and transcript to the model', async () => {
+		const run = vi.fn(async () => ({ response: ' User chose plan B. ' }));
+		const env = { AI: { run } } as unknown as Env;
+
+		const summary = await summarizeMessages(env, 'User compared plans.', [
+			{ role: 'user', content: 'Go with plan B' },
+			{ role: 'assistant', content: 'Plan B it is' },
+		]);
+
+		expect(summary).toBe('User chose plan B.');
+		const prompt = JSON.stringify((run.mock.calls[0] as unknown[])[1]);
+		expect(prompt).toContain('User compared plans.');
+		expect(prompt).toContain('User: Go with plan B');
+		expect(prompt).toContain('Assistant: Plan B it is');
+	});
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for conversation title generation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { truncateTitle, cleanGeneratedTitle, generateConversationTitle } from '../src/utils/conversation-title';
+import { Env } from '../src/types';
+
+/**
+ * Env without an Anthropic key whose Workers AI binding streams the given text
+ */
+function createMockEnv(text: string): Env {
+	return { AI: { run: vi.fn(async () => ({ response: text })) } } as unknown as Env;
+}
+
+describe('truncateTitle', () => {
+	it('should collapse whitespace and keep short titles', () => {
+		expect(truncateTitle('  How do I\n reset   my password? ')).toBe('How do I reset my password?');
+	});
+
+	it('should cut long titles at a word boundary', () => {
+		const title = truncateTitle('word '.repeat(30), 20);
+
+		expect(title).toBe('word word word word…');
+		expect(title.length).toBeLessThanOrEqual(20);
+	});
+});
+
+describe('cleanGeneratedTitle', () => {
+	it('should strip quotes, prefixes and trailing punctuation', () => {
+		expect(cleanGeneratedTitle('Title: "Resetting Passwords."')).toBe('Resetting Passwords');
+		expect(cleanGeneratedTitle('**API Rate Limits**\nThis conversation is about...')).toBe('API Rate Limits');
+	});
+});
+
+describe('generateConversationTitle', () => {
+	it('should return the cleaned model output', async () => {
+		const env = createMockEnv('"Password Reset Steps"');
+
+		expect(await generateConversationTitle(env, 'How do I reset my password?', 'Use the reset link.')).toBe('Password Reset Steps');
+	});
+
+	it('should fall back to the question when the model returns nothing', async () => {
+		const env = createMockEnv('  ');
+
+		expect(await generateConversationTitle(env, 'How do I reset my password?', 'Use the reset link.')).toBe('How do I reset my password?');
+	});
+
+	it('should report the completion for usage accounting', async () => {
+		const env = createMockEnv('Password Reset Steps');
+		const onCompletion = vi.fn();
+
+		await generateConversationTitle(env, 'How do I reset my password?', 'Use the reset link.', onCompletion);
+
+		expect(onCompletion).toHaveBeenCalledOnce();
+		const [request, completion] = onCompletion.mock.calls[0];
+		expect(request.messages[0].content).toContain('How do I reset my password?');
+		expect(completion).toMatchObject({ provider: 'workers-ai', text: 'Password Reset Steps' });
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for document filter parsing and SQL generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	parseDocumentFilter,
+	buildDocumentFilterClause,
+	isEmptyFilter,
+	toVectorizeFilter,
+	toVectorMetadataFields,
+} from '../src/utils/document-filter';
+
+describe('parseDocumentFilter', () => {
+	it('should accept a valid filter', () => {
+		const { filter, error } = parseDocumentFilter({
+			tags: ['api', 'reference'],
+			author: 'Engineering Team',
+			uploadedAfter: '2025-01-01T00:00:00Z',
+		});
+
+		expect(error).toBeUndefined();
+		expect(filter).toEqual({
+			tags: ['api', 'reference'],
+			author: 'Engineering Team',
+			uploadedAfter: Date.parse('2025-01-01T00:00:00Z'),
+		});
+	});
+
+	it('should reject non-object filters', () => {
+		expect(parseDocumentFilter(null).error).toBeDefined();
+		expect(parseDocumentFilter(['api']).error).toBeDefined();
+		expect(parseDocumentFilter('api').error).toBeDefined();
+	});
+
+	it('should reject invalid field types', () => {
+		expect(parseDocumentFilter({ tags: 'api' }).error).toContain('tags');
+		expect(parseDocumentFilter({ author: 42 }).error).toContain('author');
+		expect(parseDocumentFilter({ uploadedBefore: 'not a date' }).error).toContain('uploadedBefore');
+	});
+
+	it('should detect empty filters', () => {
+		expect(isEmptyFilter({})).toBe(true);
+		expect(isEmptyFilter({ tags: [] })).toBe(true);
+		expect(isEmptyFilter({ source: 'wiki' })).toBe(false);
+	});
+});
+
+describe('buildDocumentFilterClause', () => {
+	it('should build a parameterized clause for every condition', () => {
+		const { clause, params } = buildDocumentFilterClause({
+			tags: ['a', 'b'],
+			source: 'wiki',
+			contentType: 'text/markdown',
+			uploadedBefore: 100,
+		});
+
+		expect(clause).toContain('json_each(documents.metadata');
+		expect(clause).toContain("json_extract(documents.metadata, '$.source') = ?");
+		expect(clause).toContain('documents.content_type = ?');
+		expect(clause).toContain('documents.uploaded_at < ?');
+		expect(params).toEqual(['a', 'b', 'wiki', 'text/markdown', 100]);
+	});
+
+	it('should match everything for an empty filter', () => {
+		expect(buildDocumentFilterClause({})).toEqual({ clause: '1 = 1', params: [] });
+	});
+});
+
+describe('toVectorizeFilter', () => {
+	it('should push down scalar conditions and combine date bounds', () => {
+		expect(toVectorizeFilter({
+			tags: ['api'],
+			author: 'Ada',
+			contentType: 'application/pdf',
+			uploadedAfter: 10,
+			uploadedBefore: 20,
+		})).toEqual({
+			author: { $eq: 'Ada' },
+			content_type: { $eq: 'application/pdf' },
+			uploaded_at: { $gt: 10, $lt: 20 },
+		});
+	});
+
+	it('should return undefined when only tags are filtered', () => {
+		expect(toVectorizeFilter({ tags: ['api'] })).toBeUndefined();
+	});
+});
+
+describe('toVectorMetadataFields', () => {
+	it('should copy filterable fields and drop invalid values', () => {
+		expect(toVectorMetadataFields(
+			{ tags: ['api', 3 as unknown as string], author: 'Ada', source: undefined, description: 'ignored' },
+			'text/markdown',
+			1234
+		)).toEqual({
+			tags: ['api'],
+			author: 'Ada',
+			content_type: 'text/markdown',
+			uploaded_at: 1234,
+		});
+	});
+});
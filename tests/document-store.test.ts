@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { DocumentStore } from '../src/utils/document-store';
+import { DocumentStore, chunkNoteId, documentNoteIds, workflowDocumentId } from '../src/utils/document-store';
 import { Logger } from '../src/utils/logger';
+import { sha256Hex } from '../src/utils/hash';
 import { NoteRecord, Env } from '../src/types';
 
 /**
@@ -42,8 +43,9 @@ class MockKVNamespace implements KVNamespace {
 		this.metadata.delete(key);
 	}
 
-	async list(): Promise<any> {
-		return { keys: Array.from(this.store.keys()) };
+	async list(options?: { prefix?: string }): Promise<any> {
+		const names = Array.from(this.store.keys()).filter(key => key.startsWith(options?.prefix ?? ''));
+		return { keys: names.map(name => ({ name, metadata: this.metadata.get(name) })), list_complete: true };
 	}
 
 	async getWithMetadata(key: string): Promise<any> {
@@ -62,6 +64,7 @@ class MockD1Database implements D1Database {
 		// Initialize with notes table
 		this.tables.set('notes', []);
 		this.tables.set('documents', []);
+		this.tables.set('notes_fts', []);
 	}
 
 	prepare(query: string) {
@@ -72,14 +75,52 @@ class MockD1Database implements D1Database {
 			bind: (...params: any[]) => ({
 				run: async () => {
 					// Simple INSERT/UPDATE/DELETE handling
-					if (query.includes('INSERT INTO notes')) {
-						const [id, documentId, text, chunkIndex] = params;
-						self.tables.get('notes')!.push({ id, document_id: documentId, text, chunk_index: chunkIndex });
+					if (query.includes('INSERT INTO notes_fts')) {
+						const [text, noteId, documentId] = params;
+						self.tables.get('notes_fts')!.push({ text, note_id: noteId, document_id: documentId });
+						return { success: true };
+					}
+					if (query.includes('DELETE FROM notes_fts WHERE note_id = ?')) {
+						self.tables.set('notes_fts', self.tables.get('notes_fts')!.filter(n => n.note_id !== params[0]));
+						return { success: true };
+					}
+					if (query.includes('DELETE FROM notes_fts WHERE note_id IN')) {
+						self.tables.set('notes_fts', self.tables.get('notes_fts')!.filter(n => !params.includes(n.note_id)));
+						return { success: true };
+					}
+					if (query.includes('DELETE FROM notes_fts')) {
+						self.tables.set('notes_fts', self.tables.get('notes_fts')!.filter(n => n.document_id !== params[0]));
+						return { success: true };
+					}
+					if (query.includes('INTO notes (')) {
+						const [id, documentId, text, chunkIndex, contentHash, tenantId] = params;
+						if (query.includes('OR IGNORE') && self.tables.get('notes')!.some(n => n.id === id)) {
+							return { success: true };
+						}
+						self.tables.get('notes')!.push({
+							id, document_id: documentId, text, chunk_index: chunkIndex, content_hash: contentHash, tenant_id: tenantId,
+						});
+						return { success: true };
+					}
+					if (query.includes('DELETE FROM notes WHERE id IN')) {
+						self.tables.set('notes', self.tables.get('notes')!.filter(n => !params.includes(n.id)));
+						return { success: true };
+					}
+					if (query.includes('UPDATE documents SET title')) {
+						const [title, contentType, uploadedAt, metadata, contentHash, id] = params;
+						const doc = self.tables.get('documents')!.find(d => d.id === id);
+						if (doc) Object.assign(doc, { title, content_type: contentType, uploaded_at: uploadedAt, metadata, content_hash: contentHash, update_error: null });
 						return { success: true };
 					}
 					if (query.includes('INSERT INTO documents')) {
-						const [id, title, contentType, uploadedAt, chunkCount, metadata] = params;
-						self.tables.get('documents')!.push({ id, title, content_type: contentType, uploaded_at: uploadedAt, chunk_count: chunkCount, metadata });
+						const [id, title, contentType, uploadedAt, chunkCount, metadata, status, workflowId, tenantId, contentHash] = params;
+						const previousVersionId = params[params.length - 1];
+						const previous = self.tables.get('documents')!.find(d => d.id === previousVersionId && d.tenant_id === tenantId);
+						self.tables.get('documents')!.push({
+							id, title, content_type: contentType, uploaded_at: uploadedAt, chunk_count: chunkCount, metadata,
+							status, workflow_id: workflowId, error: null, tenant_id: tenantId, content_hash: contentHash,
+							version: previous ? previous.version + 1 : 1, previous_version_id: previousVersionId,
+						});
 						return { success: true };
 					}
 					if (query.includes('DELETE FROM documents')) {
@@ -91,6 +132,18 @@ class MockD1Database implements D1Database {
 						});
 						return { success: true };
 					}
+					if (query.includes('UPDATE documents SET status = ?, update_error')) {
+						const [status, updateError, id] = params;
+						const doc = self.tables.get('documents')!.find(d => d.id === id);
+						if (doc) Object.assign(doc, { status, update_error: updateError });
+						return { success: true };
+					}
+					if (query.includes('UPDATE documents SET status')) {
+						const [status, error, id] = params;
+						const doc = self.tables.get('documents')!.find(d => d.id === id);
+						if (doc) Object.assign(doc, { status, error });
+						return { success: true };
+					}
 					if (query.includes('UPDATE documents')) {
 						const docs = self.tables.get('documents')!;
 						const docIndex = docs.findIndex(d => d.id === params[1]);
@@ -103,9 +156,21 @@ class MockD1Database implements D1Database {
 				},
 				first: async () => {
 					// SELECT first
+					if (query.includes('FROM documents WHERE workflow_id')) {
+						const doc = self.tables.get('documents')!.find(d => d.workflow_id === params[0] && d.tenant_id === params[1]);
+						if (!doc) return null;
+						const storedChunks = self.tables.get('notes')!.filter(n => n.document_id === doc.id).length;
+						return { id: doc.id, status: doc.status, chunk_count: doc.chunk_count, error: doc.error, stored_chunks: storedChunks };
+					}
+					if (query.includes('content_hash = ?')) {
+						const [tenantId, contentHash] = params;
+						return self.tables.get('documents')!.filter(d =>
+							d.tenant_id === tenantId && d.content_hash === contentHash && !['failed', 'superseded'].includes(d.status)
+						).pop() || null;
+					}
 					if (query.includes('SELECT') && query.includes('FROM documents')) {
-						const docId = params[0];
-						return self.tables.get('documents')!.find(d => d.id === docId) || null;
+						const [docId, tenantId] = params;
+						return self.tables.get('documents')!.find(d => d.id === docId && d.tenant_id === tenantId) || null;
 					}
 					return null;
 				},
@@ -113,22 +178,32 @@ class MockD1Database implements D1Database {
 					// SELECT multiple
 					if (query.includes('SELECT') && query.includes('FROM notes')) {
 						if (query.includes('WHERE document_id')) {
-							const docId = params[0];
-							return { results: self.tables.get('notes')!.filter(n => n.document_id === docId) };
+							const [docId, tenantId] = params;
+							return { results: self.tables.get('notes')!.filter(n => n.document_id === docId && n.tenant_id === tenantId) };
 						}
 						if (query.includes('WHERE id IN')) {
-							// Simulate the getNotesByIds query
-							const noteIds = params;
-							return { results: self.tables.get('notes')!.filter(n => noteIds.includes(n.id)) };
+							// Simulate the getNotesByIds query; the tenant is bound after the IDs
+							const noteIds = params.slice(0, -1);
+							const tenantId = params[params.length - 1];
+							return { results: self.tables.get('notes')!.filter(n => noteIds.includes(n.id) && n.tenant_id === tenantId) };
 						}
 						return { results: self.tables.get('notes') };
 					}
+					if (query.includes('content_hash IN')) {
+						const [tenantId, ...hashes] = params;
+						return {
+							results: self.tables.get('documents')!.filter(d =>
+								d.tenant_id === tenantId && hashes.includes(d.content_hash) && !['failed', 'superseded'].includes(d.status)
+							).reverse(),
+						};
+					}
 					if (query.includes('SELECT') && query.includes('FROM documents')) {
 						if (query.includes('WHERE id IN')) {
 							const docIds = params;
-							return { results: self.tables.get('documents')!.filter(d => docIds.includes(d.id)) };
+							const ready = query.includes("status = 'ready'");
+							return { results: self.tables.get('documents')!.filter(d => docIds.includes(d.id) && (!ready || d.status === 'ready')) };
 						}
-						return { results: self.tables.get('documents') };
+						return { results: self.tables.get('documents')!.filter(d => d.tenant_id === params[0]) };
 					}
 					return { results: [] };
 				}
@@ -136,6 +211,14 @@ class MockD1Database implements D1Database {
 		} as any;
 	}
 
+	async batch(statements: any[]): Promise<any[]> {
+		const results = [];
+		for (const statement of statements) {
+			results.push(await statement.run());
+		}
+		return results;
+	}
+
 	getQueryLog(): string[] {
 		return this.queryLog;
 	}
@@ -143,6 +226,10 @@ class MockD1Database implements D1Database {
 	resetQueryLog(): void {
 		this.queryLog = [];
 	}
+
+	getTable(name: string): any[] {
+		return this.tables.get(name) || [];
+	}
 }
 
 class MockVectorizeIndex {
@@ -278,7 +365,9 @@ describe('DocumentStore', () => {
 			);
 
 			// Test: Delete the document
-			await docStore.deleteDocument('doc-1');
+			const result = await docStore.deleteDocument('doc-1');
+			expect(result.status).toBe('deleted');
+			expect(result.cleaned).toEqual({ vectors: true, kv: true, d1: true });
 
 			// Verify: Document should not exist in KV or D1
 			const document = await docStore.getDocument('doc-1');
@@ -332,10 +421,40 @@ describe('DocumentStore', () => {
 			expect(mockVectorIndex.hasVector('note-1')).toBe(false);
 			expect(mockVectorIndex.hasVector('note-2')).toBe(false);
 
+			// Verify: Full-text index entries removed
+			expect(mockDB.getTable('notes_fts')).toHaveLength(0);
+
 			// Verify: Document and notes removed from DB
 			const document = await docStore.getDocument(docId);
 			expect(document).toBeNull();
 		});
+
+		it('should report not_found for an unknown document', async () => {
+			const result = await docStore.deleteDocument('missing-doc');
+
+			expect(result.status).toBe('not_found');
+			expect(result.cleaned).toEqual({ vectors: false, kv: false, d1: false });
+		});
+
+		it('should report cleaned layers when deletion fails partway through', async () => {
+			await docStore.createDocument(
+				{
+					content: 'Test document',
+					title: 'Test Doc',
+				},
+				'doc-1'
+			);
+			await docStore.createNote({ id: 'note-1', document_id: 'doc-1', text: 'Note 1', chunk_index: 0 });
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+			vi.spyOn(mockKV, 'delete').mockRejectedValueOnce(new Error('KV unavailable'));
+
+			const result = await docStore.deleteDocument('doc-1');
+
+			expect(result.status).toBe('failed');
+			expect(result.error).toBe('KV unavailable');
+			expect(result.vectorCount).toBe(1);
+			expect(result.cleaned).toEqual({ vectors: true, kv: false, d1: false });
+		});
 	});
 
 	describe('createDocument', () => {
@@ -357,6 +476,36 @@ describe('DocumentStore', () => {
 		});
 	});
 
+	describe('ingestion status', () => {
+		it('should create documents as pending and track status changes', async () => {
+			await docStore.createDocument({ content: 'Content', title: 'Doc' }, 'doc-1', 'wf-1');
+			await docStore.updateChunkCount('doc-1', 2);
+			await docStore.updateStatus('doc-1', 'embedding');
+			await docStore.createNote({ id: 'note-1', document_id: 'doc-1', text: 'Chunk', chunk_index: 0 });
+
+			expect(await docStore.getIngestion('wf-1')).toEqual({
+				id: 'doc-1',
+				status: 'embedding',
+				chunk_count: 2,
+				error: null,
+				stored_chunks: 1,
+			});
+		});
+
+		it('should record the failure message', async () => {
+			await docStore.createDocument({ content: 'Content', title: 'Doc' }, 'doc-1', 'wf-1');
+			await docStore.updateStatus('doc-1', 'failed', 'Embedding failed');
+
+			const ingestion = await docStore.getIngestion('wf-1');
+			expect(ingestion?.status).toBe('failed');
+			expect(ingestion?.error).toBe('Embedding failed');
+		});
+
+		it('should return null for an unknown workflow', async () => {
+			expect(await docStore.getIngestion('missing')).toBeNull();
+		});
+	});
+
 	describe('createNote', () => {
 		it('should create note in database', async () => {
 			const note: NoteRecord = {
@@ -372,6 +521,158 @@ describe('DocumentStore', () => {
 			expect(notes).toHaveLength(1);
 			expect(notes[0].text).toBe('Test note');
 		});
+
+		it('should mirror note into the full-text index', async () => {
+			await docStore.createNote({
+				id: 'note-1',
+				document_id: 'doc-1',
+				text: 'Error code E1234',
+				chunk_index: 0,
+			});
+
+			expect(mockDB.getTable('notes_fts')).toEqual([
+				{ text: 'Error code E1234', note_id: 'note-1', document_id: 'doc-1' },
+			]);
+		});
+
+		it('should not duplicate notes created again', async () => {
+			const notes: NoteRecord[] = [
+				{ id: 'note-1', document_id: 'doc-1', text: 'One', chunk_index: 0 },
+				{ id: 'note-2', document_id: 'doc-1', text: 'Two', chunk_index: 1 },
+			];
+
+			await docStore.createNotes(notes);
+			await docStore.createNotes(notes);
+
+			expect(mockDB.getTable('notes').map(n => n.id)).toEqual(['note-1', 'note-2']);
+			expect(mockDB.getTable('notes_fts').map(n => n.note_id)).toEqual(['note-1', 'note-2']);
+		});
+	});
+
+	describe('chunkNoteId', () => {
+		it('should derive the same UUID-shaped ID for a document chunk', async () => {
+			const id = await chunkNoteId('doc-1', 3);
+
+			expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+			expect(await chunkNoteId('doc-1', 3)).toBe(id);
+			expect(await chunkNoteId('doc-1', 4)).not.toBe(id);
+			expect(await chunkNoteId('doc-2', 3)).not.toBe(id);
+			expect(await chunkNoteId('doc-1', 3, 'update-1')).not.toBe(id);
+		});
+	});
+
+	describe('workflowDocumentId', () => {
+		it('should derive the same UUID-shaped ID for a workflow instance', async () => {
+			const id = await workflowDocumentId('wf-1');
+
+			expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+			expect(await workflowDocumentId('wf-1')).toBe(id);
+			expect(await workflowDocumentId('wf-2')).not.toBe(id);
+		});
+	});
+
+	describe('updateDocument', () => {
+		it('should replace content and merge metadata', async () => {
+			await docStore.createDocument(
+				{
+					content: 'Original content',
+					title: 'Original',
+					contentType: 'text/plain',
+					metadata: { author: 'Ada', tags: ['a'] },
+				},
+				'doc-1'
+			);
+
+			const stored = await docStore.updateDocument('doc-1', {
+				content: 'Fixed content',
+				metadata: { tags: ['b'] },
+			});
+
+			expect(stored?.metadata).toMatchObject({ title: 'Original', author: 'Ada', tags: ['b'] });
+
+			const document = await docStore.getDocument('doc-1');
+			expect(document?.content).toBe('Fixed content');
+			expect(document?.title).toBe('Original');
+			expect(document?.metadata.tags).toEqual(['b']);
+		});
+
+		it('should return null for an unknown document', async () => {
+			expect(await docStore.updateDocument('missing', { content: 'x' })).toBeNull();
+		});
+
+		it('should prepare the update without writing it, then write it at the same upload time', async () => {
+			await docStore.createDocument({ content: 'Original content', title: 'Original', metadata: { author: 'Ada' } }, 'doc-1');
+
+			const prepared = await docStore.prepareUpdate('doc-1', { content: 'Fixed content', title: 'Fixed' }, 1234);
+
+			expect(prepared).toMatchObject({ content: 'Fixed content', uploadedAt: 1234, metadata: { title: 'Fixed', author: 'Ada' } });
+			expect((await docStore.getDocument('doc-1'))?.content).toBe('Original content');
+
+			expect(await docStore.updateDocument('doc-1', { content: 'Fixed content', title: 'Fixed' }, 1234)).toEqual(prepared);
+			expect((await docStore.getDocument('doc-1'))?.content).toBe('Fixed content');
+		});
+
+		it('should leave the previous notes retrievable after a failed update', async () => {
+			await docStore.createDocument({ content: 'Original content', title: 'Original' }, 'doc-1');
+			await docStore.createNote({ id: 'note-old', document_id: 'doc-1', text: 'Original content', chunk_index: 0 });
+			await docStore.updateStatus('doc-1', 'ready');
+
+			// The update marks the document, writes its revision's notes, then fails and rolls back
+			await docStore.updateStatus('doc-1', 'updating');
+			const revisionIds = await documentNoteIds('doc-1', 1, 'update-1');
+			await docStore.createNote({ id: revisionIds[0], document_id: 'doc-1', text: 'New content', chunk_index: 0 });
+			await docStore.deleteNotes(revisionIds);
+			await docStore.recordUpdateFailure('doc-1', 'ready', 'Embedding model unavailable');
+
+			expect(await docStore.filterDocumentIds(['doc-1'])).toEqual(new Set(['doc-1']));
+			const document = await docStore.getDocument('doc-1');
+			expect(document).toMatchObject({ status: 'ready', updateError: 'Embedding model unavailable', content: 'Original content' });
+			expect((await docStore.listNotes('doc-1')).map(note => note.id)).toEqual(['note-old']);
+
+			await docStore.updateDocument('doc-1', { content: 'New content' });
+			expect((await docStore.getDocument('doc-1'))?.updateError).toBeNull();
+		});
+
+		it('should record the revision of the notes in the KV metadata', async () => {
+			await docStore.createDocument({ content: 'Original content', title: 'Original' }, 'doc-1');
+			await docStore.updateDocument('doc-1', { content: 'Fixed content' }, 1234, 'update-1');
+
+			expect(await docStore.listStoredDocuments()).toEqual({
+				documents: [{ documentId: 'doc-1', uploadedAt: 1234, revision: 'update-1' }],
+				cursor: null,
+			});
+		});
+	});
+
+	describe('deleteNotes', () => {
+		it('should remove notes, full-text entries and vectors', async () => {
+			await docStore.createNote({ id: 'note-1', document_id: 'doc-1', text: 'One', chunk_index: 0 });
+			await docStore.createNote({ id: 'note-2', document_id: 'doc-1', text: 'Two', chunk_index: 1 });
+			await mockVectorIndex.upsert([{ id: 'note-1', values: [0.1] }, { id: 'note-2', values: [0.2] }]);
+
+			await docStore.deleteNotes(['note-1']);
+
+			expect((await docStore.listNotes('doc-1')).map(n => n.id)).toEqual(['note-2']);
+			expect(mockDB.getTable('notes_fts').map(n => n.note_id)).toEqual(['note-2']);
+			expect(mockVectorIndex.hasVector('note-1')).toBe(false);
+			expect(mockVectorIndex.hasVector('note-2')).toBe(true);
+		});
+
+		it('should delete many notes in queries of at most 100 parameters', async () => {
+			const noteIds = Array.from({ length: 150 }, (_, i) => `note-${i}`);
+			for (const [i, id] of noteIds.entries()) {
+				await docStore.createNote({ id, document_id: 'doc-1', text: `Note ${i}`, chunk_index: i });
+			}
+			const prepare = vi.spyOn(mockDB, 'prepare');
+
+			await docStore.deleteNotes(noteIds);
+
+			expect(await docStore.listNotes('doc-1')).toEqual([]);
+			expect(mockDB.getTable('notes_fts')).toEqual([]);
+			const queries = prepare.mock.calls.map(([query]) => query).filter(query => query.includes('IN ('));
+			expect(queries).toHaveLength(6);
+			expect(queries.every(query => (query.match(/\?/g) ?? []).length <= 100)).toBe(true);
+		});
 	});
 
 	describe('listDocuments', () => {
@@ -401,4 +702,87 @@ describe('DocumentStore', () => {
 			expect(documents.length).toBeGreaterThanOrEqual(2);
 		});
 	});
+
+	describe('tenant isolation', () => {
+		let tenantStore: DocumentStore;
+
+		beforeEach(async () => {
+			tenantStore = new DocumentStore(mockEnv as Env, mockLogger, 'acme');
+			await docStore.createDocument({ content: 'Default doc', title: 'Default' }, 'doc-default');
+			await docStore.createNote({ id: 'note-default', document_id: 'doc-default', text: 'Default', chunk_index: 0 });
+		});
+
+		it('should prefix KV keys for non-default tenants', async () => {
+			await tenantStore.createDocument({ content: 'Acme doc', title: 'Acme' }, 'doc-acme');
+
+			expect(await mockKV.get('tenant:acme:doc:doc-acme')).not.toBeNull();
+			expect(await mockKV.get('doc:doc-default')).not.toBeNull();
+			expect(await mockKV.get('doc:doc-acme')).toBeNull();
+		});
+
+		it('should not read, list or delete another tenant\'s documents', async () => {
+			await tenantStore.createDocument({ content: 'Acme doc', title: 'Acme' }, 'doc-acme');
+
+			expect(await tenantStore.getDocument('doc-default')).toBeNull();
+			expect((await tenantStore.listDocuments()).map(d => d.id)).toEqual(['doc-acme']);
+			expect((await tenantStore.deleteDocument('doc-default')).status).toBe('not_found');
+			expect(await docStore.getDocument('doc-default')).not.toBeNull();
+		});
+
+		it('should not return or delete another tenant\'s notes', async () => {
+			await mockVectorIndex.upsert([{ id: 'note-default', values: [0.1] }]);
+
+			expect(await tenantStore.getNotesByIds(['note-default'])).toHaveLength(0);
+
+			await tenantStore.deleteNotes(['note-default']);
+
+			expect(await docStore.getNotesByIds(['note-default'])).toHaveLength(1);
+			expect(mockVectorIndex.hasVector('note-default')).toBe(true);
+		});
+	});
+
+	describe('duplicate detection', () => {
+		it('should find ingesting or ready documents with the same content in the tenant', async () => {
+			await docStore.createDocument({ content: 'Same text', title: 'First' }, 'doc-1');
+			await new DocumentStore(mockEnv as Env, mockLogger, 'acme').createDocument({ content: 'Same text', title: 'Acme' }, 'doc-acme');
+
+			const duplicate = await docStore.findDuplicate(await sha256Hex('Same text'));
+
+			expect(duplicate?.id).toBe('doc-1');
+			expect(await docStore.findDuplicate(await sha256Hex('Other text'))).toBeNull();
+		});
+
+		it('should ignore failed and superseded documents', async () => {
+			await docStore.createDocument({ content: 'Same text', title: 'First' }, 'doc-1');
+			await docStore.updateStatus('doc-1', 'failed', 'Embedding failed');
+
+			expect(await docStore.findDuplicate(await sha256Hex('Same text'))).toBeNull();
+		});
+
+		it('should number versions and refresh the hash when content is replaced', async () => {
+			await docStore.createDocument({ content: 'Same text', title: 'First' }, 'doc-1');
+			await docStore.createDocument({ content: 'Same text', title: 'Second', previousVersionId: 'doc-1' }, 'doc-2');
+
+			const document = await docStore.getDocument('doc-2');
+			expect(document?.version).toBe(2);
+			expect(document?.previousVersionId).toBe('doc-1');
+
+			await docStore.updateDocument('doc-1', { content: 'New text' });
+			expect((await docStore.findDuplicate(await sha256Hex('New text')))?.id).toBe('doc-1');
+		});
+
+		it('should look up many hashes in queries of at most 100 parameters', async () => {
+			await docStore.createDocument({ content: 'Text 0', title: 'First' }, 'doc-1');
+			await docStore.createDocument({ content: 'Text 149', title: 'Second' }, 'doc-2');
+			const hashes = await Promise.all(Array.from({ length: 150 }, (_, i) => sha256Hex(`Text ${i}`)));
+			const prepare = vi.spyOn(mockDB, 'prepare');
+
+			const duplicates = await docStore.findDuplicates(hashes);
+
+			expect([...duplicates.values()].map(document => document.id)).toEqual(['doc-1', 'doc-2']);
+			const lookups = prepare.mock.calls.filter(([query]) => query.includes('content_hash IN'));
+			expect(lookups).toHaveLength(2);
+			expect(lookups.every(([query]) => (query.match(/\?/g) ?? []).length <= 100)).toBe(true);
+		});
+	});
 });
@@ -0,0 +1,29 @@
+/**
+ * Unit tests for duplicate document policies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDuplicatePolicy, resolveDuplicatePolicy } from '../src/utils/duplicates';
+import { Env } from '../src/types';
+
+describe('duplicate policies', () => {
+	it('should accept the three policies and treat absent values as unset', () => {
+		expect(parseDuplicatePolicy('reject').value).toBe('reject');
+		expect(parseDuplicatePolicy('return').value).toBe('return');
+		expect(parseDuplicatePolicy('version').value).toBe('version');
+		expect(parseDuplicatePolicy(undefined)).toEqual({});
+		expect(parseDuplicatePolicy(null)).toEqual({});
+	});
+
+	it('should reject unknown policies', () => {
+		expect(parseDuplicatePolicy('replace').error).toContain('reject, return, version');
+		expect(parseDuplicatePolicy(1).error).toBeDefined();
+	});
+
+	it('should prefer the request policy, then DUPLICATE_POLICY, then reject', () => {
+		expect(resolveDuplicatePolicy({} as Env)).toBe('reject');
+		expect(resolveDuplicatePolicy({ DUPLICATE_POLICY: 'return' } as Env)).toBe('return');
+		expect(resolveDuplicatePolicy({ DUPLICATE_POLICY: 'return' } as Env, 'version')).toBe('version');
+		expect(resolveDuplicatePolicy({ DUPLICATE_POLICY: 'bogus' } as Env)).toBe('reject');
+	});
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the KV embedding cache
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+	embedTextsCached, embeddingCacheKey, normalizeEmbeddingText, resolveEmbeddingCacheTtl
+} from '../src/utils/embedding-cache';
+import { Logger } from '../src/utils/logger';
+import { Env } from '../src/types';
+
+const model = { name: '@cf/baai/bge-small-en-v1.5', dimensions: 4 };
+
+/**
+ * Build an Env with an in-memory DOCUMENTS namespace and an embedding model
+ * whose vectors encode the length of each text
+ */
+function createMockEnv(vars: Partial<Env> = {}) {
+	const kv = new Map<string, ArrayBuffer>();
+	const run = vi.fn(async (_model: string, input: { text: string[] }) => ({
+		data: input.text.map(text => [text.length, 0.5, 0.25, 0]),
+	}));
+	const env = {
+		AI: { run },
+		DOCUMENTS: {
+			get: vi.fn(async (key: string) => kv.get(key) ?? null),
+			put: vi.fn(async (key: string, value: ArrayBuffer) => {
+				kv.set(key, value);
+			}),
+		},
+		...vars,
+	};
+	return { env: env as unknown as Env, run };
+}
+
+describe('embedding cache keys', () => {
+	it('should normalize whitespace before hashing', async () => {
+		expect(normalizeEmbeddingText('  What is\n\tRAG?  ')).toBe('What is RAG?');
+		expect(await embeddingCacheKey(model, 'What is RAG?')).toBe(await embeddingCacheKey(model, ' What  is RAG? '));
+	});
+
+	it('should change with the model and its dimensions', async () => {
+		const key = await embeddingCacheKey(model, 'text');
+
+		expect(key).toMatch(/^embedding:@cf\/baai\/bge-small-en-v1\.5:4:[0-9a-f]{64}$/);
+		expect(await embeddingCacheKey({ ...model, name: '@cf/baai/bge-m3' }, 'text')).not.toBe(key);
+		expect(await embeddingCacheKey({ ...model, dimensions: 8 }, 'text')).not.toBe(key);
+	});
+
+	it('should keep entries for 30 days unless configured, and disable the cache with 0', () => {
+		expect(resolveEmbeddingCacheTtl({} as Env)).toBe(30 * 24 * 60 * 60);
+		expect(resolveEmbeddingCacheTtl({ EMBEDDING_CACHE_TTL_SECONDS: '3600' } as Env)).toBe(3600);
+		expect(resolveEmbeddingCacheTtl({ EMBEDDING_CACHE_TTL_SECONDS: '10' } as Env)).toBe(60);
+		expect(resolveEmbeddingCacheTtl({ EMBEDDING_CACHE_TTL_SECONDS: '0' } as Env)).toBe(0);
+	});
+});
+
+describe('embedTextsCached', () => {
+	let logger: Logger;
+
+	beforeEach(() => {
+		logger = new Logger();
+		vi.spyOn(console, 'info').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should embed misses once and serve repeated texts from the cache', async () => {
+		const { env, run } = createMockEnv();
+
+		const first = await embedTextsCached(env, logger, model, ['abc', 'abcd', 'abc']);
+		expect(first.vectors).toEqual([[3, 0.5, 0.25, 0], [4, 0.5, 0.25, 0], [3, 0.5, 0.25, 0]]);
+		expect(first.embeddedTexts).toEqual(['abc', 'abcd']);
+
+		const second = await embedTextsCached(env, logger, model, ['abcd', ' abc ', 'abcde']);
+		expect(second.vectors).toEqual([[4, 0.5, 0.25, 0], [3, 0.5, 0.25, 0], [5, 0.5, 0.25, 0]]);
+		expect(second.embeddedTexts).toEqual(['abcde']);
+
+		expect(run).toHaveBeenCalledTimes(2);
+		expect(run.mock.calls[1][1]).toEqual({ text: ['abcde'] });
+	});
+
+	it('should log hits and misses', async () => {
+		const { env } = createMockEnv();
+		await embedTextsCached(env, logger, model, ['abc']);
+
+		const child = vi.spyOn(logger, 'child').mockReturnValue(logger);
+		const log = vi.spyOn(logger, 'info');
+		await embedTextsCached(env, logger, model, ['abc', 'xyz']);
+
+		expect(child).toHaveBeenCalledWith({ component: 'EmbeddingCache' });
+		expect(log).toHaveBeenCalledWith('Embedding cache lookup', { model: model.name, hits: 1, misses: 1, embedded: 1 });
+	});
+
+	it('should not reuse embeddings of another model', async () => {
+		const { env, run } = createMockEnv();
+
+		await embedTextsCached(env, logger, model, ['abc']);
+		await embedTextsCached(env, logger, { ...model, name: '@cf/baai/bge-m3' }, ['abc']);
+
+		expect(run).toHaveBeenCalledTimes(2);
+	});
+
+	it('should fall back to the model when KV fails', async () => {
+		const { env, run } = createMockEnv();
+		vi.mocked(env.DOCUMENTS.get).mockRejectedValue(new Error('KV unavailable'));
+		vi.mocked(env.DOCUMENTS.put).mockRejectedValue(new Error('KV unavailable'));
+
+		const result = await embedTextsCached(env, logger, model, ['abc']);
+
+		expect(result.vectors).toEqual([[3, 0.5, 0.25, 0]]);
+		expect(run).toHaveBeenCalledTimes(1);
+	});
+
+	it('should bypass KV when disabled', async () => {
+		const { env, run } = createMockEnv({ EMBEDDING_CACHE_TTL_SECONDS: '0' });
+
+		await embedTextsCached(env, logger, model, ['abc']);
+		await embedTextsCached(env, logger, model, ['abc']);
+
+		expect(run).toHaveBeenCalledTimes(2);
+		expect(env.DOCUMENTS.get).not.toHaveBeenCalled();
+	});
+});
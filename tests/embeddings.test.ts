@@ -0,0 +1,71 @@
+/**
+ * Unit tests for embedding model resolution and batching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+	embedTexts, resolveEmbeddingBatchSize, resolveEmbeddingModel, vectorEmbeddingModel, MAX_EMBEDDING_BATCH
+} from '../src/utils/embeddings';
+import { Env } from '../src/types';
+
+function createMockEnv(vars: Partial<Env> = {}, dimensions = 768): Env {
+	const run = vi.fn(async (_model: string, input: { text: string[] }) => ({
+		data: input.text.map(() => new Array(dimensions).fill(0)),
+	}));
+	return { AI: { run }, ...vars } as unknown as Env;
+}
+
+describe('resolveEmbeddingModel', () => {
+	it('should default to bge-base', () => {
+		expect(resolveEmbeddingModel(createMockEnv())).toEqual({ name: '@cf/baai/bge-base-en-v1.5', dimensions: 768 });
+	});
+
+	it('should use EMBEDDING_MODEL with known dimensions', () => {
+		expect(resolveEmbeddingModel(createMockEnv({ EMBEDDING_MODEL: '@cf/baai/bge-m3' })))
+			.toEqual({ name: '@cf/baai/bge-m3', dimensions: 1024 });
+	});
+
+	it('should take dimensions of unknown models from EMBEDDING_DIMENSIONS or the argument', () => {
+		const env = createMockEnv({ EMBEDDING_MODEL: '@cf/custom/embedder', EMBEDDING_DIMENSIONS: '512' });
+
+		expect(resolveEmbeddingModel(env).dimensions).toBe(512);
+		expect(resolveEmbeddingModel(env, '@cf/other/embedder', 256).dimensions).toBe(256);
+		expect(() => resolveEmbeddingModel(env, '@cf/other/embedder')).toThrow('Unknown dimensions');
+	});
+});
+
+describe('resolveEmbeddingBatchSize', () => {
+	it('should default to 50 chunks and cap at the Workers AI batch limit', () => {
+		expect(resolveEmbeddingBatchSize({} as Env)).toBe(50);
+		expect(resolveEmbeddingBatchSize({ EMBEDDING_BATCH_SIZE: '10' } as Env)).toBe(10);
+		expect(resolveEmbeddingBatchSize({ EMBEDDING_BATCH_SIZE: '500' } as Env)).toBe(MAX_EMBEDDING_BATCH);
+		expect(resolveEmbeddingBatchSize({ EMBEDDING_BATCH_SIZE: '0' } as Env)).toBe(50);
+	});
+});
+
+describe('vectorEmbeddingModel', () => {
+	it('should treat vectors without a recorded model as bge-base', () => {
+		expect(vectorEmbeddingModel(undefined)).toBe('@cf/baai/bge-base-en-v1.5');
+		expect(vectorEmbeddingModel({ embedding_model: '@cf/baai/bge-m3' })).toBe('@cf/baai/bge-m3');
+	});
+});
+
+describe('embedTexts', () => {
+	it('should embed in batches and keep order', async () => {
+		const env = createMockEnv();
+		const texts = Array.from({ length: MAX_EMBEDDING_BATCH + 5 }, (_, i) => `text ${i}`);
+
+		const vectors = await embedTexts(env, { name: '@cf/baai/bge-base-en-v1.5', dimensions: 768 }, texts);
+
+		expect(vectors).toHaveLength(texts.length);
+		expect(env.AI.run).toHaveBeenCalledTimes(2);
+		expect(vi.mocked(env.AI.run).mock.calls[1][1]).toEqual({ text: texts.slice(MAX_EMBEDDING_BATCH) });
+	});
+
+	it('should reject vectors with unexpected dimensions', async () => {
+		const env = createMockEnv({}, 384);
+
+		await expect(embedTexts(env, { name: '@cf/baai/bge-base-en-v1.5', dimensions: 768 }, ['text']))
+			.rejects.toThrow('returned 384 dimensions, expected 768');
+	});
+});
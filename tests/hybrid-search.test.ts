@@ -0,0 +1,65 @@
+/**
+ * Unit tests for hybrid search helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFtsQuery, fuseRankings, parseKeywordWeight } from '../src/utils/hybrid-search';
+
+describe('buildFtsQuery', () => {
+	it('should quote each term and join with OR', () => {
+		expect(buildFtsQuery('Error E1234 SKU-42')).toBe('"error" OR "e1234" OR "sku-42"');
+	});
+
+	it('should neutralize FTS5 syntax in user input', () => {
+		const query = buildFtsQuery('title:secret AND NOT "x" NEAR(a b)*');
+		expect(query).not.toContain(':');
+		expect(query).not.toContain('(');
+		expect(query).not.toContain('*');
+	});
+
+	it('should deduplicate terms', () => {
+		expect(buildFtsQuery('error Error ERROR')).toBe('"error"');
+	});
+
+	it('should drop stopwords', () => {
+		expect(buildFtsQuery('What is the error on SKU-42?')).toBe('"error" OR "sku-42"');
+		expect(buildFtsQuery('What is it?')).toBeNull();
+	});
+
+	it('should return null when there are no searchable terms', () => {
+		expect(buildFtsQuery('  ?!  ')).toBeNull();
+	});
+});
+
+describe('fuseRankings', () => {
+	it('should rank items found by both searches highest', () => {
+		const fused = fuseRankings(['a', 'b', 'c'], ['c', 'd'], 0.5);
+		expect(fused[0].id).toBe('c');
+		expect(fused[0].vectorRank).toBe(3);
+		expect(fused[0].keywordRank).toBe(1);
+	});
+
+	it('should ignore keyword results when weight is 0', () => {
+		const fused = fuseRankings(['a', 'b'], ['z'], 0);
+		expect(fused.map(r => r.id)).toEqual(['a', 'b']);
+	});
+
+	it('should favour keyword results as weight increases', () => {
+		const fused = fuseRankings(['a', 'b'], ['b', 'a'], 0.8);
+		expect(fused[0].id).toBe('b');
+	});
+});
+
+describe('parseKeywordWeight', () => {
+	it('should accept numbers and numeric strings in range', () => {
+		expect(parseKeywordWeight(0.3)).toEqual({ value: 0.3 });
+		expect(parseKeywordWeight('1')).toEqual({ value: 1 });
+		expect(parseKeywordWeight(undefined)).toEqual({});
+	});
+
+	it('should reject out-of-range or non-numeric values', () => {
+		expect(parseKeywordWeight(1.5).error).toBeDefined();
+		expect(parseKeywordWeight('abc').error).toBeDefined();
+		expect(parseKeywordWeight(true).error).toBeDefined();
+	});
+});
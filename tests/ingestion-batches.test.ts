@@ -0,0 +1,130 @@
+/**
+ * Unit tests for batch ingestion parsing, grouping and results
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	createIngestionBatch, groupForWorkflows, parseBatchBody, toBatchItem, toBatchProgress, MAX_BATCH_ITEMS
+} from '../src/utils/ingestion-batches';
+import { Env, IngestionBatchItemRecord } from '../src/types';
+
+const item = (index: number, status: IngestionBatchItemRecord['status'], fields: Partial<IngestionBatchItemRecord> = {}): IngestionBatchItemRecord => ({
+	batch_id: 'batch-1',
+	item_index: index,
+	status,
+	title: null,
+	workflow_id: null,
+	document_id: null,
+	previous_version_id: null,
+	error: null,
+	...fields,
+});
+
+describe('parseBatchBody', () => {
+	it('should read NDJSON, skipping blank lines and flagging invalid lines', () => {
+		const body = '{"text":"one"}\n\n{"text":"two"}\nnot json\n';
+
+		const { items } = parseBatchBody(body, 'application/x-ndjson');
+
+		expect(items).toEqual([
+			{ index: 0, value: { text: 'one' } },
+			{ index: 1, value: { text: 'two' } },
+			{ index: 2, error: 'Line is not valid JSON' },
+		]);
+	});
+
+	it('should read a JSON array, detected from the content type or the body', () => {
+		const body = '[{"text":"one"},{"text":"two"}]';
+
+		expect(parseBatchBody(body, 'application/json').items).toHaveLength(2);
+		expect(parseBatchBody(body, undefined).items).toHaveLength(2);
+		expect(parseBatchBody('{"text":"one"}', 'application/json').error).toBeDefined();
+	});
+
+	it('should reject empty and oversized batches', () => {
+		expect(parseBatchBody('\n\n', 'application/x-ndjson').error).toBe('Batch contains no documents');
+		expect(parseBatchBody('[]', 'application/json').error).toBe('Batch contains no documents');
+
+		const tooMany = JSON.stringify(Array.from({ length: MAX_BATCH_ITEMS + 1 }, () => ({ text: 'x' })));
+		expect(parseBatchBody(tooMany, 'application/json').error).toContain(String(MAX_BATCH_ITEMS));
+	});
+});
+
+describe('groupForWorkflows', () => {
+	it('should respect the count and size limits', () => {
+		const sizes = [40, 40, 40, 10, 10, 10];
+
+		expect(groupForWorkflows(sizes, size => size, 3, 100)).toEqual([[40, 40], [40, 10, 10], [10]]);
+	});
+
+	it('should give oversized items a group of their own', () => {
+		expect(groupForWorkflows([10, 500, 10], size => size, 100, 100)).toEqual([[10], [500], [10]]);
+	});
+});
+
+describe('batch results', () => {
+	it('should record the batch with counts per outcome', async () => {
+		const statements: Array<{ query: string; params: any[] }> = [];
+		const env = {
+			DATABASE: {
+				prepare: (query: string) => ({ bind: (...params: any[]) => ({ query, params }) }),
+				batch: async (batch: Array<{ query: string; params: any[] }>) => {
+					statements.push(...batch);
+					return [];
+				},
+			},
+		} as unknown as Env;
+		const items = [
+			item(0, 'accepted', { workflow_id: 'wf-1' }),
+			item(1, 'rejected', { error: 'Missing text' }),
+			item(2, 'duplicate', { document_id: 'doc-1' }),
+		];
+
+		const batch = await createIngestionBatch(env, 'batch-1', 'acme', items);
+
+		expect(batch).toMatchObject({ id: 'batch-1', tenant_id: 'acme', total: 3, accepted: 1, rejected: 1, duplicates: 1 });
+		expect(statements).toHaveLength(2);
+		expect(statements[1].params.slice(0, 8)).toEqual(['batch-1', 0, 'accepted', null, 'wf-1', null, null, null]);
+		expect(statements[1].params).toHaveLength(24);
+	});
+
+	it('should record the largest batch in a bounded number of statements', async () => {
+		const statements: Array<{ query: string; params: any[] }> = [];
+		const env = {
+			DATABASE: {
+				prepare: (query: string) => ({ bind: (...params: any[]) => ({ query, params }) }),
+				batch: async (batch: Array<{ query: string; params: any[] }>) => {
+					statements.push(...batch);
+					return [];
+				},
+			},
+		} as unknown as Env;
+		const items = Array.from({ length: MAX_BATCH_ITEMS }, (_, index) => item(index, 'rejected', { error: 'Missing text' }));
+
+		await createIngestionBatch(env, 'batch-1', 'acme', items);
+
+		// 84 item inserts of at most 12 rows, each within D1's 100 bound parameters
+		expect(statements.length).toBeLessThanOrEqual(100);
+		expect(statements.every(statement => statement.params.length <= 100)).toBe(true);
+		const indexes = statements.slice(1).flatMap(statement => statement.params.filter((_, i) => i % 8 === 1));
+		expect(indexes).toEqual(items.map(entry => entry.item_index));
+	});
+
+	it('should report accepted items as pending until their document exists', () => {
+		const batch = { id: 'batch-1', tenant_id: 'default', total: 3, accepted: 2, rejected: 1, duplicates: 0, created_at: 1 };
+
+		const progress = toBatchProgress(batch, [
+			toBatchItem(item(0, 'accepted', { workflow_id: 'wf-1' }), 'ready'),
+			toBatchItem(item(1, 'accepted', { workflow_id: 'wf-2', previous_version_id: 'doc-1' })),
+			toBatchItem(item(2, 'rejected', { error: 'Missing text' })),
+		]);
+
+		expect(progress.documents).toEqual({ ready: 1, pending: 1 });
+		expect(progress.items[1]).toEqual({
+			index: 1, status: 'accepted', title: null, workflowId: 'wf-2', documentId: null, previousVersionId: 'doc-1', documentStatus: 'pending',
+		});
+		expect(progress.items[2]).toEqual({
+			index: 2, status: 'rejected', title: null, workflowId: null, documentId: null, error: 'Missing text',
+		});
+	});
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for LLM provider configuration and backends
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLLMProvider, resolveLLMConfig } from '../src/utils/llm-provider';
+import { Env } from '../src/types';
+
+function createMockEnv(vars: Partial<Env> = {}): Env {
+	return { AI: { run: vi.fn() }, ...vars } as unknown as Env;
+}
+
+function sseResponse(lines: string[]): Response {
+	return new Response(lines.map(line => `data: ${line}\n\n`).join(''), {
+		headers: { 'Content-Type': 'text/event-stream' },
+	});
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('resolveLLMConfig', () => {
+	it('should default to Workers AI without an Anthropic key', () => {
+		expect(resolveLLMConfig(createMockEnv())).toEqual({
+			provider: 'workers-ai',
+			model: '@cf/meta/llama-3.1-8b-instruct',
+			maxTokens: 2048,
+			temperature: undefined,
+		});
+	});
+
+	it('should default to Anthropic when a key is set and honor ANTHROPIC_MODEL', () => {
+		const config = resolveLLMConfig(createMockEnv({ ANTHROPIC_API_KEY: 'key', ANTHROPIC_MODEL: 'claude-sonnet-4-5' }));
+
+		expect(config.provider).toBe('anthropic');
+		expect(config.model).toBe('claude-sonnet-4-5');
+	});
+
+	it('should prefer LLM_MODEL and parse max tokens and temperature', () => {
+		const config = resolveLLMConfig(createMockEnv({
+			LLM_PROVIDER: 'openai',
+			LLM_MODEL: 'llama-3.3-70b',
+			OPENAI_MODEL: 'gpt-4o',
+			LLM_MAX_TOKENS: '512',
+			LLM_TEMPERATURE: '0.2',
+		}));
+
+		expect(config).toEqual({ provider: 'openai', model: 'llama-3.3-70b', maxTokens: 512, temperature: 0.2 });
+	});
+
+	it('should ignore invalid max tokens and temperature', () => {
+		const config = resolveLLMConfig(createMockEnv({ LLM_MAX_TOKENS: '-5', LLM_TEMPERATURE: 'hot' }));
+
+		expect(config.maxTokens).toBe(2048);
+		expect(config.temperature).toBeUndefined();
+	});
+
+	it('should reject unknown providers', () => {
+		expect(() => resolveLLMConfig(createMockEnv({ LLM_PROVIDER: 'mystery' }))).toThrow('Unsupported LLM_PROVIDER');
+	});
+});
+
+describe('createLLMProvider', () => {
+	it('should require an API key for Anthropic', () => {
+		expect(() => createLLMProvider(createMockEnv({ LLM_PROVIDER: 'anthropic' }))).toThrow('ANTHROPIC_API_KEY');
+	});
+
+	it('should complete with Workers AI and report usage', async () => {
+		const env = createMockEnv({ LLM_TEMPERATURE: '0.5' });
+		vi.mocked(env.AI.run).mockResolvedValue({ response: 'Hi', usage: { prompt_tokens: 8, completion_tokens: 1 } } as any);
+
+		const result = await createLLMProvider(env).complete({ system: 'Be brief', messages: [{ role: 'user', content: 'Hello' }] });
+
+		expect(result).toEqual({
+			provider: 'workers-ai',
+			model: '@cf/meta/llama-3.1-8b-instruct',
+			text: 'Hi',
+			usage: { inputTokens: 8, outputTokens: 1 },
+		});
+		expect(env.AI.run).toHaveBeenCalledWith('@cf/meta/llama-3.1-8b-instruct', {
+			messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hello' }],
+			max_tokens: 2048,
+			temperature: 0.5,
+		});
+	});
+});
+
+describe('OpenAI-compatible provider', () => {
+	const env = createMockEnv({
+		LLM_PROVIDER: 'openai',
+		OPENAI_API_KEY: 'sk-test',
+		OPENAI_BASE_URL: 'https://llm.example.com/v1/',
+	});
+
+	it('should post chat completions and map the response', async () => {
+		const fetchMock = vi.fn(async () => Response.json({
+			model: 'gpt-4o-mini-2024-07-18',
+			choices: [{ message: { content: 'Answer' } }],
+			usage: { prompt_tokens: 30, completion_tokens: 4 },
+		}));
+		vi.stubGlobal('fetch', fetchMock);
+
+		const result = await createLLMProvider(env).complete({
+			system: 'System',
+			messages: [{ role: 'user', content: 'Question' }],
+			maxTokens: 100,
+		});
+
+		expect(result).toEqual({
+			provider: 'openai',
+			model: 'gpt-4o-mini-2024-07-18',
+			text: 'Answer',
+			usage: { inputTokens: 30, outputTokens: 4 },
+		});
+		const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+		expect(url).toBe('https://llm.example.com/v1/chat/completions');
+		expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+		expect(JSON.parse(init.body as string)).toMatchObject({
+			model: 'gpt-4o-mini',
+			messages: [{ role: 'system', content: 'System' }, { role: 'user', content: 'Question' }],
+			max_tokens: 100,
+			stream: false,
+		});
+	});
+
+	it('should stream tokens and set usage once the stream ends', async () => {
+		vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+			'{"choices":[{"delta":{"content":"Hel"}}]}',
+			'{"choices":[{"delta":{"content":"lo"}}]}',
+			'{"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":2}}',
+			'[DONE]',
+		])));
+
+		const completion = createLLMProvider(env).stream({ system: 'System', messages: [{ role: 'user', content: 'Hi' }] });
+		const tokens: string[] = [];
+		for await (const token of completion.tokens) {
+			tokens.push(token);
+		}
+
+		expect(tokens).toEqual(['Hel', 'lo']);
+		expect(completion.model).toBe('gpt-4o-mini');
+		expect(completion.usage).toEqual({ inputTokens: 10, outputTokens: 2 });
+	});
+
+	it('should throw on error responses', async () => {
+		vi.stubGlobal('fetch', vi.fn(async () => new Response('rate limited', { status: 429 })));
+
+		await expect(createLLMProvider(env).complete({ system: 'System', messages: [] }))
+			.rejects.toThrow('OpenAI-compatible API returned 429: rate limited');
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for LLM streaming helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readAnthropicStream, readOpenAIStream, readWorkersAIStream } from '../src/utils/llm-stream';
+
+function byteStream(chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+			controller.close();
+		},
+	});
+}
+
+async function collect(tokens: AsyncGenerator<string>): Promise<string[]> {
+	const result: string[] = [];
+	for await (const token of tokens) {
+		result.push(token);
+	}
+	return result;
+}
+
+describe('readWorkersAIStream', () => {
+	it('should yield response tokens from SSE lines', async () => {
+		const stream = byteStream([
+			'data: {"response":"Hello"}\n\n',
+			'data: {"response":" world"}\n\n',
+			'data: [DONE]\n\n',
+		]);
+
+		expect(await collect(readWorkersAIStream(stream))).toEqual(['Hello', ' world']);
+	});
+
+	it('should handle events split across chunks', async () => {
+		const stream = byteStream(['data: {"resp', 'onse":"Hel', 'lo"}\n', '\ndata: {"response":"!"}']);
+
+		expect(await collect(readWorkersAIStream(stream))).toEqual(['Hello', '!']);
+	});
+
+	it('should skip malformed and non-data lines', async () => {
+		const stream = byteStream([': keep-alive\n', 'data: not json\n', 'data: {"response":"ok"}\n']);
+
+		expect(await collect(readWorkersAIStream(stream))).toEqual(['ok']);
+	});
+
+	it('should report usage from the final event', async () => {
+		const onUsage = vi.fn();
+		const stream = byteStream([
+			'data: {"response":"Hi"}\n\n',
+			'data: {"response":"","usage":{"prompt_tokens":12,"completion_tokens":3}}\n\n',
+			'data: [DONE]\n\n',
+		]);
+
+		expect(await collect(readWorkersAIStream(stream, onUsage))).toEqual(['Hi']);
+		expect(onUsage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3 });
+	});
+});
+
+describe('readOpenAIStream', () => {
+	it('should yield content deltas and report usage', async () => {
+		const onUsage = vi.fn();
+		const stream = byteStream([
+			'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+			'data: {"choices":[{"delta":{"content":"Hello"}}]}\n\n',
+			'data: {"choices":[{"delta":{"content":" world"}}]}\n\n',
+			'data: {"choices":[],"usage":{"prompt_tokens":20,"completion_tokens":2}}\n\n',
+			'data: [DONE]\n\n',
+			'data: {"choices":[{"delta":{"content":"ignored"}}]}\n\n',
+		]);
+
+		expect(await collect(readOpenAIStream(stream, onUsage))).toEqual(['Hello', ' world']);
+		expect(onUsage).toHaveBeenCalledWith({ inputTokens: 20, outputTokens: 2 });
+	});
+});
+
+describe('readAnthropicStream', () => {
+	it('should yield only text deltas', async () => {
+		async function* events(): AsyncGenerator<any> {
+			yield { type: 'message_start', message: {} };
+			yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } };
+			yield { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{}' } };
+			yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } };
+			yield { type: 'message_stop' };
+		}
+
+		expect(await collect(readAnthropicStream(events()))).toEqual(['Hi', ' there']);
+	});
+
+	it('should report input and output tokens', async () => {
+		async function* events(): AsyncGenerator<any> {
+			yield { type: 'message_start', message: { usage: { input_tokens: 40, output_tokens: 1 } } };
+			yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } };
+			yield { type: 'message_delta', delta: {}, usage: { output_tokens: 5 } };
+			yield { type: 'message_stop' };
+		}
+		const onUsage = vi.fn();
+
+		await collect(readAnthropicStream(events(), onUsage));
+
+		expect(onUsage).toHaveBeenCalledWith({ inputTokens: 40, outputTokens: 5 });
+	});
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for standalone question condensation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { cleanSearchQuery, condenseQuestion, resolveCondenseQuestions } from '../src/utils/question-condensing';
+import { Env } from '../src/types';
+
+function createMockEnv(text: string, vars: Partial<Env> = {}): Env {
+	return { AI: { run: vi.fn(async () => ({ response: text })) }, ...vars } as unknown as Env;
+}
+
+describe('resolveCondenseQuestions', () => {
+	it('should prefer the request option over CHAT_CONDENSE_QUESTIONS', () => {
+		expect(resolveCondenseQuestions(createMockEnv(''))).toBe(false);
+		expect(resolveCondenseQuestions(createMockEnv('', { CHAT_CONDENSE_QUESTIONS: 'true' }))).toBe(true);
+		expect(resolveCondenseQuestions(createMockEnv('', { CHAT_CONDENSE_QUESTIONS: 'true' }), false)).toBe(false);
+		expect(resolveCondenseQuestions(createMockEnv(''), true)).toBe(true);
+	});
+});
+
+describe('cleanSearchQuery', () => {
+	it('should keep the first line without a prefix or quotes', () => {
+		expect(cleanSearchQuery('\n  Query: "How do I rotate API keys?"\nBecause the user asked...')).toBe('How do I rotate API keys?');
+	});
+});
+
+describe('condenseQuestion', () => {
+	const history = [
+		{ role: 'user' as const, content: 'Which plans include SSO?' },
+		{ role: 'assistant' as const, content: 'The Business and Enterprise plans include SSO.' },
+	];
+
+	it('should return the message unchanged without earlier conversation', async () => {
+		const env = createMockEnv('ignored');
+
+		expect(await condenseQuestion(env, null, [], 'What is SSO?')).toBe('What is SSO?');
+		expect(env.AI.run).not.toHaveBeenCalled();
+	});
+
+	it('should report the completion for usage accounting', async () => {
+		const env = createMockEnv('How much does the Enterprise plan cost?');
+		const onCompletion = vi.fn();
+
+		await condenseQuestion(env, null, history, 'How much is the second one?', onCompletion);
+
+		expect(onCompletion).toHaveBeenCalledOnce();
+		expect(onCompletion.mock.calls[0][1]).toMatchObject({ text: 'How much does the Enterprise plan cost?' });
+	});
+
+	it('should rewrite a follow-up using the history and summary', async () => {
+		const env = createMockEnv('How much does the Enterprise plan cost?');
+
+		const query = await condenseQuestion(env, 'User is comparing plans.', history, 'How much is the second one?');
+
+		expect(query).toBe('How much does the Enterprise plan cost?');
+		const prompt = JSON.stringify((vi.mocked(env.AI.run).mock.calls[0] as unknown[])[1]);
+		expect(prompt).toContain('User is comparing plans.');
+		expect(prompt).toContain('Assistant: The Business and Enterprise plans include SSO.');
+		expect(prompt).toContain('How much is the second one?');
+	});
+
+	it('should fall back to the message when the model returns nothing', async () => {
+		const env = createMockEnv('  ');
+
+		expect(await condenseQuestion(env, null, history, 'And the second one?')).toBe('And the second one?');
+	});
+});
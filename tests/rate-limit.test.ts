@@ -0,0 +1,98 @@
+/**
+ * Unit tests for sliding window rate limits and daily token quotas
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	checkRateLimit, checkTokenQuota, completionTokenCount, rateLimitHeaders, rateLimitIdentity, recordTokenUsage,
+	resolveRateLimitConfig, MemoryRateLimitStore, RateLimitConfig
+} from '../src/utils/rate-limit';
+import { Env } from '../src/types';
+
+const config: RateLimitConfig = { limit: 3, windowMs: 60_000 };
+const WINDOW_START = 1_800_000_000_000 - (1_800_000_000_000 % 60_000);
+
+describe('checkRateLimit', () => {
+	it('should allow requests up to the limit and refuse the next', async () => {
+		const store = new MemoryRateLimitStore();
+
+		const results = [];
+		for (let i = 0; i < 4; i++) {
+			results.push(await checkRateLimit(store, 'ip:1.2.3.4', config, WINDOW_START + 1000));
+		}
+
+		expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+		expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0]);
+		expect(results[3].retryAfterSeconds).toBeGreaterThan(0);
+	});
+
+	it('should weight the previous window by its overlap with the sliding window', async () => {
+		const store = new MemoryRateLimitStore();
+		for (let i = 0; i < 3; i++) {
+			await checkRateLimit(store, 'key:a', config, WINDOW_START + 59_000);
+		}
+
+		// 10% into the next window, 90% of the previous 3 requests still count
+		expect((await checkRateLimit(store, 'key:a', config, WINDOW_START + 66_000)).allowed).toBe(false);
+		// Halfway through, 1.5 of them count
+		expect((await checkRateLimit(store, 'key:a', config, WINDOW_START + 90_000)).allowed).toBe(true);
+	});
+
+	it('should count identities separately', async () => {
+		const store = new MemoryRateLimitStore();
+		for (let i = 0; i < 3; i++) {
+			await checkRateLimit(store, 'key:a', config, WINDOW_START);
+		}
+
+		expect((await checkRateLimit(store, 'key:b', config, WINDOW_START)).allowed).toBe(true);
+	});
+});
+
+describe('token quotas', () => {
+	it('should refuse once the day\'s tokens are used and reset the next UTC day', async () => {
+		const store = new MemoryRateLimitStore();
+		const now = Date.UTC(2026, 9, 19, 23, 0, 0);
+
+		expect((await checkTokenQuota(store, 'key:a', 1000, now)).allowed).toBe(true);
+		await recordTokenUsage(store, 'key:a', 1200, now);
+
+		const exhausted = await checkTokenQuota(store, 'key:a', 1000, now);
+		expect(exhausted).toMatchObject({ allowed: false, used: 1200, resetSeconds: 3600 });
+		expect((await checkTokenQuota(store, 'key:a', 1000, now + 3600_000)).allowed).toBe(true);
+	});
+
+	it('should use reported usage, or estimate tokens from the prompt and answer', () => {
+		const request = { system: 'x'.repeat(40), messages: [{ role: 'user' as const, content: 'y'.repeat(40) }] };
+
+		expect(completionTokenCount(request, 'answer', { inputTokens: 100, outputTokens: 20 })).toBe(120);
+		expect(completionTokenCount(request, 'z'.repeat(8), null)).toBe(23);
+	});
+});
+
+describe('configuration and headers', () => {
+	it('should default to 30 requests a minute without a quota', () => {
+		expect(resolveRateLimitConfig({} as Env)).toEqual({ limit: 30, windowMs: 60_000, dailyTokenQuota: undefined });
+		expect(resolveRateLimitConfig({ RATE_LIMIT_REQUESTS: '5', DAILY_TOKEN_QUOTA: '50000' } as Env))
+			.toMatchObject({ limit: 5, dailyTokenQuota: 50000 });
+	});
+
+	it('should identify callers by API key, then IP', () => {
+		expect(rateLimitIdentity('k1', '1.2.3.4')).toBe('key:k1');
+		expect(rateLimitIdentity(null, '1.2.3.4')).toBe('key:admin');
+		expect(rateLimitIdentity(undefined, '1.2.3.4')).toBe('ip:1.2.3.4');
+	});
+
+	it('should describe the limit in RateLimit-* headers and add Retry-After when refused', () => {
+		const headers = rateLimitHeaders({ allowed: false, limit: 30, remaining: 0, resetSeconds: 12, retryAfterSeconds: 7 }, {
+			limit: 30, windowMs: 60_000,
+		});
+
+		expect(headers).toEqual({
+			'RateLimit-Limit': '30',
+			'RateLimit-Remaining': '0',
+			'RateLimit-Reset': '12',
+			'RateLimit-Policy': '30;w=60',
+			'Retry-After': '7',
+		});
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the Workers AI reranker and rerank options
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkersAIReranker, parseRerankOption, resolveRerankEnabled } from '../src/utils/reranker';
+import { Env } from '../src/types';
+
+describe('WorkersAIReranker', () => {
+	it('should map scores back to the order of the documents', async () => {
+		const run = vi.fn(async () => ({ response: [{ id: 2, score: 0.9 }, { id: 0, score: 0.4 }, { id: 1, score: 0.1 }] }));
+		const reranker = new WorkersAIReranker({ run } as unknown as Ai);
+
+		expect(await reranker.rerank('question', ['a', 'b', 'c'])).toEqual([0.4, 0.1, 0.9]);
+		expect(run).toHaveBeenCalledWith('@cf/baai/bge-reranker-base', {
+			query: 'question',
+			contexts: [{ text: 'a' }, { text: 'b' }, { text: 'c' }],
+			top_k: 3,
+		});
+	});
+
+	it('should skip the model call without documents', async () => {
+		const run = vi.fn();
+		const reranker = new WorkersAIReranker({ run } as unknown as Ai);
+
+		expect(await reranker.rerank('question', [])).toEqual([]);
+		expect(run).not.toHaveBeenCalled();
+	});
+});
+
+describe('resolveRerankEnabled', () => {
+	it('should prefer the request option over ENABLE_RERANKING', () => {
+		expect(resolveRerankEnabled({} as Env)).toBe(false);
+		expect(resolveRerankEnabled({ ENABLE_RERANKING: 'true' } as Env)).toBe(true);
+		expect(resolveRerankEnabled({ ENABLE_RERANKING: 'true' } as Env, false)).toBe(false);
+	});
+});
+
+describe('parseRerankOption', () => {
+	it('should accept booleans and boolean strings', () => {
+		expect(parseRerankOption(undefined)).toEqual({});
+		expect(parseRerankOption('true')).toEqual({ value: true });
+		expect(parseRerankOption(false)).toEqual({ value: false });
+		expect(parseRerankOption('yes').error).toBeDefined();
+	});
+});
@@ -0,0 +1,297 @@
+/**
+ * Unit tests for hybrid retrieval
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { retrieveNotes } from '../src/utils/retrieval';
+import { Logger } from '../src/utils/logger';
+import { Env, NoteRecord } from '../src/types';
+
+interface MockSetup {
+	vectorMatches?: Array<{ id: string; score: number; metadata?: Record<string, unknown> }>;
+	storedVectors?: Array<{ id: string; values: number[]; metadata?: Record<string, unknown> }>; // Returned by getByIds
+	keywordIds?: string[];
+	notes?: NoteRecord[];
+	allowedDocumentIds?: string[]; // Ready documents passing the filter (default: all)
+}
+
+/**
+ * Build an Env whose bindings answer the queries issued by retrieveNotes
+ */
+function createMockEnv(setup: MockSetup) {
+	const notes = setup.notes ?? [];
+	const queries: Array<{ query: string; params: any[] }> = [];
+
+	const env = {
+		AI: { run: vi.fn(async () => ({ data: [new Array(768).fill(0.1)] })) },
+		DOCUMENTS: { get: async () => null, put: async () => {} }, // Embedding cache, always missing
+		VECTOR_INDEX: {
+			query: vi.fn(async () => ({ matches: setup.vectorMatches ?? [] })),
+			getByIds: vi.fn(async (ids: string[]) => (setup.storedVectors ?? []).filter(v => ids.includes(v.id))),
+		},
+		DATABASE: {
+			prepare: (query: string) => ({
+				bind: (...params: any[]) => ({
+					all: async () => {
+						queries.push({ query, params });
+						if (query.includes('FROM notes_fts')) {
+							return { results: (setup.keywordIds ?? []).map(id => ({ note_id: id })) };
+						}
+						if (query.includes('FROM notes WHERE id IN')) {
+							return { results: notes.filter(n => params.includes(n.id)) };
+						}
+						if (query.includes('FROM documents WHERE id IN')) {
+							const allowed = setup.allowedDocumentIds ?? notes.map(n => n.document_id);
+							return { results: allowed.filter(id => params.includes(id)).map(id => ({ id })) };
+						}
+						return { results: [] };
+					},
+				}),
+			}),
+		},
+	};
+
+	return { env: env as unknown as Env, queries };
+}
+
+const note = (id: string, documentId: string): NoteRecord => ({ id, document_id: documentId, text: `Text ${id}`, chunk_index: 0 });
+
+describe('retrieveNotes', () => {
+	let logger: Logger;
+
+	beforeEach(() => {
+		logger = new Logger();
+		vi.spyOn(console, 'debug').mockImplementation(() => {});
+		vi.spyOn(console, 'info').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should merge vector and keyword matches', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.9 }, { id: 'n2', score: 0.8 }],
+			keywordIds: ['n3', 'n2'],
+			notes: [note('n1', 'd1'), note('n2', 'd1'), note('n3', 'd2')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'error E1234', { topK: 3 });
+
+		expect(results.map(r => r.id)).toEqual(['n2', 'n1', 'n3']);
+		expect(results[0].similarity).toBe(0.8);
+		expect(results[0].keywordRank).toBe(2);
+		expect(results[2].similarity).toBeUndefined();
+	});
+
+	it('should skip the embedding call when keyword weight is 1', async () => {
+		const { env } = createMockEnv({ keywordIds: ['n1'], notes: [note('n1', 'd1')] });
+
+		const results = await retrieveNotes(env, logger, 'sku-42', { keywordWeight: 1 });
+
+		expect(env.AI.run).not.toHaveBeenCalled();
+		expect(results.map(r => r.id)).toEqual(['n1']);
+	});
+
+	it('should report the texts embedded for the query', async () => {
+		const { env } = createMockEnv({ vectorMatches: [{ id: 'n1', score: 0.9 }], notes: [note('n1', 'd1')] });
+		const onQueryEmbedded = vi.fn();
+
+		await retrieveNotes(env, logger, 'reset password', { onQueryEmbedded });
+
+		expect(onQueryEmbedded).toHaveBeenCalledWith('@cf/baai/bge-base-en-v1.5', ['reset password']);
+	});
+
+	it('should fall back to vector results when keyword search fails', async () => {
+		const { env } = createMockEnv({ vectorMatches: [{ id: 'n1', score: 0.7 }], notes: [note('n1', 'd1')] });
+		const prepare = env.DATABASE.prepare;
+		env.DATABASE.prepare = ((query: string) => {
+			if (query.includes('notes_fts')) throw new Error('no such table: notes_fts');
+			return prepare(query);
+		}) as any;
+
+		const results = await retrieveNotes(env, logger, 'question');
+
+		expect(results.map(r => r.id)).toEqual(['n1']);
+	});
+
+	it('should pass filters to Vectorize and re-check them against D1', async () => {
+		const { env, queries } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.9 }, { id: 'n2', score: 0.8 }, { id: 'n3', score: 0.7 }],
+			notes: [note('n1', 'd1'), note('n2', 'd2'), note('n3', 'd3')],
+			allowedDocumentIds: ['d2', 'd3'],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', {
+			topK: 1,
+			keywordWeight: 0,
+			filter: { tags: ['api'], author: 'Ada' },
+		});
+
+		expect(env.VECTOR_INDEX.query).toHaveBeenCalledWith(expect.any(Array), {
+			topK: 10,
+			filter: { author: { $eq: 'Ada' } },
+			returnMetadata: 'all',
+		});
+		expect(queries.some(q => q.query.includes('json_each(documents.metadata'))).toBe(true);
+		expect(results.map(r => r.id)).toEqual(['n2']);
+	});
+
+	it('should skip notes of documents that are not ready', async () => {
+		const { env, queries } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.9 }, { id: 'n2', score: 0.8 }],
+			keywordIds: ['n1'],
+			notes: [note('n1', 'd-ingesting'), note('n2', 'd-ready')],
+			allowedDocumentIds: ['d-ready'],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 1 });
+
+		expect(queries.find(q => q.query.includes('FROM documents WHERE id IN'))?.query).toContain("status = 'ready'");
+		expect(queries.find(q => q.query.includes('FROM notes_fts'))?.query).toContain("documents.status = 'ready'");
+		expect(results.map(r => r.id)).toEqual(['n2']);
+	});
+
+	it('should ignore vectors from another embedding model', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [
+				{ id: 'n1', score: 0.95, metadata: { embedding_model: '@cf/baai/bge-small-en-v1.5' } },
+				{ id: 'n2', score: 0.9, metadata: { embedding_model: '@cf/baai/bge-base-en-v1.5' } },
+				{ id: 'n3', score: 0.8 }, // Legacy vector without a recorded model
+			],
+			notes: [note('n1', 'd1'), note('n2', 'd2'), note('n3', 'd3')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 3, keywordWeight: 0 });
+
+		expect(results.map(r => r.id)).toEqual(['n2', 'n3']);
+	});
+
+	it('should search only the tenant\'s namespace and documents', async () => {
+		const { env, queries } = createMockEnv({
+			vectorMatches: [
+				{ id: 'n1', score: 0.95, metadata: { tenant_id: 'other' } },
+				{ id: 'n2', score: 0.9, metadata: { tenant_id: 'acme' } },
+			],
+			keywordIds: ['n2'],
+			notes: [note('n1', 'd1'), note('n2', 'd2')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', { tenantId: 'acme', topK: 3 });
+
+		expect(env.VECTOR_INDEX.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ namespace: 'acme', filter: undefined }));
+		expect(queries.find(q => q.query.includes('FROM notes_fts'))?.params).toContain('acme');
+		expect(queries.find(q => q.query.includes('FROM notes WHERE id IN'))?.params).toEqual(['n2', 'acme']);
+		expect(results.map(r => r.id)).toEqual(['n2']);
+	});
+
+	it('should leave the default tenant\'s query unfiltered until its vector metadata is indexed', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [
+				{ id: 'n1', score: 0.95, metadata: { tenant_id: 'acme' } },
+				{ id: 'n2', score: 0.9 }, // Written before tenants, without tenant_id metadata
+			],
+			notes: [note('n1', 'd1'), note('n2', 'd2')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 3, keywordWeight: 0 });
+
+		expect(env.VECTOR_INDEX.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({
+			namespace: undefined,
+			filter: undefined,
+		}));
+		expect(results.map(r => r.id)).toEqual(['n2']);
+	});
+
+	it('should filter the default tenant\'s query to its vectors and ignore any others returned', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [
+				{ id: 'n1', score: 0.95, metadata: { tenant_id: 'acme' } }, // Upserted before the tenant_id index existed
+				{ id: 'n2', score: 0.9, metadata: { tenant_id: 'default' } },
+			],
+			notes: [note('n1', 'd1'), note('n2', 'd2')],
+		});
+		env.DEFAULT_TENANT_VECTOR_FILTER = 'true';
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 3, keywordWeight: 0 });
+
+		expect(env.VECTOR_INDEX.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({
+			namespace: undefined,
+			filter: { tenant_id: { $eq: 'default' } },
+		}));
+		expect(results.map(r => r.id)).toEqual(['n2']);
+	});
+
+	it('should rerank the full candidate set and keep the best topK', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.9 }, { id: 'n2', score: 0.8 }, { id: 'n3', score: 0.7 }],
+			notes: [note('n1', 'd1'), note('n2', 'd2'), note('n3', 'd3')],
+		});
+		const reranker = { model: 'test-reranker', rerank: vi.fn(async () => [0.1, 0.2, 0.95]) };
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 2, keywordWeight: 0, rerank: true, reranker });
+
+		expect(env.VECTOR_INDEX.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ topK: 20 }));
+		expect(reranker.rerank).toHaveBeenCalledWith('question', ['Text n1', 'Text n2', 'Text n3']);
+		expect(results.map(r => [r.id, r.rerankScore])).toEqual([['n3', 0.95], ['n2', 0.2]]);
+	});
+
+	it('should keep the fused order when reranking fails', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.9 }, { id: 'n2', score: 0.8 }],
+			notes: [note('n1', 'd1'), note('n2', 'd2')],
+		});
+		const reranker = { model: 'test-reranker', rerank: vi.fn(async () => { throw new Error('model unavailable'); }) };
+
+		const results = await retrieveNotes(env, logger, 'question', { topK: 1, keywordWeight: 0, rerank: true, reranker });
+
+		expect(results.map(r => r.id)).toEqual(['n1']);
+		expect(results[0].rerankScore).toBeUndefined();
+	});
+
+	it('should drop weak vector matches and return nothing when none pass', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.55 }, { id: 'n2', score: 0.42 }],
+			notes: [note('n1', 'd1'), note('n2', 'd2')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'question', { keywordWeight: 0, minSimilarity: 0.6 });
+
+		expect(results).toEqual([]);
+	});
+
+	it('should hold keyword matches to the minimum similarity', async () => {
+		const queryVector = new Array(768).fill(0.1);
+		const unrelated = queryVector.map((_, i) => (i % 2 === 0 ? 0.1 : -0.1));
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.3 }],
+			keywordIds: ['n2', 'n3'],
+			storedVectors: [{ id: 'n2', values: unrelated }, { id: 'n3', values: queryVector }],
+			notes: [note('n1', 'd1'), note('n2', 'd2'), note('n3', 'd3')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'billing invoice', { topK: 3, minSimilarity: 0.6 });
+
+		expect(env.VECTOR_INDEX.getByIds).toHaveBeenCalledWith(['n2', 'n3']);
+		expect(results.map(r => r.id)).toEqual(['n3']);
+		expect(results[0].similarity).toBeCloseTo(1);
+	});
+
+	it('should retrieve nothing for an off-topic question sharing only words with the notes, so the answer skips the model', async () => {
+		const { env } = createMockEnv({
+			vectorMatches: [{ id: 'n1', score: 0.21 }],
+			keywordIds: ['n1'],
+			storedVectors: [{ id: 'n1', values: new Array(768).fill(0.1).map((v, i) => (i % 2 === 0 ? v : -v)) }],
+			notes: [note('n1', 'd1')],
+		});
+
+		const results = await retrieveNotes(env, logger, 'What is the capital of France?', { minSimilarity: 0.5 });
+
+		expect(results).toEqual([]);
+		// Only the query embedding; no text generation
+		expect(env.AI.run).toHaveBeenCalledTimes(1);
+		expect(env.AI.run).toHaveBeenCalledWith('@cf/baai/bge-base-en-v1.5', { text: ['What is the capital of France?'] });
+	});
+});
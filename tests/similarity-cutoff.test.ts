@@ -0,0 +1,51 @@
+/**
+ * Unit tests for vector similarity thresholds
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySimilarityCutoff, parseThreshold, resolveSimilarityThresholds } from '../src/utils/similarity-cutoff';
+import { Env } from '../src/types';
+
+const matches = (...scores: number[]) => scores.map((score, i) => ({ id: `n${i + 1}`, score }));
+
+describe('applySimilarityCutoff', () => {
+	it('should keep everything without thresholds', () => {
+		expect(applySimilarityCutoff(matches(0.3, 0.9, 0.5), { minSimilarity: 0 }).map(m => m.id)).toEqual(['n2', 'n3', 'n1']);
+	});
+
+	it('should drop matches below the minimum similarity', () => {
+		expect(applySimilarityCutoff(matches(0.82, 0.74, 0.61), { minSimilarity: 0.7 }).map(m => m.id)).toEqual(['n1', 'n2']);
+	});
+
+	it('should stop at the first large drop between consecutive matches', () => {
+		const result = applySimilarityCutoff(matches(0.86, 0.84, 0.71, 0.7), { minSimilarity: 0, maxScoreGap: 0.1 });
+
+		expect(result.map(m => m.id)).toEqual(['n1', 'n2']);
+	});
+
+	it('should return nothing when no match passes', () => {
+		expect(applySimilarityCutoff(matches(0.4, 0.35), { minSimilarity: 0.6, maxScoreGap: 0.1 })).toEqual([]);
+	});
+});
+
+describe('resolveSimilarityThresholds', () => {
+	it('should prefer request options over the environment', () => {
+		const env = { RETRIEVAL_MIN_SIMILARITY: '0.6', RETRIEVAL_MAX_SCORE_GAP: '0.15' } as Env;
+
+		expect(resolveSimilarityThresholds({} as Env)).toEqual({ minSimilarity: 0, maxScoreGap: undefined });
+		expect(resolveSimilarityThresholds(env)).toEqual({ minSimilarity: 0.6, maxScoreGap: 0.15 });
+		expect(resolveSimilarityThresholds(env, { minSimilarity: 0.5 })).toEqual({ minSimilarity: 0.5, maxScoreGap: 0.15 });
+	});
+
+	it('should ignore invalid environment values', () => {
+		expect(resolveSimilarityThresholds({ RETRIEVAL_MIN_SIMILARITY: 'high' } as Env).minSimilarity).toBe(0);
+	});
+});
+
+describe('parseThreshold', () => {
+	it('should accept numbers and numeric strings between 0 and 1', () => {
+		expect(parseThreshold('minSimilarity', undefined)).toEqual({});
+		expect(parseThreshold('minSimilarity', '0.7')).toEqual({ value: 0.7 });
+		expect(parseThreshold('minSimilarity', 1.5).error).toBe('minSimilarity must be a number between 0 and 1');
+	});
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for tenant resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTenantId, vectorNamespace, vectorTenantId, DEFAULT_TENANT_ID } from '../src/utils/tenant';
+
+describe('parseTenantId', () => {
+	it('should use the default tenant without a header', () => {
+		expect(parseTenantId(undefined)).toEqual({ value: DEFAULT_TENANT_ID });
+		expect(parseTenantId('  ')).toEqual({ value: DEFAULT_TENANT_ID });
+	});
+
+	it('should accept letters, digits, hyphens and underscores', () => {
+		expect(parseTenantId(' team-a_01 ')).toEqual({ value: 'team-a_01' });
+	});
+
+	it('should reject other characters and overlong IDs', () => {
+		expect(parseTenantId('team:a').error).toBeDefined();
+		expect(parseTenantId('a/b').error).toBeDefined();
+		expect(parseTenantId('x'.repeat(65)).error).toBeDefined();
+	});
+});
+
+describe('vector tenants', () => {
+	it('should give non-default tenants their own namespace', () => {
+		expect(vectorNamespace('acme')).toBe('acme');
+		expect(vectorNamespace(DEFAULT_TENANT_ID)).toBeUndefined();
+	});
+
+	it('should assign vectors without a tenant to the default tenant', () => {
+		expect(vectorTenantId({ tenant_id: 'acme' })).toBe('acme');
+		expect(vectorTenantId({})).toBe(DEFAULT_TENANT_ID);
+		expect(vectorTenantId(undefined)).toBe(DEFAULT_TENANT_ID);
+	});
+});
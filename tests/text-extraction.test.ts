@@ -0,0 +1,82 @@
+/**
+ * Unit tests for uploaded file text extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectContentType, htmlToText, extractText } from '../src/utils/text-extraction';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Build a minimal single-page PDF containing one line of text
+ */
+function buildPdf(line: string): Uint8Array {
+	const content = `BT /F1 18 Tf 20 100 Td (${line}) Tj ET`;
+	const objects = [
+		'<< /Type /Catalog /Pages 2 0 R >>',
+		'<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+		'<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 144] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+		`<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+		'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+	];
+
+	let pdf = '%PDF-1.4\n';
+	const offsets: number[] = [];
+	objects.forEach((object, index) => {
+		offsets.push(pdf.length);
+		pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+	});
+
+	const xrefOffset = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+	return encode(pdf);
+}
+
+describe('detectContentType', () => {
+	it('should detect PDFs by magic bytes regardless of name or declared type', () => {
+		expect(detectContentType(encode('%PDF-1.7 ...'), 'upload.bin', 'application/octet-stream')).toBe('application/pdf');
+	});
+
+	it('should prefer a supported declared MIME type', () => {
+		expect(detectContentType(encode('# Title'), 'notes.txt', 'text/markdown; charset=utf-8')).toBe('text/markdown');
+		expect(detectContentType(encode('# Title'), 'notes', 'text/x-markdown')).toBe('text/markdown');
+	});
+
+	it('should fall back to the file extension', () => {
+		expect(detectContentType(encode('# Title'), 'README.md', 'application/octet-stream')).toBe('text/markdown');
+		expect(detectContentType(encode('<p>x</p>'), 'page.HTM', '')).toBe('text/html');
+		expect(detectContentType(encode('plain'), 'notes.txt')).toBe('text/plain');
+	});
+
+	it('should return null for unsupported files', () => {
+		expect(detectContentType(encode('PK'), 'archive.zip', 'application/zip')).toBeNull();
+	});
+});
+
+describe('htmlToText', () => {
+	it('should strip markup, scripts and styles', () => {
+		const html = '<html><head><title>T</title><style>p{}</style></head><body><script>alert(1)</script><h1>Heading</h1><p>Some <b>bold</b> text.</p></body></html>';
+		expect(htmlToText(html)).toBe('Heading\n\nSome bold text.');
+	});
+
+	it('should keep list items and line breaks', () => {
+		expect(htmlToText('<ul><li>One</li><li>Two</li></ul>Line<br>Break')).toBe('- One\n- Two\n\nLine\nBreak');
+	});
+
+	it('should decode entities', () => {
+		expect(htmlToText('<p>Fish &amp; chips &lt;3 &#169; &#x263A;&nbsp;!</p>')).toBe('Fish & chips <3 © ☺ !');
+	});
+});
+
+describe('extractText', () => {
+	it('should keep Markdown structure', async () => {
+		const markdown = '# Title\r\n\r\n## Section\r\n- item\r\n';
+		expect(await extractText(encode(markdown), 'text/markdown')).toBe('# Title\n\n## Section\n- item');
+	});
+
+	it('should extract text from PDFs', async () => {
+		expect(await extractText(buildPdf('Hello PDF upload'), 'application/pdf')).toBe('Hello PDF upload');
+	});
+});
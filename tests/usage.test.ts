@@ -0,0 +1,155 @@
+/**
+ * Unit tests for usage recording, cost estimates and report ranges
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	completionUsage, embeddingTokens, estimateCost, findModelPrice, parseUsageRange, recordUsage, resolveModelPricing
+} from '../src/utils/usage';
+import { Env, UsageEvent } from '../src/types';
+import { CompletionRequest } from '../src/utils/llm-provider';
+
+/**
+ * Build an Env whose D1 binding stores usage_events rows in memory
+ */
+function createMockEnv(vars: Partial<Env> = {}) {
+	const rows: UsageEvent[] = [];
+	const env = {
+		...vars,
+		DATABASE: {
+			prepare: (query: string) => ({
+				bind: (...params: any[]) => ({
+					run: async () => {
+						if (query.includes('INSERT OR IGNORE INTO usage_events') && !rows.some(row => row.id === params[0])) {
+							const [
+								id, tenant_id, kind, provider, model, conversation_id, message_id, document_id,
+								request_count, input_tokens, output_tokens, estimated, latency_ms, cost_usd, created_at
+							] = params;
+							rows.push({
+								id, tenant_id, kind, provider, model, conversation_id, message_id, document_id,
+								request_count, input_tokens, output_tokens, estimated, latency_ms, cost_usd, created_at,
+							});
+						}
+						return { success: true };
+					},
+				}),
+			}),
+		},
+	};
+	return { env: env as unknown as Env, rows };
+}
+
+const request: CompletionRequest = { system: 'x'.repeat(40), messages: [{ role: 'user', content: 'y'.repeat(40) }] };
+
+describe('model pricing', () => {
+	it('should price dated snapshots with the price of their alias', () => {
+		const pricing = resolveModelPricing({} as Env);
+		expect(findModelPrice(pricing, 'claude-haiku-4-5-20251001')).toEqual({ input: 1, output: 5 });
+		expect(findModelPrice(pricing, 'gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+		expect(findModelPrice(pricing, 'unknown-model')).toBeUndefined();
+	});
+
+	it('should estimate costs per million tokens, and none for unpriced models', () => {
+		const pricing = resolveModelPricing({} as Env);
+		expect(estimateCost(pricing, 'claude-haiku-4-5', 1_000_000, 200_000)).toBeCloseTo(2);
+		expect(estimateCost(pricing, 'unknown-model', 1000, 1000)).toBeNull();
+	});
+
+	it('should merge valid MODEL_PRICING entries over the built-in prices', () => {
+		const pricing = resolveModelPricing({
+			MODEL_PRICING: JSON.stringify({ 'my-model': { input: 2 }, 'gpt-4o-mini': { input: 1, output: 2 }, bad: { input: -1 } }),
+		} as Env);
+		expect(pricing['my-model']).toEqual({ input: 2, output: 0 });
+		expect(pricing['gpt-4o-mini']).toEqual({ input: 1, output: 2 });
+		expect(pricing.bad).toBeUndefined();
+		expect(resolveModelPricing({ MODEL_PRICING: 'not json' } as Env)['gpt-4o-mini']).toEqual({ input: 0.15, output: 0.6 });
+	});
+});
+
+describe('token counts', () => {
+	it('should use reported usage, or estimate tokens from the prompt and answer', () => {
+		expect(completionUsage(request, 'answer', { inputTokens: 100, outputTokens: 20 })).toEqual({
+			usage: { inputTokens: 100, outputTokens: 20 },
+			estimated: false,
+		});
+		expect(completionUsage(request, 'z'.repeat(8), null)).toEqual({
+			usage: { inputTokens: 21, outputTokens: 2 },
+			estimated: true,
+		});
+	});
+
+	it('should estimate embedding tokens per text', () => {
+		expect(embeddingTokens(['a'.repeat(8), 'b'.repeat(4)])).toBe(3);
+		expect(embeddingTokens([])).toBe(0);
+	});
+});
+
+describe('recordUsage', () => {
+	it('should store tokens, latency and estimated cost', async () => {
+		const { env, rows } = createMockEnv();
+
+		const event = await recordUsage(env, {
+			tenantId: 'acme',
+			kind: 'chat',
+			provider: 'anthropic',
+			model: 'claude-haiku-4-5-20251001',
+			conversationId: 'conv-1',
+			messageId: 'msg-1',
+			inputTokens: 1000,
+			outputTokens: 200,
+			latencyMs: 812.4,
+		}, 1_800_000_000_000);
+
+		expect(rows).toEqual([event]);
+		expect(event).toMatchObject({
+			tenant_id: 'acme',
+			conversation_id: 'conv-1',
+			message_id: 'msg-1',
+			document_id: null,
+			request_count: 1,
+			estimated: 0,
+			latency_ms: 812,
+			created_at: 1_800_000_000_000,
+		});
+		expect(event.cost_usd).toBeCloseTo(0.002);
+	});
+
+	it('should record an ID once', async () => {
+		const { env, rows } = createMockEnv();
+		const input = {
+			id: 'instance-1:embeddings', tenantId: 'default', kind: 'embedding' as const, provider: 'workers-ai',
+			model: '@cf/baai/bge-base-en-v1.5', documentId: 'doc-1', requestCount: 3, inputTokens: 600, outputTokens: 0, estimated: true,
+		};
+
+		await recordUsage(env, input);
+		await recordUsage(env, input);
+
+		expect(rows).toHaveLength(1);
+		expect(rows[0]).toMatchObject({ request_count: 3, estimated: 1, latency_ms: null });
+	});
+});
+
+describe('parseUsageRange', () => {
+	const now = Date.parse('2026-10-19T15:30:00Z');
+
+	it('should default to the last 30 days including today', () => {
+		expect(parseUsageRange(undefined, undefined, now).value).toEqual({
+			from: '2026-09-20',
+			to: '2026-10-19',
+			startMs: Date.parse('2026-09-20T00:00:00Z'),
+			endMs: Date.parse('2026-10-20T00:00:00Z'),
+		});
+	});
+
+	it('should include the whole of the last day', () => {
+		const range = parseUsageRange('2026-10-01', '2026-10-01', now).value!;
+		expect(range.endMs - range.startMs).toBe(24 * 60 * 60 * 1000);
+	});
+
+	it('should reject invalid dates and ranges', () => {
+		expect(parseUsageRange('2026-02-30', undefined, now).error).toBeDefined();
+		expect(parseUsageRange('yesterday', undefined, now).error).toBeDefined();
+		expect(parseUsageRange('2026-10-10', '2026-10-01', now).error).toBeDefined();
+		expect(parseUsageRange('2024-01-01', '2026-10-01', now).error).toBeDefined();
+	});
+});